@@ -0,0 +1,193 @@
+/**
+ * Ruleblock Chaining
+ *
+ * Orders ruleblocks by their bind statements and derives the rout_*
+ * tables of in-batch source ruleblocks by evaluating them over the
+ * generated EADV rows, so downstream ruleblocks see upstream output
+ * that is consistent with upstream input.
+ */
+
+import {
+  ParsedRuleblock,
+  ParsedBindStatement,
+  RuleType,
+} from 'picorules-compiler-js-core';
+import { EadvRow, RoutRow, UnevaluableRoutVariable } from './models/types';
+import {
+  evaluateRuleblock,
+  findUnevaluableComputes,
+  groupTableRowsByEntity,
+  UnevaluableCompute,
+} from './evaluator';
+import { routTableName } from './extractor';
+import { formatDate } from './utils/date-utils';
+
+/**
+ * Names of the in-batch ruleblocks a ruleblock binds to (lowercase).
+ */
+function bindSources(rb: ParsedRuleblock, names: Set<string>): Set<string> {
+  const sources = new Set<string>();
+  for (const rule of rb.rules) {
+    if (rule.ruleType !== RuleType.BIND_STATEMENT) continue;
+    const source = (rule as ParsedBindStatement).sourceRuleblock.toLowerCase();
+    if (names.has(source)) sources.add(source);
+  }
+  return sources;
+}
+
+/**
+ * Order ruleblocks so every ruleblock comes after the in-batch
+ * ruleblocks it binds to. Ruleblocks without a dependency between them
+ * keep their input order.
+ *
+ * @param ruleblocks - Parsed ruleblocks
+ * @returns Ruleblocks in dependency order
+ * @throws Error if the bind statements form a cycle
+ */
+export function orderRuleblocksByBinds(ruleblocks: ParsedRuleblock[]): ParsedRuleblock[] {
+  const names = new Set(ruleblocks.map((rb) => rb.name.toLowerCase()));
+  const pending = ruleblocks.map((rb) => ({ rb, sources: bindSources(rb, names) }));
+  const ordered: ParsedRuleblock[] = [];
+  const done = new Set<string>();
+
+  while (pending.length > 0) {
+    const index = pending.findIndex(({ sources }) =>
+      Array.from(sources).every((source) => done.has(source))
+    );
+    if (index < 0) {
+      const cycle = pending.map(({ rb }) => rb.name).join(', ');
+      throw new Error(`Bind statements form a cycle between ruleblocks: ${cycle}`);
+    }
+
+    const [{ rb }] = pending.splice(index, 1);
+    ordered.push(rb);
+    done.add(rb.name.toLowerCase());
+  }
+
+  return ordered;
+}
+
+/**
+ * Check whether a rout_* table is produced by a ruleblock in the batch.
+ *
+ * @param tableName - rout_* table name
+ * @param ruleblocks - Parsed ruleblocks
+ * @returns True if the source ruleblock is in the batch
+ */
+export function isInBatchRoutTable(tableName: string, ruleblocks: ParsedRuleblock[]): boolean {
+  const source = tableName.toLowerCase().replace(/^rout_/, '');
+  return ruleblocks.some((rb) => rb.name.toLowerCase() === source);
+}
+
+/**
+ * Names of the ruleblocks another ruleblock in the batch binds to (lowercase).
+ */
+function boundRuleblocks(ordered: ParsedRuleblock[]): Set<string> {
+  const names = new Set(ordered.map((rb) => rb.name.toLowerCase()));
+  return new Set(ordered.flatMap((rb) => Array.from(bindSources(rb, names))));
+}
+
+/**
+ * Find the compute statements of each ruleblock that can't be evaluated,
+ * following binds to the derived output of unevaluable upstream variables.
+ */
+function unevaluableByRuleblock(
+  ordered: ParsedRuleblock[]
+): Map<ParsedRuleblock, Map<string, UnevaluableCompute>> {
+  const upstream: Record<string, Map<string, UnevaluableCompute>> = {};
+  const result = new Map<ParsedRuleblock, Map<string, UnevaluableCompute>>();
+  for (const rb of ordered) {
+    const unevaluable = findUnevaluableComputes(rb, upstream);
+    upstream[routTableName(rb.name)] = unevaluable;
+    result.set(rb, unevaluable);
+  }
+  return result;
+}
+
+/**
+ * List the variables that derived rout_* tables hold as null because they
+ * depend on functions the evaluator doesn't implement.
+ *
+ * @param ordered - Ruleblocks in dependency order
+ * @returns Unevaluable variables of every derived rout_* table
+ */
+export function findUnevaluableRoutVariables(
+  ordered: ParsedRuleblock[]
+): UnevaluableRoutVariable[] {
+  const bound = boundRuleblocks(ordered);
+  const result: UnevaluableRoutVariable[] = [];
+  for (const [rb, unevaluable] of unevaluableByRuleblock(ordered)) {
+    if (!bound.has(rb.name.toLowerCase())) continue;
+    for (const [variable, { functions }] of unevaluable) {
+      result.push({ table: routTableName(rb.name), variable, functions });
+    }
+  }
+  return result;
+}
+
+/**
+ * Derive the rout_* tables of in-batch source ruleblocks.
+ *
+ * Ruleblocks are evaluated in dependency order for every entity. Each
+ * ruleblock that another ruleblock binds to gets a rout_* table with one
+ * row per entity holding all of its variables. Dates are formatted like
+ * the EADV rows. Variables that depend on functions the evaluator doesn't
+ * implement are null (see findUnevaluableRoutVariables).
+ *
+ * @param ordered - Ruleblocks in dependency order
+ * @param tables - Generated rows of each EADV-shaped table
+ * @param mockedRoutTables - Mocked rout_* tables of out-of-batch sources
+ * @param entities - Entity IDs
+ * @param dateFormat - Format of the generated dates
+ * @param sysdate - Value used for `sysdate`
+ * @returns Derived rout_* tables, keyed by table name
+ */
+export function deriveRoutTables(
+  ordered: ParsedRuleblock[],
+  tables: Record<string, EadvRow[]>,
+  mockedRoutTables: Record<string, RoutRow[]>,
+  entities: number[],
+  dateFormat: 'iso' | 'oracle' | 'mssql',
+  sysdate: Date
+): Record<string, RoutRow[]> {
+  const bound = boundRuleblocks(ordered);
+  const unevaluable = unevaluableByRuleblock(ordered);
+  const rowsByEntity = groupTableRowsByEntity(tables);
+
+  const routByEntity = new Map<number, Record<string, RoutRow | undefined>>();
+  for (const eid of entities) {
+    routByEntity.set(eid, {});
+  }
+  for (const [table, rows] of Object.entries(mockedRoutTables)) {
+    for (const row of rows) {
+      routByEntity.get(row.eid)![table] = row;
+    }
+  }
+
+  const derived: Record<string, RoutRow[]> = {};
+
+  for (const rb of ordered) {
+    if (!bound.has(rb.name.toLowerCase())) continue;
+    const tableName = routTableName(rb.name);
+
+    derived[tableName] = entities.map((eid) => {
+      const tableRows = rowsByEntity.get(eid) ?? {};
+      const { variables } = evaluateRuleblock(rb, tableRows.eadv ?? [], {
+        dateFormat,
+        sysdate,
+        routRows: routByEntity.get(eid),
+        tableRows,
+        unevaluable: unevaluable.get(rb),
+      });
+
+      const row: RoutRow = { eid };
+      for (const [name, value] of Object.entries(variables)) {
+        row[name] = value instanceof Date ? formatDate(value, dateFormat) : value;
+      }
+      routByEntity.get(eid)![tableName] = row;
+      return row;
+    });
+  }
+
+  return derived;
+}
@@ -0,0 +1,410 @@
+#!/usr/bin/env node
+/**
+ * eadv-mock CLI
+ *
+ * Generates mock datasets from Picorules ruleblock files (.prb) without
+ * writing any TypeScript, and lists the attributes and bind dependencies
+ * a set of ruleblocks needs.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { parse, RuleblockInput } from 'picorules-compiler-js-core';
+import { generateMockDataFromParsed } from './mocker';
+import { extractDependencies } from './extractor';
+import { emitSqlScript, writeBulkFiles } from './emitters';
+import {
+  BulkFormat,
+  DateDistribution,
+  MockerOptions,
+  SqlDialect,
+} from './models/types';
+
+/**
+ * Where the CLI writes its output
+ */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const BULK_FORMATS: BulkFormat[] = ['csv', 'tsv', 'jsonl', 'pgcopy', 'sqlldr', 'bcp'];
+const SQL_DIALECTS: SqlDialect[] = ['oracle', 'mssql', 'postgres', 'sqlite'];
+const DATE_FORMATS: NonNullable<MockerOptions['dateFormat']>[] = ['iso', 'oracle', 'mssql'];
+const DATE_DISTRIBUTIONS: DateDistribution[] = ['uniform', 'recent-weighted', 'clustered'];
+
+const USAGE = `Usage: eadv-mock <command> <files or directories...> [options]
+
+Commands:
+  generate     Generate a mock dataset
+  attributes   List the EADV attributes the ruleblocks fetch, per table
+  binds        List the rout_* variables the ruleblocks bind
+
+Ruleblocks are read from .prb files; a directory is searched for .prb
+files. The file name (without extension) is the ruleblock name.
+
+Generation options (override the config file):
+  --config <file>                       JSON file with MockerOptions fields
+  --entity-count <n>
+  --entity-id-start <n>
+  --observations-per-entity <n>
+  --date-start <date>
+  --date-end <date>
+  --date-format <iso|oracle|mssql>
+  --date-distribution <uniform|recent-weighted|clustered>
+  --seed <n>
+  --target-thresholds
+  --threshold-target-probability <p>
+  --branch-coverage
+  --min-entities-per-branch <n>
+  --wildcard-expansions-per-entity <n>
+  --chain                               Derive rout_* tables of in-batch ruleblocks
+  --no-mock-bind-tables
+  --no-shape-by-fetch-function
+  --no-shape-by-fetch-filter
+
+Output options:
+  --format <json|sql|csv|tsv|jsonl|pgcopy|sqlldr|bcp>   (default: json)
+  --dialect <oracle|mssql|postgres|sqlite>               Required for sql
+  --batch-size <n>                      Rows per INSERT for sql
+  --drop-tables                         Drop tables first for sql
+  --null-token <text>                   Null text for csv/tsv
+  --no-header                           Omit the csv/tsv header row
+  --out <path>                          File for json/sql, directory for bulk formats
+  --table <name>                        Print one table's data file (bulk formats)
+  --json                                JSON output for attributes/binds
+  --help
+`;
+
+const OPTIONS = {
+  config: { type: 'string' },
+  'entity-count': { type: 'string' },
+  'entity-id-start': { type: 'string' },
+  'observations-per-entity': { type: 'string' },
+  'date-start': { type: 'string' },
+  'date-end': { type: 'string' },
+  'date-format': { type: 'string' },
+  'date-distribution': { type: 'string' },
+  seed: { type: 'string' },
+  'target-thresholds': { type: 'boolean' },
+  'threshold-target-probability': { type: 'string' },
+  'branch-coverage': { type: 'boolean' },
+  'min-entities-per-branch': { type: 'string' },
+  'wildcard-expansions-per-entity': { type: 'string' },
+  chain: { type: 'boolean' },
+  'no-mock-bind-tables': { type: 'boolean' },
+  'no-shape-by-fetch-function': { type: 'boolean' },
+  'no-shape-by-fetch-filter': { type: 'boolean' },
+  format: { type: 'string' },
+  dialect: { type: 'string' },
+  'batch-size': { type: 'string' },
+  'drop-tables': { type: 'boolean' },
+  'null-token': { type: 'string' },
+  'no-header': { type: 'boolean' },
+  out: { type: 'string' },
+  table: { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean' },
+} as const;
+
+/**
+ * Parse command-line arguments against the CLI's options.
+ */
+function parseCliArgs(args: string[]) {
+  return parseArgs({ args, options: OPTIONS, allowPositionals: true });
+}
+
+type CliValues = ReturnType<typeof parseCliArgs>['values'];
+
+/**
+ * Parse a numeric flag, rejecting anything that isn't a number.
+ */
+function toNumber(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (Number.isNaN(n)) {
+    throw new Error(`--${flag} expects a number, got '${value}'`);
+  }
+  return n;
+}
+
+/**
+ * Parse a flag that takes one of a fixed set of values.
+ */
+function toChoice<T extends string>(
+  flag: string,
+  value: string | undefined,
+  choices: T[]
+): T | undefined {
+  if (value === undefined) return undefined;
+  if (!choices.includes(value as T)) {
+    throw new Error(`--${flag} expects one of ${choices.join(', ')}, got '${value}'`);
+  }
+  return value as T;
+}
+
+/**
+ * Read the --config file, rejecting anything but a JSON object of
+ * MockerOptions fields.
+ */
+function readConfig(file: string): MockerOptions {
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`--config ${file}: ${(error as Error).message}`);
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`--config ${file} must contain a JSON object of options`);
+  }
+
+  const { dateFormat } = config as MockerOptions;
+  if (dateFormat !== undefined && !DATE_FORMATS.includes(dateFormat)) {
+    throw new Error(
+      `--config ${file}: dateFormat expects one of ${DATE_FORMATS.join(', ')}, got '${dateFormat}'`
+    );
+  }
+  return config as MockerOptions;
+}
+
+/**
+ * Read ruleblocks from .prb files and directories of .prb files.
+ *
+ * @param paths - File and directory paths
+ * @returns Ruleblock inputs, named after their files
+ */
+export function readRuleblockFiles(paths: string[]): RuleblockInput[] {
+  const files: string[] = [];
+  for (const p of paths) {
+    if (fs.statSync(p).isDirectory()) {
+      files.push(
+        ...fs
+          .readdirSync(p)
+          .filter((name) => name.toLowerCase().endsWith('.prb'))
+          .sort()
+          .map((name) => path.join(p, name))
+      );
+    } else {
+      files.push(p);
+    }
+  }
+
+  return files.map((file) => ({
+    name: path.basename(file, path.extname(file)),
+    text: fs.readFileSync(file, 'utf8'),
+    isActive: true,
+  }));
+}
+
+/**
+ * Build MockerOptions from the config file and flags. Flags win.
+ *
+ * @param values - Parsed flags
+ * @returns Mocker options
+ */
+function buildOptions(values: CliValues): MockerOptions {
+  const config: MockerOptions = values.config ? readConfig(values.config) : {};
+
+  const flags: MockerOptions = {
+    entityCount: toNumber('entity-count', values['entity-count']),
+    entityIdStart: toNumber('entity-id-start', values['entity-id-start']),
+    observationsPerEntity: toNumber(
+      'observations-per-entity',
+      values['observations-per-entity']
+    ),
+    dateFormat: toChoice('date-format', values['date-format'], DATE_FORMATS),
+    dateDistribution: toChoice(
+      'date-distribution',
+      values['date-distribution'],
+      DATE_DISTRIBUTIONS
+    ),
+    seed: toNumber('seed', values.seed),
+    targetThresholds: values['target-thresholds'],
+    thresholdTargetProbability: toNumber(
+      'threshold-target-probability',
+      values['threshold-target-probability']
+    ),
+    branchCoverage: values['branch-coverage'],
+    minEntitiesPerBranch: toNumber(
+      'min-entities-per-branch',
+      values['min-entities-per-branch']
+    ),
+    wildcardExpansionsPerEntity: toNumber(
+      'wildcard-expansions-per-entity',
+      values['wildcard-expansions-per-entity']
+    ),
+    chainRuleblocks: values.chain,
+    includeMockBindTables: values['no-mock-bind-tables'] ? false : undefined,
+    shapeByFetchFunction: values['no-shape-by-fetch-function'] ? false : undefined,
+    shapeByFetchFilter: values['no-shape-by-fetch-filter'] ? false : undefined,
+  };
+
+  const options: MockerOptions = { ...config };
+  for (const [key, value] of Object.entries(flags)) {
+    if (value !== undefined) {
+      (options as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  if (values['date-start'] || values['date-end']) {
+    const start = values['date-start'] ?? config.dateRange?.start;
+    const end = values['date-end'] ?? config.dateRange?.end;
+    if (!start || !end) {
+      throw new Error('--date-start and --date-end must be given together');
+    }
+    options.dateRange = { start, end };
+  }
+
+  return options;
+}
+
+/**
+ * Write a generated dataset in the chosen format.
+ */
+function writeDataset(
+  values: CliValues,
+  options: MockerOptions,
+  ruleblocks: RuleblockInput[],
+  io: CliIO
+): void {
+  const format = values.format ?? 'json';
+  const dateFormat = options.dateFormat ?? 'iso';
+  const result = generateMockDataFromParsed(parse(ruleblocks), options);
+
+  const emit = (text: string) => {
+    if (values.out) {
+      fs.writeFileSync(values.out, text);
+    } else {
+      io.stdout(text);
+    }
+  };
+
+  if (format === 'json') {
+    emit(JSON.stringify(result, null, 2) + '\n');
+    return;
+  }
+
+  if (format === 'sql') {
+    const dialect = values.dialect as SqlDialect | undefined;
+    if (!dialect || !SQL_DIALECTS.includes(dialect)) {
+      throw new Error(`--format sql needs --dialect (${SQL_DIALECTS.join(', ')})`);
+    }
+    emit(
+      emitSqlScript(result, {
+        dialect,
+        dateFormat,
+        batchSize: toNumber('batch-size', values['batch-size']),
+        dropTables: values['drop-tables'],
+      })
+    );
+    return;
+  }
+
+  if (!BULK_FORMATS.includes(format as BulkFormat)) {
+    throw new Error(`Unknown format '${format}'`);
+  }
+
+  const files = writeBulkFiles(result, format as BulkFormat, {
+    dateFormat,
+    nullToken: values['null-token'],
+    header: !values['no-header'],
+  });
+
+  if (values.table) {
+    // The data file comes before any control or format file
+    const name = Object.keys(files).find((file) => file.startsWith(`${values.table}.`));
+    if (!name) {
+      throw new Error(`No table named '${values.table}' was generated`);
+    }
+    emit(files[name]);
+    return;
+  }
+
+  if (!values.out) {
+    throw new Error(
+      `--format ${format} writes one file per table; give --out <directory> or --table <name>`
+    );
+  }
+  fs.mkdirSync(values.out, { recursive: true });
+  for (const [name, contents] of Object.entries(files)) {
+    fs.writeFileSync(path.join(values.out, name), contents);
+  }
+  io.stderr(`Wrote ${Object.keys(files).length} files to ${values.out}\n`);
+}
+
+/**
+ * Run the CLI.
+ *
+ * @param args - Command-line arguments (without node and the script path)
+ * @param io - Output streams
+ * @returns Process exit code
+ */
+export function runCli(
+  args: string[],
+  io: CliIO = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  }
+): number {
+  try {
+    const { values, positionals } = parseCliArgs(args);
+
+    const [command, ...paths] = positionals;
+    if (values.help || !command) {
+      io.stdout(USAGE);
+      return values.help ? 0 : 1;
+    }
+    if (paths.length === 0) {
+      throw new Error('No ruleblock files given');
+    }
+
+    const ruleblocks = readRuleblockFiles(paths);
+
+    switch (command) {
+      case 'generate':
+        writeDataset(values, buildOptions(values), ruleblocks, io);
+        return 0;
+
+      case 'attributes': {
+        const { tableAttributes } = extractDependencies(parse(ruleblocks));
+        if (values.json) {
+          const tables = Object.fromEntries(
+            Array.from(tableAttributes, ([table, atts]) => [table, Array.from(atts)])
+          );
+          io.stdout(JSON.stringify(tables, null, 2) + '\n');
+        } else {
+          for (const [table, atts] of tableAttributes) {
+            for (const att of atts) io.stdout(`${table}.${att}\n`);
+          }
+        }
+        return 0;
+      }
+
+      case 'binds': {
+        const { bindDependencies } = extractDependencies(parse(ruleblocks));
+        if (values.json) {
+          const tables = Object.fromEntries(
+            Array.from(bindDependencies, ([table, vars]) => [table, Array.from(vars)])
+          );
+          io.stdout(JSON.stringify(tables, null, 2) + '\n');
+        } else {
+          for (const [table, vars] of bindDependencies) {
+            for (const variable of vars) io.stdout(`${table}.${variable}\n`);
+          }
+        }
+        return 0;
+      }
+
+      default:
+        throw new Error(`Unknown command '${command}'`);
+    }
+  } catch (error) {
+    io.stderr(`eadv-mock: ${(error as Error).message}\n`);
+    return 1;
+  }
+}
+
+if (typeof require !== 'undefined' && require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
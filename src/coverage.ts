@@ -0,0 +1,584 @@
+/**
+ * Branch Coverage
+ *
+ * Plans an entity population in which every compute statement branch
+ * fires for a minimum number of entities, and measures the coverage the
+ * generated data actually achieves.
+ */
+
+import {
+  ParsedRuleblock,
+  ParsedFetchStatement,
+  ParsedBindStatement,
+  ParsedComputeStatement,
+  RuleType,
+} from 'picorules-compiler-js-core';
+import {
+  AttributePin,
+  BranchCoverage,
+  CoverageReport,
+  EadvRow,
+  RoutRow,
+} from './models/types';
+import {
+  tryParsePredicate,
+  collectComparisons,
+  collectVariables,
+} from './predicates';
+import {
+  VariableValues,
+  evaluateCompute,
+  evaluateRuleblock,
+  findUnevaluableComputes,
+  groupTableRowsByEntity,
+  UnevaluableCompute,
+} from './evaluator';
+import { VALUE_PRESERVING_FUNCTIONS, extractBindDomains, routTableName } from './extractor';
+import { getBoundaryValues } from './generators/value-generators';
+
+/**
+ * Per-entity pins for EADV attributes (entity -> attribute -> pin)
+ */
+export type EntityAttributePins = Map<number, Record<string, AttributePin>>;
+
+/**
+ * Per-entity pins for rout_* values (entity -> table -> variable -> value)
+ */
+export type EntityRoutPins = Map<
+  number,
+  Record<string, Record<string, number | string | null>>
+>;
+
+/**
+ * Result of planning a branch-covering population
+ */
+export interface CoveragePlan {
+  /**
+   * Number of entities needed to cover every satisfiable branch
+   */
+  entityCount: number;
+  attributePins: EntityAttributePins;
+  routPins: EntityRoutPins;
+}
+
+/**
+ * One way of setting a controllable variable, with the variable values it
+ * implies and the data pins that realise it
+ */
+interface Candidate {
+  values: VariableValues;
+  attributePins: Record<string, AttributePin>;
+  routPins: Record<string, Record<string, number | string | null>>;
+}
+
+/**
+ * A variable whose value the mocker can control directly
+ */
+interface Leaf {
+  name: string;
+  candidates: Candidate[];
+}
+
+/**
+ * Combinations of leaf candidates that fire one branch
+ */
+interface BranchTarget {
+  ruleblock: string;
+  variable: string;
+  branch: number;
+  solutions: Candidate[];
+}
+
+/**
+ * Maximum leaf combinations evaluated per compute statement.
+ * Beyond this, combinations are sampled at random.
+ */
+const MAX_COMBINATIONS = 2000;
+
+/**
+ * Collect the numeric thresholds compared against each variable
+ * in a ruleblock's compute statements.
+ */
+function collectVariableThresholds(rb: ParsedRuleblock): Map<string, number[]> {
+  const thresholds = new Map<string, Set<number>>();
+
+  for (const rule of rb.rules) {
+    if (rule.ruleType !== RuleType.COMPUTE_STATEMENT) continue;
+    for (const condition of (rule as ParsedComputeStatement).conditions) {
+      const expr = condition.predicate ? tryParsePredicate(condition.predicate) : undefined;
+      if (!expr) continue;
+      for (const { variable, value } of collectComparisons(expr)) {
+        if (!thresholds.has(variable)) thresholds.set(variable, new Set());
+        thresholds.get(variable)!.add(value);
+      }
+    }
+  }
+
+  return new Map(
+    Array.from(thresholds, ([name, values]) => [name, Array.from(values).sort((a, b) => a - b)])
+  );
+}
+
+function boundaryCandidates(thresholds: number[] | undefined): number[] {
+  return Array.from(new Set((thresholds ?? []).flatMap(getBoundaryValues)));
+}
+
+/**
+ * Build the controllable leaves of a ruleblock: fetched values, counts,
+ * existence flags and bound rout_* variables.
+ */
+function buildLeaves(
+  rb: ParsedRuleblock,
+  sysdate: Date,
+  bindDomains: Map<string, Map<string, (number | string | null)[]>>
+): Map<string, Leaf> {
+  const leaves = new Map<string, Leaf>();
+  const thresholds = collectVariableThresholds(rb);
+
+  const pinAll = (attributes: string[], pin: AttributePin) =>
+    Object.fromEntries(attributes.map((att) => [att, { ...pin }]));
+
+  for (const rule of rb.rules) {
+    if (rule.ruleType === RuleType.FETCH_STATEMENT) {
+      const fetch = rule as ParsedFetchStatement;
+      const name = fetch.assignedVariable.toLowerCase();
+      const fn = fetch.functionName.toLowerCase();
+      const atts = fetch.attributeList;
+      const absent: Candidate = {
+        values: { [name]: null, [`${name}_val`]: null, [`${name}_dt`]: null },
+        attributePins: pinAll(atts, { count: 0 }),
+        routPins: {},
+      };
+
+      if (fn === 'count') {
+        const counts = boundaryCandidates(thresholds.get(name)).filter(
+          (n) => n > 0 && Number.isInteger(n)
+        );
+        leaves.set(name, {
+          name,
+          candidates: [
+            { values: { [name]: 0 }, attributePins: pinAll(atts, { count: 0 }), routPins: {} },
+            ...(counts.length ? counts : [1]).map((n) => ({
+              values: { [name]: n },
+              attributePins: { ...pinAll(atts, { count: 0 }), [atts[0]]: { count: n } },
+              routPins: {},
+            })),
+          ],
+        });
+      } else if (fn === 'exists') {
+        leaves.set(name, {
+          name,
+          candidates: [
+            { values: { [name]: 0 }, attributePins: pinAll(atts, { count: 0 }), routPins: {} },
+            {
+              values: { [name]: 1 },
+              attributePins: { [atts[0]]: { present: true } },
+              routPins: {},
+            },
+          ],
+        });
+      } else if (VALUE_PRESERVING_FUNCTIONS.has(fn) && fetch.property === 'val') {
+        const numbers = boundaryCandidates(
+          thresholds.get(name) ?? thresholds.get(`${name}_val`)
+        );
+        const present = numbers.map((v) => ({
+          values: { [name]: v, [`${name}_val`]: v, [`${name}_dt`]: sysdate },
+          attributePins: pinAll(atts, { value: v, present: true }),
+          routPins: {},
+        }));
+        if (present.length === 0) {
+          // No thresholds: only presence matters, the value is left to the generator
+          present.push({
+            values: { [name]: 1, [`${name}_val`]: 1, [`${name}_dt`]: sysdate },
+            attributePins: pinAll(atts, { present: true }),
+            routPins: {},
+          });
+        }
+        leaves.set(name, { name, candidates: [absent, ...present] });
+      } else if (fetch.property === 'dt') {
+        leaves.set(name, {
+          name,
+          candidates: [
+            absent,
+            {
+              values: { [name]: sysdate, [`${name}_val`]: sysdate, [`${name}_dt`]: sysdate },
+              attributePins: pinAll(atts, { present: true }),
+              routPins: {},
+            },
+          ],
+        });
+      }
+    } else if (rule.ruleType === RuleType.BIND_STATEMENT) {
+      const bind = rule as ParsedBindStatement;
+      const name = bind.assignedVariable.toLowerCase();
+      const table = routTableName(bind.sourceRuleblock);
+      const variable = bind.sourceVariable.toLowerCase();
+      // Values the source ruleblock can actually return, when it is in the batch
+      const domain = bindDomains.get(table)?.get(variable);
+      const values: (number | string | null)[] = domain
+        ? [...domain]
+        : [null, ...boundaryCandidates(thresholds.get(name))];
+      if (!domain && values.length === 1) values.push(0, 1);
+
+      leaves.set(name, {
+        name,
+        candidates: values.map((v) => ({
+          values: { [name]: v },
+          attributePins: {},
+          routPins: { [table]: { [variable]: v } },
+        })),
+      });
+    }
+  }
+
+  return leaves;
+}
+
+/**
+ * Find the leaves a compute statement depends on, following references
+ * through other compute statements.
+ */
+function relevantLeaves(
+  variable: string,
+  computes: Map<string, ParsedComputeStatement>,
+  leaves: Map<string, Leaf>,
+  seen: Set<string> = new Set()
+): Set<string> {
+  const result = new Set<string>();
+  if (seen.has(variable)) return result;
+  seen.add(variable);
+
+  const compute = computes.get(variable);
+  if (!compute) return result;
+
+  for (const condition of compute.conditions) {
+    const texts = [condition.predicate, condition.returnValue].filter(
+      (t): t is string => !!t
+    );
+    for (const text of texts) {
+      const expr = tryParsePredicate(text);
+      if (!expr) continue;
+      for (const name of collectVariables(expr)) {
+        const base = name.replace(/_(val|dt)$/, '');
+        if (leaves.has(name)) result.add(name);
+        else if (leaves.has(base)) result.add(base);
+        else relevantLeaves(name, computes, leaves, seen).forEach((l) => result.add(l));
+      }
+    }
+  }
+
+  return result;
+}
+
+function mergePin(a: AttributePin | undefined, b: AttributePin): AttributePin | undefined {
+  if (!a) return { ...b };
+  if (a.count !== undefined && b.count !== undefined && a.count !== b.count) return undefined;
+  if (a.value !== undefined && b.value !== undefined && a.value !== b.value) return undefined;
+
+  const merged: AttributePin = { ...a, ...b };
+  merged.present = a.present || b.present || undefined;
+  if (merged.count === 0 && (merged.present || merged.value !== undefined)) return undefined;
+  return merged;
+}
+
+/**
+ * Merge two candidates, returning undefined if their pins conflict.
+ */
+function mergeCandidates(a: Candidate, b: Candidate): Candidate | undefined {
+  const attributePins = { ...a.attributePins };
+  for (const [att, pin] of Object.entries(b.attributePins)) {
+    const merged = mergePin(attributePins[att], pin);
+    if (!merged) return undefined;
+    attributePins[att] = merged;
+  }
+
+  const routPins: Candidate['routPins'] = {};
+  for (const [table, vars] of Object.entries(a.routPins)) {
+    routPins[table] = { ...vars };
+  }
+  for (const [table, vars] of Object.entries(b.routPins)) {
+    routPins[table] = routPins[table] ?? {};
+    for (const [name, value] of Object.entries(vars)) {
+      if (name in routPins[table] && routPins[table][name] !== value) return undefined;
+      routPins[table][name] = value;
+    }
+  }
+
+  return { values: { ...a.values, ...b.values }, attributePins, routPins };
+}
+
+/**
+ * Enumerate (or sample) combinations of leaf candidates.
+ */
+function* leafCombinations(
+  leaves: Leaf[],
+  random: () => number
+): Generator<Candidate> {
+  const empty: Candidate = { values: {}, attributePins: {}, routPins: {} };
+  const total = leaves.reduce((n, leaf) => n * leaf.candidates.length, 1);
+
+  if (total <= MAX_COMBINATIONS) {
+    for (let i = 0; i < total; i++) {
+      let combo: Candidate | undefined = empty;
+      let rest = i;
+      for (const leaf of leaves) {
+        const pick = leaf.candidates[rest % leaf.candidates.length];
+        rest = Math.floor(rest / leaf.candidates.length);
+        combo = combo && mergeCandidates(combo, pick);
+      }
+      if (combo) yield combo;
+    }
+    return;
+  }
+
+  for (let i = 0; i < MAX_COMBINATIONS; i++) {
+    let combo: Candidate | undefined = empty;
+    for (const leaf of leaves) {
+      const pick = leaf.candidates[Math.floor(random() * leaf.candidates.length)];
+      combo = combo && mergeCandidates(combo, pick);
+    }
+    if (combo) yield combo;
+  }
+}
+
+/**
+ * Find leaf combinations that fire each branch of each compute statement.
+ */
+function findBranchTargets(
+  rb: ParsedRuleblock,
+  sysdate: Date,
+  random: () => number,
+  bindDomains: Map<string, Map<string, (number | string | null)[]>>
+): BranchTarget[] {
+  const leaves = buildLeaves(rb, sysdate, bindDomains);
+  const unevaluable = findUnevaluableComputes(rb);
+  const computes = new Map<string, ParsedComputeStatement>();
+  const ordered: ParsedComputeStatement[] = [];
+  for (const rule of rb.rules) {
+    if (rule.ruleType === RuleType.COMPUTE_STATEMENT) {
+      const compute = rule as ParsedComputeStatement;
+      computes.set(compute.assignedVariable.toLowerCase(), compute);
+      ordered.push(compute);
+    }
+  }
+
+  const targets: BranchTarget[] = [];
+
+  for (const compute of ordered) {
+    const variable = compute.assignedVariable.toLowerCase();
+    const branchTargets: BranchTarget[] = compute.conditions.map((_, branch) => ({
+      ruleblock: rb.name,
+      variable,
+      branch,
+      solutions: [],
+    }));
+
+    const used = Array.from(relevantLeaves(variable, computes, leaves)).map(
+      (name) => leaves.get(name)!
+    );
+
+    for (const combo of leafCombinations(used, random)) {
+      // Evaluate computes in order so intermediate variables resolve
+      const values: VariableValues = { ...combo.values };
+      for (const c of ordered) {
+        const result = evaluateCompute(c, values, sysdate);
+        const unknown = unevaluable.get(c.assignedVariable.toLowerCase());
+        values[c.assignedVariable.toLowerCase()] = unknown ? null : result.value;
+        if (c === compute) {
+          // Branches that can't be evaluated can't be targeted either
+          if (result.branchIndex >= 0 && result.branchIndex < (unknown?.fromBranch ?? Infinity)) {
+            branchTargets[result.branchIndex].solutions.push(combo);
+          }
+          break;
+        }
+      }
+    }
+
+    targets.push(...branchTargets);
+  }
+
+  return targets;
+}
+
+/**
+ * Plan pins so every satisfiable branch fires for at least
+ * `minEntitiesPerBranch` entities.
+ *
+ * Entities are filled greedily: each new entity takes a solution for every
+ * still-uncovered branch whose pins don't conflict with what it already has.
+ *
+ * @param ruleblocks - Parsed ruleblocks
+ * @param entityIdStart - First entity ID
+ * @param minEntitiesPerBranch - Entities required per branch
+ * @param sysdate - Value used for `sysdate`
+ * @param random - Seeded random function
+ * @returns Entity count and per-entity pins
+ */
+export function planBranchCoverage(
+  ruleblocks: ParsedRuleblock[],
+  entityIdStart: number,
+  minEntitiesPerBranch: number,
+  sysdate: Date,
+  random: () => number
+): CoveragePlan {
+  const bindDomains = extractBindDomains(ruleblocks);
+  const targets = ruleblocks
+    .flatMap((rb) => findBranchTargets(rb, sysdate, random, bindDomains))
+    .filter((t) => t.solutions.length > 0);
+
+  const remaining = targets.map(() => minEntitiesPerBranch);
+  const attributePins: EntityAttributePins = new Map();
+  const routPins: EntityRoutPins = new Map();
+  let entityCount = 0;
+
+  while (remaining.some((n) => n > 0)) {
+    let plan: Candidate = { values: {}, attributePins: {}, routPins: {} };
+
+    targets.forEach((target, i) => {
+      if (remaining[i] <= 0) return;
+      const offset = Math.floor(random() * target.solutions.length);
+      for (let k = 0; k < target.solutions.length; k++) {
+        const merged = mergeCandidates(
+          plan,
+          target.solutions[(offset + k) % target.solutions.length]
+        );
+        if (merged) {
+          plan = merged;
+          remaining[i]--;
+          return;
+        }
+      }
+    });
+
+    const eid = entityIdStart + entityCount;
+    attributePins.set(eid, plan.attributePins);
+    routPins.set(eid, plan.routPins);
+    entityCount++;
+  }
+
+  return { entityCount, attributePins, routPins };
+}
+
+/**
+ * Measure which compute statement branches fire for each entity.
+ * Branches that depend on functions the evaluator doesn't implement are
+ * reported as unevaluable rather than unsatisfied.
+ *
+ * @param ruleblocks - Parsed ruleblocks
+ * @param tables - Generated rows of each EADV-shaped table
+ * @param routTables - Generated rout_* tables
+ * @param entities - Entity IDs
+ * @param dateFormat - Format of the generated dates
+ * @param sysdate - Value used for `sysdate`
+ * @param minEntitiesPerBranch - Entities required per branch
+ * @param derivedRoutTables - rout_* tables derived by chaining, whose
+ *   unevaluable variables are unknown to the ruleblocks binding them
+ * @returns Coverage report
+ */
+export function measureBranchCoverage(
+  ruleblocks: ParsedRuleblock[],
+  tables: Record<string, EadvRow[]>,
+  routTables: Record<string, RoutRow[]>,
+  entities: number[],
+  dateFormat: 'iso' | 'oracle' | 'mssql',
+  sysdate: Date,
+  minEntitiesPerBranch: number,
+  derivedRoutTables: string[] = []
+): CoverageReport {
+  const rowsByEntity = groupTableRowsByEntity(tables);
+  const routByEntity = new Map<number, Record<string, RoutRow | undefined>>();
+  for (const [table, rows] of Object.entries(routTables)) {
+    for (const row of rows) {
+      if (!routByEntity.has(row.eid)) routByEntity.set(row.eid, {});
+      routByEntity.get(row.eid)![table] = row;
+    }
+  }
+
+  const report: CoverageReport = {
+    minEntitiesPerBranch,
+    ruleblocks: {},
+    unsatisfied: [],
+    unevaluable: [],
+  };
+  const upstream: Record<string, Map<string, UnevaluableCompute>> = {};
+
+  for (const rb of ruleblocks) {
+    const unevaluable = findUnevaluableComputes(rb, upstream);
+    if (derivedRoutTables.includes(routTableName(rb.name))) {
+      upstream[routTableName(rb.name)] = unevaluable;
+    }
+
+    const variables: Record<string, BranchCoverage[]> = {};
+    for (const rule of rb.rules) {
+      if (rule.ruleType !== RuleType.COMPUTE_STATEMENT) continue;
+      const compute = rule as ParsedComputeStatement;
+      const name = compute.assignedVariable.toLowerCase();
+      const unknown = unevaluable.get(name);
+      variables[name] = compute.conditions.map((condition, index) => ({
+        index,
+        predicate: condition.predicate ?? null,
+        returnValue: condition.returnValue,
+        entities: [],
+        ...(unknown && index >= unknown.fromBranch ? { unevaluable: true } : {}),
+      }));
+    }
+
+    for (const eid of entities) {
+      const tableRows = rowsByEntity.get(eid) ?? {};
+      const { branches } = evaluateRuleblock(rb, tableRows.eadv ?? [], {
+        dateFormat,
+        sysdate,
+        routRows: routByEntity.get(eid),
+        tableRows,
+        unevaluable,
+      });
+      for (const [variable, index] of Object.entries(branches)) {
+        if (index >= 0) variables[variable][index].entities.push(eid);
+      }
+    }
+
+    for (const [variable, branches] of Object.entries(variables)) {
+      for (const branch of branches) {
+        if (branch.unevaluable) {
+          report.unevaluable.push({
+            ruleblock: rb.name,
+            variable,
+            branch: branch.index,
+            predicate: branch.predicate,
+            functions: unevaluable.get(variable)!.functions,
+          });
+        } else if (branch.entities.length < minEntitiesPerBranch) {
+          report.unsatisfied.push({
+            ruleblock: rb.name,
+            variable,
+            branch: branch.index,
+            predicate: branch.predicate,
+          });
+        }
+      }
+    }
+
+    report.ruleblocks[rb.name] = variables;
+  }
+
+  return report;
+}
+
+/**
+ * Look up the pinned value for an entity's rout_* variable.
+ *
+ * @param pins - Per-entity rout pins
+ * @param eid - Entity ID
+ * @param table - rout_* table name
+ * @param variable - Variable name
+ * @returns The pinned value, or undefined if not pinned
+ */
+export function getRoutPin(
+  pins: EntityRoutPins | undefined,
+  eid: number,
+  table: string,
+  variable: string
+): number | string | null | undefined {
+  const tablePins = pins?.get(eid)?.[table];
+  return tablePins && variable in tablePins ? tablePins[variable] : undefined;
+}
@@ -0,0 +1,347 @@
+/**
+ * Bulk-Load Writers
+ *
+ * Serialise EADV-shaped and rout_* tables into bulk-load formats:
+ * CSV/TSV, JSON Lines, PostgreSQL COPY, Oracle SQL*Loader and SQL Server
+ * bcp. The row writers are generators yielding one line at a time, so
+ * large tables can be streamed to disk.
+ *
+ * Date strings are written exactly as generated, in the mocker's
+ * dateFormat. Loader control and format files declare that format.
+ */
+
+import {
+  BulkFormat,
+  BulkWriterOptions,
+  EadvRow,
+  MockDataChunk,
+  MockDataResult,
+  RoutRow,
+  TableColumn,
+} from '../models/types';
+import { inferColumns } from './sql-emitter';
+
+type BulkRow = EadvRow | RoutRow;
+type DateFormat = 'iso' | 'oracle' | 'mssql';
+
+/**
+ * SQL*Loader date masks for each dateFormat
+ */
+const SQLLDR_DATE_MASKS: Record<DateFormat, string> = {
+  iso: 'YYYY-MM-DD',
+  oracle: 'DD-MON-YYYY',
+  mssql: 'YYYY-MM-DD HH24:MI:SS',
+};
+
+function valueOf(row: BulkRow, column: TableColumn): number | string | null {
+  return (row as Record<string, number | string | null>)[column.name] ?? null;
+}
+
+/**
+ * Pick the rows of one table out of a stream of chunks, so a streamed
+ * table can be passed straight to a row writer.
+ *
+ * @param chunks - Chunks from streamMockData / streamMockDataFromParsed
+ * @param table - Table to keep
+ * @returns Generator of the table's rows
+ */
+export function* tableRows(
+  chunks: Iterable<MockDataChunk>,
+  table: string
+): Generator<BulkRow> {
+  for (const chunk of chunks) {
+    if (chunk.table === table) yield* chunk.rows;
+  }
+}
+
+/**
+ * Quote a delimited-text field if it contains the delimiter, a quote or
+ * a line break, or would otherwise read as the null token (RFC 4180).
+ */
+function delimitedField(
+  value: number | string | null,
+  delimiter: string,
+  nullToken: string
+): string {
+  if (value === null) return nullToken;
+  const text = String(value);
+  if (
+    text.includes(delimiter) ||
+    text.includes('"') ||
+    text.includes('\n') ||
+    text.includes('\r') ||
+    text === nullToken
+  ) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Write rows as RFC 4180 delimited text (CSV or TSV).
+ *
+ * Lines end with CRLF. Fields are quoted only when needed; an empty
+ * string is quoted when the null token is empty, so the two stay distinct.
+ *
+ * @param rows - Table rows
+ * @param columns - Columns to write, in order
+ * @param delimiter - Field delimiter (',' or '\t')
+ * @param options - Writer options
+ * @returns Generator of lines
+ */
+export function* writeDelimited(
+  rows: Iterable<BulkRow>,
+  columns: TableColumn[],
+  delimiter: string = ',',
+  options: BulkWriterOptions = {}
+): Generator<string> {
+  const nullToken = options.nullToken ?? '';
+
+  if (options.header ?? true) {
+    yield columns
+      .map((column) => delimitedField(column.name, delimiter, nullToken))
+      .join(delimiter) + '\r\n';
+  }
+  for (const row of rows) {
+    yield columns
+      .map((column) => delimitedField(valueOf(row, column), delimiter, nullToken))
+      .join(delimiter) + '\r\n';
+  }
+}
+
+/**
+ * Write rows as JSON Lines.
+ *
+ * @param rows - Table rows
+ * @returns Generator of lines
+ */
+export function* writeJsonLines(rows: Iterable<BulkRow>): Generator<string> {
+  for (const row of rows) {
+    yield JSON.stringify(row) + '\n';
+  }
+}
+
+/**
+ * Escape a value for PostgreSQL COPY text format.
+ */
+function copyField(value: number | string | null): string {
+  if (value === null) return '\\N';
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/\t/g, '\\t')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+}
+
+/**
+ * Write a PostgreSQL `COPY ... FROM STDIN` stream in text format,
+ * runnable with psql.
+ *
+ * @param table - Table name
+ * @param rows - Table rows
+ * @param columns - Columns to write, in order
+ * @returns Generator of lines
+ */
+export function* writePgCopy(
+  table: string,
+  rows: Iterable<BulkRow>,
+  columns: TableColumn[]
+): Generator<string> {
+  yield `COPY ${table} (${columns.map((c) => c.name).join(', ')}) FROM STDIN;\n`;
+  for (const row of rows) {
+    yield columns.map((column) => copyField(valueOf(row, column))).join('\t') + '\n';
+  }
+  yield '\\.\n';
+}
+
+/**
+ * Write an Oracle SQL*Loader data file: comma-separated, fields
+ * optionally enclosed in double quotes, nulls as empty fields, no header.
+ *
+ * @param rows - Table rows
+ * @param columns - Columns to write, in order
+ * @returns Generator of lines
+ */
+export function* writeSqlLoaderData(
+  rows: Iterable<BulkRow>,
+  columns: TableColumn[]
+): Generator<string> {
+  for (const row of rows) {
+    yield columns
+      .map((column) => {
+        const value = valueOf(row, column);
+        if (value === null) return '';
+        const text = String(value);
+        return /[",\r\n]/.test(text) || text === '' ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\n';
+  }
+}
+
+/**
+ * Build an Oracle SQL*Loader control file for a data file written by
+ * writeSqlLoaderData.
+ *
+ * @param table - Table name
+ * @param columns - Columns in the data file, in order
+ * @param dataFile - Data file name
+ * @param dateFormat - Format of the date strings in the data file
+ * @returns Control file contents
+ */
+export function sqlLoaderControlFile(
+  table: string,
+  columns: TableColumn[],
+  dataFile: string,
+  dateFormat: DateFormat = 'iso'
+): string {
+  const fields = columns.map((column) => {
+    switch (column.type) {
+      case 'integer':
+        return `  ${column.name} INTEGER EXTERNAL`;
+      case 'number':
+        return `  ${column.name} DECIMAL EXTERNAL`;
+      case 'date':
+        return `  ${column.name} DATE "${SQLLDR_DATE_MASKS[dateFormat]}"`;
+      case 'string':
+      default:
+        return `  ${column.name} CHAR(4000)`;
+    }
+  });
+
+  return [
+    'LOAD DATA',
+    `INFILE '${dataFile}'`,
+    'APPEND',
+    `INTO TABLE ${table}`,
+    `FIELDS TERMINATED BY ',' OPTIONALLY ENCLOSED BY '"'`,
+    'TRAILING NULLCOLS',
+    '(',
+    fields.join(',\n'),
+    ')',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Write a SQL Server bcp character-mode data file: tab-separated,
+ * CRLF line endings, nulls as empty fields (load with `bcp -k`).
+ * bcp has no escaping, so tabs and line breaks inside values are
+ * replaced with spaces.
+ *
+ * @param rows - Table rows
+ * @param columns - Columns to write, in order
+ * @returns Generator of lines
+ */
+export function* writeBcpData(
+  rows: Iterable<BulkRow>,
+  columns: TableColumn[]
+): Generator<string> {
+  for (const row of rows) {
+    yield columns
+      .map((column) => {
+        const value = valueOf(row, column);
+        return value === null ? '' : String(value).replace(/[\t\r\n]/g, ' ');
+      })
+      .join('\t') + '\r\n';
+  }
+}
+
+/**
+ * Build a SQL Server bcp non-XML format file for a data file written by
+ * writeBcpData.
+ *
+ * @param columns - Columns in the data file, in order
+ * @returns Format file contents
+ */
+export function bcpFormatFile(columns: TableColumn[]): string {
+  const lengths: Record<TableColumn['type'], number> = {
+    integer: 12,
+    number: 30,
+    date: 24,
+    string: 4000,
+  };
+
+  const lines = columns.map((column, i) => {
+    const terminator = i === columns.length - 1 ? '"\\r\\n"' : '"\\t"';
+    const collation = column.type === 'string' ? 'SQL_Latin1_General_CP1_CI_AS' : '""';
+    return [
+      i + 1,
+      'SQLCHAR',
+      0,
+      lengths[column.type],
+      terminator,
+      i + 1,
+      column.name,
+      collation,
+    ].join('\t');
+  });
+
+  return ['14.0', String(columns.length), ...lines, ''].join('\n');
+}
+
+/**
+ * Serialise every EADV-shaped and rout_* table of a result into
+ * bulk-load files.
+ *
+ * File names per table:
+ * - csv / tsv / jsonl: `<table>.csv`, `<table>.tsv`, `<table>.jsonl`
+ * - pgcopy: `<table>.copy`
+ * - sqlldr: `<table>.dat` and `<table>.ctl`
+ * - bcp: `<table>.dat` and `<table>.fmt`
+ *
+ * @param result - Mock data result
+ * @param format - Bulk-load format
+ * @param options - Writer options
+ * @returns Map of file name -> contents
+ *
+ * @example
+ * ```typescript
+ * const files = writeBulkFiles(result, 'pgcopy');
+ * for (const [name, contents] of Object.entries(files)) {
+ *   fs.writeFileSync(name, contents);
+ * }
+ * ```
+ */
+export function writeBulkFiles(
+  result: MockDataResult,
+  format: BulkFormat,
+  options: BulkWriterOptions = {}
+): Record<string, string> {
+  const dateFormat = options.dateFormat ?? 'iso';
+  const tables: Record<string, BulkRow[]> = { ...result.tables, ...result.routTables };
+  const files: Record<string, string> = {};
+  const join = (lines: Iterable<string>) => Array.from(lines).join('');
+
+  for (const [table, rows] of Object.entries(tables)) {
+    const columns =
+      rows.length > 0
+        ? inferColumns(rows, dateFormat)
+        : (result.metadata.tables[table]?.columns ?? []);
+    if (columns.length === 0) continue;
+
+    switch (format) {
+      case 'csv':
+        files[`${table}.csv`] = join(writeDelimited(rows, columns, ',', options));
+        break;
+      case 'tsv':
+        files[`${table}.tsv`] = join(writeDelimited(rows, columns, '\t', options));
+        break;
+      case 'jsonl':
+        files[`${table}.jsonl`] = join(writeJsonLines(rows));
+        break;
+      case 'pgcopy':
+        files[`${table}.copy`] = join(writePgCopy(table, rows, columns));
+        break;
+      case 'sqlldr':
+        files[`${table}.dat`] = join(writeSqlLoaderData(rows, columns));
+        files[`${table}.ctl`] = sqlLoaderControlFile(table, columns, `${table}.dat`, dateFormat);
+        break;
+      case 'bcp':
+        files[`${table}.dat`] = join(writeBcpData(rows, columns));
+        files[`${table}.fmt`] = bcpFormatFile(columns);
+        break;
+    }
+  }
+
+  return files;
+}
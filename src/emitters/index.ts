@@ -0,0 +1,8 @@
+/**
+ * Emitters Index
+ *
+ * Re-exports all output emitters.
+ */
+
+export * from './sql-emitter';
+export * from './bulk-writers';
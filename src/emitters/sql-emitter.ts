@@ -0,0 +1,348 @@
+/**
+ * SQL Emitter
+ *
+ * Turns a MockDataResult into a runnable seed script: CREATE TABLE
+ * statements with column types inferred from the values, followed by
+ * batched multi-row INSERTs with dialect-specific date literals.
+ */
+
+import {
+  EadvRow,
+  MockDataResult,
+  RoutRow,
+  SqlDialect,
+  SqlEmitterOptions,
+  TableColumn,
+} from '../models/types';
+import { parseFormattedDate } from '../utils/date-utils';
+
+type DateFormat = 'iso' | 'oracle' | 'mssql';
+type SqlRow = EadvRow | RoutRow;
+
+/**
+ * Maximum rows per INSERT the dialect accepts
+ */
+const MAX_BATCH_SIZE: Record<SqlDialect, number> = {
+  oracle: Infinity,
+  mssql: 1000,
+  postgres: Infinity,
+  sqlite: 500,
+};
+
+/**
+ * Column types per dialect. Dates carry a time of day only for 'mssql'
+ * formatted rows, so PostgreSQL gets TIMESTAMP in that case alone.
+ */
+function columnTypeName(
+  type: TableColumn['type'],
+  dialect: SqlDialect,
+  dateFormat: DateFormat
+): string {
+  switch (type) {
+    case 'integer':
+      return {
+        oracle: 'NUMBER(10)',
+        mssql: 'INT',
+        postgres: 'INTEGER',
+        sqlite: 'INTEGER',
+      }[dialect];
+    case 'number':
+      return {
+        oracle: 'NUMBER',
+        mssql: 'FLOAT',
+        postgres: 'DOUBLE PRECISION',
+        sqlite: 'REAL',
+      }[dialect];
+    case 'date':
+      return {
+        oracle: 'DATE',
+        mssql: 'DATETIME',
+        postgres: dateFormat === 'mssql' ? 'TIMESTAMP' : 'DATE',
+        sqlite: 'TEXT',
+      }[dialect];
+    case 'string':
+    default:
+      return {
+        oracle: 'VARCHAR2(4000)',
+        mssql: 'VARCHAR(4000)',
+        postgres: 'TEXT',
+        sqlite: 'TEXT',
+      }[dialect];
+  }
+}
+
+/**
+ * Convert a formatted date string to 'YYYY-MM-DD' (or
+ * 'YYYY-MM-DD HH:MM:SS' for 'mssql' dates).
+ *
+ * @param value - Date string in the given format
+ * @param dateFormat - Format of the string
+ * @returns Canonical date string, or undefined if the value isn't a date
+ */
+export function canonicalSqlDate(value: string, dateFormat: DateFormat): string | undefined {
+  const shapes: Record<DateFormat, RegExp> = {
+    iso: /^\d{4}-\d{2}-\d{2}$/,
+    oracle: /^\d{2}-[A-Z]{3}-\d{4}$/,
+    mssql: /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/,
+  };
+  if (!shapes[dateFormat].test(value)) return undefined;
+
+  const date = parseFormattedDate(value, dateFormat);
+  if (Number.isNaN(date.getTime())) return undefined;
+
+  // ISO dates are UTC, the other formats local time
+  const pad = (n: number) => String(n).padStart(2, '0');
+  if (dateFormat === 'iso') {
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  }
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (dateFormat === 'oracle') return day;
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Infer the type of a column from its values.
+ *
+ * Numbers give 'integer' or 'number', strings that are all dates in
+ * the given format give 'date', anything else (or a mix) gives 'string'.
+ * Columns holding only nulls are numeric, like most Picorules variables.
+ *
+ * @param values - Column values
+ * @param dateFormat - Format of date strings
+ * @returns Inferred column type
+ */
+export function inferColumnType(
+  values: (number | string | null)[],
+  dateFormat: DateFormat
+): TableColumn['type'] {
+  const present = values.filter((v): v is number | string => v !== null);
+
+  if (present.every((v) => typeof v === 'number')) {
+    return present.every((v) => Number.isInteger(v)) ? 'integer' : 'number';
+  }
+  if (present.every((v) => typeof v === 'string' && canonicalSqlDate(v, dateFormat))) {
+    return 'date';
+  }
+  return 'string';
+}
+
+/**
+ * Infer the columns of a table from its rows, in first-seen order.
+ *
+ * @param rows - Table rows
+ * @param dateFormat - Format of date strings
+ * @returns Columns with inferred types
+ */
+export function inferColumns(rows: SqlRow[], dateFormat: DateFormat): TableColumn[] {
+  const names: string[] = [];
+  for (const row of rows) {
+    for (const name of Object.keys(row)) {
+      if (!names.includes(name)) names.push(name);
+    }
+  }
+
+  return names.map((name) => ({
+    name,
+    type: inferColumnType(
+      rows.map((row) => (row as Record<string, number | string | null>)[name] ?? null),
+      dateFormat
+    ),
+  }));
+}
+
+/**
+ * Quote a string literal, doubling embedded quotes.
+ */
+function quoteString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Render a date as a dialect-specific literal.
+ */
+function dateLiteral(canonical: string, dialect: SqlDialect): string {
+  const withTime = canonical.length > 10;
+  switch (dialect) {
+    case 'oracle':
+      return `TO_DATE('${canonical}', '${withTime ? 'YYYY-MM-DD HH24:MI:SS' : 'YYYY-MM-DD'}')`;
+    case 'mssql':
+      // Style 23 is yyyy-mm-dd, style 120 is yyyy-mm-dd hh:mi:ss
+      return `CONVERT(DATETIME, '${canonical}', ${withTime ? 120 : 23})`;
+    case 'postgres':
+      return `${withTime ? 'TIMESTAMP' : 'DATE'} '${canonical}'`;
+    case 'sqlite':
+    default:
+      return `'${canonical}'`;
+  }
+}
+
+/**
+ * Render a value as a SQL literal for a column.
+ *
+ * @param value - Value to render
+ * @param column - Column the value goes into
+ * @param dialect - Target dialect
+ * @param dateFormat - Format of date strings
+ * @returns SQL literal
+ */
+export function sqlLiteral(
+  value: number | string | null | undefined,
+  column: TableColumn,
+  dialect: SqlDialect,
+  dateFormat: DateFormat
+): string {
+  if (value === null || value === undefined) return 'NULL';
+
+  if (column.type === 'date') {
+    const canonical = canonicalSqlDate(String(value), dateFormat);
+    return canonical ? dateLiteral(canonical, dialect) : 'NULL';
+  }
+  if (typeof value === 'number' && column.type !== 'string') {
+    return Number.isFinite(value) ? String(value) : 'NULL';
+  }
+  return quoteString(String(value));
+}
+
+/**
+ * Emit a CREATE TABLE statement (optionally preceded by a DROP).
+ *
+ * @param name - Table name
+ * @param columns - Table columns
+ * @param dialect - Target dialect
+ * @param dateFormat - Format of date strings
+ * @param dropTable - Drop the table first if it exists
+ * @returns SQL statements
+ */
+export function emitCreateTable(
+  name: string,
+  columns: TableColumn[],
+  dialect: SqlDialect,
+  dateFormat: DateFormat = 'iso',
+  dropTable: boolean = false
+): string {
+  const lines: string[] = [];
+
+  if (dropTable) {
+    if (dialect === 'oracle') {
+      // Oracle has no DROP TABLE IF EXISTS; ignore ORA-00942 (no such table)
+      lines.push(
+        `BEGIN EXECUTE IMMEDIATE 'DROP TABLE ${name}'; ` +
+          'EXCEPTION WHEN OTHERS THEN IF SQLCODE != -942 THEN RAISE; END IF; END;',
+        '/'
+      );
+    } else {
+      lines.push(`DROP TABLE IF EXISTS ${name};`);
+    }
+  }
+
+  const definitions = columns.map(
+    (column) => `  ${column.name} ${columnTypeName(column.type, dialect, dateFormat)}`
+  );
+  lines.push(`CREATE TABLE ${name} (`, definitions.join(',\n'), ');');
+
+  return lines.join('\n');
+}
+
+/**
+ * Emit batched multi-row INSERT statements for a table.
+ *
+ * Oracle uses INSERT ALL ... SELECT 1 FROM DUAL; the other dialects use
+ * a multi-row VALUES list.
+ *
+ * @param name - Table name
+ * @param columns - Table columns
+ * @param rows - Table rows
+ * @param dialect - Target dialect
+ * @param dateFormat - Format of date strings
+ * @param batchSize - Rows per statement
+ * @returns SQL statements (empty string if there are no rows)
+ */
+export function emitInserts(
+  name: string,
+  columns: TableColumn[],
+  rows: SqlRow[],
+  dialect: SqlDialect,
+  dateFormat: DateFormat = 'iso',
+  batchSize: number = 100
+): string {
+  const size = Math.max(1, Math.min(batchSize, MAX_BATCH_SIZE[dialect]));
+  const columnList = columns.map((column) => column.name).join(', ');
+  const statements: string[] = [];
+
+  const tuple = (row: SqlRow) =>
+    '(' +
+    columns
+      .map((column) =>
+        sqlLiteral(
+          (row as Record<string, number | string | null>)[column.name],
+          column,
+          dialect,
+          dateFormat
+        )
+      )
+      .join(', ') +
+    ')';
+
+  for (let i = 0; i < rows.length; i += size) {
+    const batch = rows.slice(i, i + size);
+
+    if (dialect === 'oracle') {
+      statements.push(
+        [
+          'INSERT ALL',
+          ...batch.map((row) => `  INTO ${name} (${columnList}) VALUES ${tuple(row)}`),
+          'SELECT 1 FROM DUAL;',
+        ].join('\n')
+      );
+    } else {
+      statements.push(
+        `INSERT INTO ${name} (${columnList}) VALUES\n` +
+          batch.map((row) => `  ${tuple(row)}`).join(',\n') +
+          ';'
+      );
+    }
+  }
+
+  return statements.join('\n');
+}
+
+/**
+ * Emit a seed script for a mock data result: every EADV-shaped table
+ * and every rout_* table, each created and then filled.
+ *
+ * @param result - Mock data result
+ * @param options - Emitter options
+ * @returns SQL script
+ *
+ * @example
+ * ```typescript
+ * const result = generateMockData({ ruleblocks, options: { dateFormat: 'oracle' } });
+ * const sql = emitSqlScript(result, { dialect: 'oracle', dateFormat: 'oracle' });
+ * ```
+ */
+export function emitSqlScript(result: MockDataResult, options: SqlEmitterOptions): string {
+  const dateFormat = options.dateFormat ?? 'iso';
+  const batchSize = options.batchSize ?? 100;
+  const dropTables = options.dropTables ?? false;
+
+  const tables: Record<string, SqlRow[]> = { ...result.tables, ...result.routTables };
+
+  const sections: string[] = [];
+  for (const [name, rows] of Object.entries(tables)) {
+    // Empty EADV-shaped tables still get their schema's columns
+    const columns =
+      rows.length > 0
+        ? inferColumns(rows, dateFormat)
+        : (result.metadata.tables[name]?.columns ?? []);
+    if (columns.length === 0) continue;
+
+    const statements = [
+      `-- ${name}: ${rows.length} rows`,
+      emitCreateTable(name, columns, options.dialect, dateFormat, dropTables),
+      emitInserts(name, columns, rows, options.dialect, dateFormat, batchSize),
+    ];
+    sections.push(statements.filter(Boolean).join('\n'));
+  }
+
+  return sections.join('\n\n') + '\n';
+}
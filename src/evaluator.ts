@@ -0,0 +1,477 @@
+/**
+ * Ruleblock Evaluator
+ *
+ * Evaluates parsed ruleblocks over generated EADV rows for a single entity,
+ * mirroring what the compiled SQL would produce. Used to measure which
+ * compute statement branches the generated data actually exercises.
+ */
+
+import {
+  ParsedRuleblock,
+  ParsedFetchStatement,
+  ParsedBindStatement,
+  ParsedComputeStatement,
+  RuleType,
+} from 'picorules-compiler-js-core';
+import { EadvRow, RoutRow } from './models/types';
+import { matchesAttributePattern, routTableName } from './extractor';
+import { parseFormattedDate } from './utils/date-utils';
+import {
+  ExpressionValue,
+  Expression,
+  tryParsePredicate,
+  evaluateExpression,
+  evaluatePredicate,
+  collectUnsupportedFunctions,
+  collectVariables,
+} from './predicates';
+
+/**
+ * Variable values produced by evaluating a ruleblock
+ */
+export type VariableValues = Record<string, ExpressionValue>;
+
+/**
+ * Context shared by all rules while evaluating a ruleblock
+ */
+export interface EvaluationContext {
+  /**
+   * Format of the `dt` strings in the EADV rows
+   */
+  dateFormat: 'iso' | 'oracle' | 'mssql';
+
+  /**
+   * Value used for `sysdate`
+   */
+  sysdate: Date;
+
+  /**
+   * rout_* rows for this entity, keyed by table name
+   */
+  routRows?: Record<string, RoutRow | undefined>;
+
+  /**
+   * Rows for this entity from each EADV-shaped table, keyed by table name.
+   * When given, fetches from tables not listed here read no rows;
+   * otherwise every fetch reads the `rows` argument.
+   */
+  tableRows?: Record<string, EadvRow[]>;
+
+  /**
+   * Compute statements that can't be evaluated (see
+   * findUnevaluableComputes). Their variables read null, and branches
+   * from `fromBranch` on are reported as not fired.
+   */
+  unevaluable?: Map<string, UnevaluableCompute>;
+}
+
+/**
+ * A compute statement that depends on functions the evaluator doesn't
+ * implement, directly or through the variables it reads
+ */
+export interface UnevaluableCompute {
+  /**
+   * First condition whose predicate can't be evaluated. It and every
+   * later branch can't be told apart; conditions.length when only
+   * return values are affected.
+   */
+  fromBranch: number;
+
+  /**
+   * Unsupported functions the statement depends on
+   */
+  functions: string[];
+}
+
+/**
+ * Result of evaluating a compute statement
+ */
+export interface ComputeResult {
+  value: ExpressionValue;
+
+  /**
+   * Index of the condition that fired, or -1 if none did
+   */
+  branchIndex: number;
+}
+
+/**
+ * Result of evaluating a whole ruleblock for one entity
+ */
+export interface RuleblockEvaluation {
+  variables: VariableValues;
+
+  /**
+   * Fired branch index per compute statement variable
+   */
+  branches: Record<string, number>;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface DatedValue {
+  dt: Date;
+  val: ExpressionValue;
+}
+
+/**
+ * Most parsed expressions kept. The cache lives as long as the process,
+ * so the least recently used ones are dropped beyond this.
+ */
+const PARSED_CACHE_SIZE = 1000;
+
+const parsedCache = new Map<string, Expression | undefined>();
+
+/**
+ * Parse an expression once and cache the result.
+ */
+function cachedParse(text: string): Expression | undefined {
+  let parsed: Expression | undefined;
+  if (parsedCache.has(text)) {
+    parsed = parsedCache.get(text);
+    // Re-insert so the entry becomes the most recently used
+    parsedCache.delete(text);
+  } else {
+    parsed = tryParsePredicate(text);
+    if (parsedCache.size >= PARSED_CACHE_SIZE) {
+      parsedCache.delete(parsedCache.keys().next().value as string);
+    }
+  }
+  parsedCache.set(text, parsed);
+  return parsed;
+}
+
+function toNumbers(values: ExpressionValue[]): number[] {
+  return values
+    .filter((v) => v !== null && !(v instanceof Date))
+    .map(Number)
+    .filter((n) => !Number.isNaN(n));
+}
+
+function compareValues(a: ExpressionValue, b: ExpressionValue): number {
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  if (typeof x === 'number' && typeof y === 'number') return x - y;
+  return String(x).localeCompare(String(y));
+}
+
+/**
+ * Pick the row holding the extreme value, breaking ties by date.
+ */
+function extremeRow(
+  rows: DatedValue[],
+  pickMax: boolean,
+  latestDate: boolean
+): DatedValue | undefined {
+  let best: DatedValue | undefined;
+  for (const row of rows) {
+    if (row.val === null) continue;
+    if (!best) {
+      best = row;
+      continue;
+    }
+    const cmp = compareValues(row.val, best.val) * (pickMax ? 1 : -1);
+    const later = row.dt.getTime() > best.dt.getTime();
+    if (cmp > 0 || (cmp === 0 && later === latestDate)) {
+      best = row;
+    }
+  }
+  return best;
+}
+
+/**
+ * Least-squares slope of value against date, per day.
+ */
+function regressionSlope(rows: DatedValue[]): number | null {
+  const points = rows
+    .filter((r) => r.val !== null && !Number.isNaN(Number(r.val)))
+    .map((r) => [r.dt.getTime() / MS_PER_DAY, Number(r.val)]);
+  if (points.length < 2) return null;
+
+  const n = points.length;
+  const meanX = points.reduce((s, p) => s + p[0], 0) / n;
+  const meanY = points.reduce((s, p) => s + p[1], 0) / n;
+  let num = 0;
+  let den = 0;
+  for (const [x, y] of points) {
+    num += (x - meanX) * (y - meanY);
+    den += (x - meanX) * (x - meanX);
+  }
+  return den === 0 ? null : num / den;
+}
+
+/**
+ * Evaluate a fetch statement over an entity's rows.
+ *
+ * Most functions assign one variable. The `*dv` functions assign
+ * `<var>_val` and `<var>_dt` as well.
+ *
+ * @param fetch - Parsed fetch statement
+ * @param rows - EADV rows for a single entity
+ * @param context - Evaluation context
+ * @returns Variable values assigned by the fetch
+ */
+export function evaluateFetch(
+  fetch: ParsedFetchStatement,
+  rows: EadvRow[],
+  context: EvaluationContext
+): VariableValues {
+  const name = fetch.assignedVariable.toLowerCase();
+  const property = fetch.property.toLowerCase();
+
+  // Where-clauses see the row's own att, dt and val
+  const filter = fetch.predicate ? cachedParse(fetch.predicate) : undefined;
+
+  const matching: DatedValue[] = rows
+    .filter((row) => fetch.attributeList.some((p) => matchesAttributePattern(p, row.att)))
+    .map((row) => ({ row, dt: parseFormattedDate(row.dt, context.dateFormat) }))
+    .filter(
+      ({ row, dt }) =>
+        !filter ||
+        evaluatePredicate(filter, {
+          variables: { att: row.att, dt, val: row.val },
+          sysdate: context.sysdate,
+        })
+    )
+    .map(({ row, dt }) => {
+      const val: ExpressionValue = property === 'dt' ? dt : row.val;
+      return { dt, val };
+    })
+    // Most recent first, as last() expects
+    .sort((a, b) => b.dt.getTime() - a.dt.getTime());
+
+  const values = matching.map((r) => r.val);
+  const nonNull = values.filter((v) => v !== null);
+  const numbers = toNumbers(values);
+  const fn = fetch.functionName.toLowerCase();
+
+  const dv = (row: DatedValue | undefined): VariableValues => ({
+    [name]: row ? row.val : null,
+    [`${name}_val`]: row ? row.val : null,
+    [`${name}_dt`]: row ? row.dt : null,
+  });
+
+  switch (fn) {
+    case 'last':
+      return { [name]: matching[0]?.val ?? null };
+    case 'first':
+      return { [name]: matching[matching.length - 1]?.val ?? null };
+    case 'nth': {
+      const n = Number(fetch.functionParams?.[0] ?? 1);
+      return { [name]: matching[n - 1]?.val ?? null };
+    }
+    case 'min':
+    case 'max': {
+      if (nonNull.length === 0) return { [name]: null };
+      const sorted = [...nonNull].sort(compareValues);
+      return { [name]: fn === 'min' ? sorted[0] : sorted[sorted.length - 1] };
+    }
+    case 'count':
+      return { [name]: matching.length };
+    case 'exists':
+      return { [name]: matching.length > 0 ? 1 : 0 };
+    case 'distinct_count':
+      return { [name]: new Set(nonNull.map(String)).size };
+    case 'sum':
+      return { [name]: numbers.length ? numbers.reduce((s, n) => s + n, 0) : null };
+    case 'avg':
+      return {
+        [name]: numbers.length ? numbers.reduce((s, n) => s + n, 0) / numbers.length : null,
+      };
+    case 'median': {
+      if (numbers.length === 0) return { [name]: null };
+      const sorted = [...numbers].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return {
+        [name]: sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+      };
+    }
+    case 'regr_slope':
+      return { [name]: regressionSlope(matching) };
+    case 'serialize':
+      return { [name]: nonNull.length ? nonNull.map(String).join(',') : null };
+    case 'lastdv':
+      return dv(matching[0]);
+    case 'firstdv':
+      return dv(matching[matching.length - 1]);
+    case 'maxldv':
+      return dv(extremeRow(matching, true, true));
+    case 'maxfdv':
+      return dv(extremeRow(matching, true, false));
+    case 'minldv':
+      return dv(extremeRow(matching, false, true));
+    case 'minfdv':
+      return dv(extremeRow(matching, false, false));
+    default:
+      return { [name]: null };
+  }
+}
+
+/**
+ * Evaluate a compute statement against already-evaluated variables.
+ * Conditions are tried in order; the first match wins, and a condition
+ * without a predicate is the default branch.
+ *
+ * @param compute - Parsed compute statement
+ * @param variables - Variables evaluated so far
+ * @param sysdate - Value used for `sysdate`
+ * @returns The computed value and the index of the branch that fired
+ */
+export function evaluateCompute(
+  compute: ParsedComputeStatement,
+  variables: VariableValues,
+  sysdate: Date
+): ComputeResult {
+  const scope = { variables, sysdate };
+
+  for (let i = 0; i < compute.conditions.length; i++) {
+    const condition = compute.conditions[i];
+
+    if (condition.predicate) {
+      const predicate = cachedParse(condition.predicate);
+      if (!predicate || !evaluatePredicate(predicate, scope)) continue;
+    }
+
+    const returnExpr = cachedParse(condition.returnValue);
+    const value = returnExpr
+      ? evaluateExpression(returnExpr, scope)
+      : condition.returnValue;
+    return { value, branchIndex: i };
+  }
+
+  return { value: null, branchIndex: -1 };
+}
+
+/**
+ * Find the compute statements of a ruleblock whose value the evaluator
+ * can't determine: they call a function it doesn't implement, or read a
+ * variable that does. Such variables are treated as unknown (null).
+ *
+ * @param rb - Parsed ruleblock
+ * @param upstream - Unevaluable computes of bound ruleblocks whose rout_*
+ *   tables are derived, keyed by rout_* table name
+ * @returns Compute variable name -> what can't be evaluated
+ */
+export function findUnevaluableComputes(
+  rb: ParsedRuleblock,
+  upstream: Record<string, Map<string, UnevaluableCompute>> = {}
+): Map<string, UnevaluableCompute> {
+  const unknown = new Map<string, string[]>();
+  const result = new Map<string, UnevaluableCompute>();
+
+  const dependsOn = (text: string | undefined): string[] => {
+    const expr = text ? cachedParse(text) : undefined;
+    if (!expr) return [];
+    const functions = collectUnsupportedFunctions(expr);
+    for (const name of collectVariables(expr)) {
+      functions.push(...(unknown.get(name) ?? []));
+    }
+    return functions;
+  };
+
+  for (const rule of rb.rules) {
+    if (rule.ruleType === RuleType.BIND_STATEMENT) {
+      const bind = rule as ParsedBindStatement;
+      const source = upstream[routTableName(bind.sourceRuleblock)];
+      const compute = source?.get(bind.sourceVariable.toLowerCase());
+      if (compute) unknown.set(bind.assignedVariable.toLowerCase(), compute.functions);
+    } else if (rule.ruleType === RuleType.COMPUTE_STATEMENT) {
+      const compute = rule as ParsedComputeStatement;
+      const functions = new Set<string>();
+      let fromBranch = compute.conditions.length;
+      compute.conditions.forEach((condition, i) => {
+        const predicate = dependsOn(condition.predicate);
+        if (predicate.length > 0) fromBranch = Math.min(fromBranch, i);
+        [...predicate, ...dependsOn(condition.returnValue)].forEach((f) => functions.add(f));
+      });
+      if (functions.size > 0) {
+        const name = compute.assignedVariable.toLowerCase();
+        unknown.set(name, [...functions]);
+        result.set(name, { fromBranch, functions: [...functions] });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Evaluate every rule of a ruleblock for one entity.
+ *
+ * @param rb - Parsed ruleblock
+ * @param rows - EADV rows for the entity
+ * @param context - Evaluation context
+ * @returns Variable values and the branch fired by each compute statement
+ */
+export function evaluateRuleblock(
+  rb: ParsedRuleblock,
+  rows: EadvRow[],
+  context: EvaluationContext
+): RuleblockEvaluation {
+  const variables: VariableValues = {};
+  const branches: Record<string, number> = {};
+
+  for (const rule of rb.rules) {
+    if (rule.ruleType === RuleType.FETCH_STATEMENT) {
+      const fetch = rule as ParsedFetchStatement;
+      const table = (fetch.table || 'eadv').toLowerCase();
+      const source = context.tableRows ? (context.tableRows[table] ?? []) : rows;
+      Object.assign(variables, evaluateFetch(fetch, source, context));
+    } else if (rule.ruleType === RuleType.BIND_STATEMENT) {
+      const bind = rule as ParsedBindStatement;
+      const routRow = context.routRows?.[routTableName(bind.sourceRuleblock)];
+      variables[bind.assignedVariable.toLowerCase()] =
+        routRow?.[bind.sourceVariable.toLowerCase()] ?? null;
+    } else if (rule.ruleType === RuleType.COMPUTE_STATEMENT) {
+      const compute = rule as ParsedComputeStatement;
+      const { value, branchIndex } = evaluateCompute(compute, variables, context.sysdate);
+      const name = compute.assignedVariable.toLowerCase();
+      const unevaluable = context.unevaluable?.get(name);
+      variables[name] = unevaluable ? null : value;
+      branches[name] = unevaluable && branchIndex >= unevaluable.fromBranch ? -1 : branchIndex;
+    }
+  }
+
+  return { variables, branches };
+}
+
+/**
+ * Group EADV rows by entity ID.
+ *
+ * @param rows - EADV rows
+ * @returns Map of entity ID -> rows for that entity
+ */
+export function groupRowsByEntity(rows: EadvRow[]): Map<number, EadvRow[]> {
+  const grouped = new Map<number, EadvRow[]>();
+  for (const row of rows) {
+    if (!grouped.has(row.eid)) {
+      grouped.set(row.eid, []);
+    }
+    grouped.get(row.eid)!.push(row);
+  }
+  return grouped;
+}
+
+/**
+ * Group the rows of several EADV-shaped tables by entity ID. Every
+ * entity gets every table, with no rows where it has none.
+ *
+ * @param tables - Rows of each table, keyed by table name
+ * @returns Map of entity ID -> table name -> rows for that entity
+ */
+export function groupTableRowsByEntity(
+  tables: Record<string, EadvRow[]>
+): Map<number, Record<string, EadvRow[]>> {
+  const empty = () =>
+    Object.fromEntries(Object.keys(tables).map((table) => [table, [] as EadvRow[]]));
+  const grouped = new Map<number, Record<string, EadvRow[]>>();
+  for (const [table, rows] of Object.entries(tables)) {
+    for (const [eid, entityRows] of groupRowsByEntity(rows)) {
+      if (!grouped.has(eid)) {
+        grouped.set(eid, empty());
+      }
+      grouped.get(eid)![table] = entityRows;
+    }
+  }
+  return grouped;
+}
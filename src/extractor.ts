@@ -8,38 +8,85 @@ import {
   ParsedRuleblock,
   ParsedFetchStatement,
   ParsedBindStatement,
+  ParsedComputeStatement,
   RuleType,
 } from 'picorules-compiler-js-core';
-import { ExtractedDependencies } from './models/types';
+import { CodeVocabulary, ExtractedDependencies } from './models/types';
+import { tryParsePredicate, collectComparisons } from './predicates';
+
+/**
+ * Fetch functions whose result is one of the fetched values,
+ * so a threshold on the variable is a threshold on the attribute value.
+ */
+export const VALUE_PRESERVING_FUNCTIONS = new Set([
+  'last',
+  'first',
+  'min',
+  'max',
+  'avg',
+  'median',
+  'nth',
+  'lastdv',
+  'firstdv',
+  'maxldv',
+  'minldv',
+  'minfdv',
+  'maxfdv',
+]);
 
 /**
  * Extract all EADV attributes and bind dependencies from parsed ruleblocks.
  *
  * @param ruleblocks - Array of parsed ruleblocks from the compiler
- * @returns Object containing eadvAttributes set and bindDependencies map
+ * @returns Object containing eadvAttributes set, per-table attributes and bindDependencies map
  */
 export function extractDependencies(
   ruleblocks: ParsedRuleblock[]
 ): ExtractedDependencies {
   const eadvAttributes = new Set<string>();
+  const tableAttributes = new Map<string, Set<string>>();
   const bindDependencies = new Map<string, Set<string>>();
+  const fetchFunctions = new Map<string, Set<string>>();
+  const fetchFilters = new Map<string, string[]>();
 
   for (const rb of ruleblocks) {
     for (const rule of rb.rules) {
       if (rule.ruleType === RuleType.FETCH_STATEMENT) {
         const fetch = rule as ParsedFetchStatement;
 
+        // Group attributes by the table they are fetched from
+        const table = (fetch.table || 'eadv').toLowerCase();
+        if (!tableAttributes.has(table)) {
+          tableAttributes.set(table, new Set());
+        }
+
         // Add all attributes from the fetch statement
         for (const attr of fetch.attributeList) {
           // Add the attribute (including wildcards like 'lab_%')
           // Wildcard expansion would happen at a higher level if needed
           eadvAttributes.add(attr);
+          tableAttributes.get(table)!.add(attr);
+
+          // Record which functions read the attribute
+          if (!fetchFunctions.has(attr)) {
+            fetchFunctions.set(attr, new Set());
+          }
+          fetchFunctions.get(attr)!.add(fetch.functionName.toLowerCase());
+
+          // Record where-clauses like .where(dt > sysdate - 90)
+          if (fetch.predicate) {
+            const filters = fetchFilters.get(attr) ?? [];
+            if (!filters.includes(fetch.predicate)) {
+              filters.push(fetch.predicate);
+            }
+            fetchFilters.set(attr, filters);
+          }
         }
       } else if (rule.ruleType === RuleType.BIND_STATEMENT) {
         const bind = rule as ParsedBindStatement;
 
         // Build the rout_* table name from the source ruleblock
-        const tableName = `rout_${bind.sourceRuleblock}`;
+        const tableName = routTableName(bind.sourceRuleblock);
 
         // Initialize the set if this is the first variable from this table
         if (!bindDependencies.has(tableName)) {
@@ -47,14 +94,169 @@ export function extractDependencies(
         }
 
         // Add the source variable to the set
-        bindDependencies.get(tableName)!.add(bind.sourceVariable);
+        bindDependencies.get(tableName)!.add(bind.sourceVariable.toLowerCase());
       }
       // Compute statements don't introduce new EADV dependencies
       // (they only reference already-defined variables)
     }
   }
 
-  return { eadvAttributes, bindDependencies };
+  const thresholds = extractThresholds(ruleblocks);
+  const bindDomains = extractBindDomains(ruleblocks);
+
+  return {
+    eadvAttributes,
+    tableAttributes,
+    bindDependencies,
+    bindDomains,
+    thresholds,
+    fetchFunctions,
+    fetchFilters,
+  };
+}
+
+/**
+ * Map each fetched variable name in a ruleblock to the attributes it reads.
+ * Only fetches whose function preserves the value (last, min, ...) are
+ * included. Multi-value functions like lastdv also register `<var>_val`.
+ */
+function mapValueVariables(rb: ParsedRuleblock): Map<string, string[]> {
+  const variables = new Map<string, string[]>();
+
+  for (const rule of rb.rules) {
+    if (rule.ruleType !== RuleType.FETCH_STATEMENT) continue;
+    const fetch = rule as ParsedFetchStatement;
+
+    if (fetch.property !== 'val') continue;
+    if (!VALUE_PRESERVING_FUNCTIONS.has(fetch.functionName.toLowerCase())) continue;
+
+    variables.set(fetch.assignedVariable.toLowerCase(), fetch.attributeList);
+    variables.set(`${fetch.assignedVariable.toLowerCase()}_val`, fetch.attributeList);
+  }
+
+  return variables;
+}
+
+/**
+ * Extract numeric thresholds that compute statements apply to EADV values.
+ *
+ * Each condition predicate is parsed, and every `variable <op> number`
+ * comparison is traced back through the fetch statement that assigned the
+ * variable to the attribute(s) it reads. For example,
+ * `has_ckd : {egfr_last < 60 => 1}` yields `lab_bld_egfr -> [60]`.
+ *
+ * @param ruleblocks - Array of parsed ruleblocks
+ * @returns Map of attribute name -> sorted unique threshold values
+ */
+export function extractThresholds(
+  ruleblocks: ParsedRuleblock[]
+): Map<string, number[]> {
+  const collected = new Map<string, Set<number>>();
+
+  for (const rb of ruleblocks) {
+    const variables = mapValueVariables(rb);
+
+    for (const rule of rb.rules) {
+      if (rule.ruleType !== RuleType.COMPUTE_STATEMENT) continue;
+      const compute = rule as ParsedComputeStatement;
+
+      for (const condition of compute.conditions) {
+        if (!condition.predicate) continue;
+
+        // Predicates we can't parse are skipped rather than failing generation
+        const expr = tryParsePredicate(condition.predicate);
+        if (!expr) continue;
+
+        for (const comparison of collectComparisons(expr)) {
+          const attributes = variables.get(comparison.variable);
+          if (!attributes) continue;
+
+          for (const attr of attributes) {
+            if (!collected.has(attr)) {
+              collected.set(attr, new Set());
+            }
+            collected.get(attr)!.add(comparison.value);
+          }
+        }
+      }
+    }
+  }
+
+  const thresholds = new Map<string, number[]>();
+  for (const [attr, values] of collected) {
+    thresholds.set(
+      attr,
+      Array.from(values).sort((a, b) => a - b)
+    );
+  }
+  return thresholds;
+}
+
+/**
+ * Infer the possible values of each bound rout_* variable from the
+ * compute statement that assigns it, when the source ruleblock is part
+ * of the input.
+ *
+ * The domain is the set of literal return values, plus null when the
+ * statement has no default branch. Variables whose compute statement
+ * returns anything other than literals (or that are not computed at all)
+ * get no domain.
+ *
+ * @param ruleblocks - Array of parsed ruleblocks
+ * @returns Map of rout_table name -> variable name -> possible values
+ */
+export function extractBindDomains(
+  ruleblocks: ParsedRuleblock[]
+): Map<string, Map<string, (number | string | null)[]>> {
+  const computes = new Map<string, Map<string, ParsedComputeStatement>>();
+  for (const rb of ruleblocks) {
+    const statements = new Map<string, ParsedComputeStatement>();
+    for (const rule of rb.rules) {
+      if (rule.ruleType !== RuleType.COMPUTE_STATEMENT) continue;
+      const compute = rule as ParsedComputeStatement;
+      statements.set(compute.assignedVariable.toLowerCase(), compute);
+    }
+    computes.set(rb.name.toLowerCase(), statements);
+  }
+
+  const domains = new Map<string, Map<string, (number | string | null)[]>>();
+
+  for (const rb of ruleblocks) {
+    for (const rule of rb.rules) {
+      if (rule.ruleType !== RuleType.BIND_STATEMENT) continue;
+      const bind = rule as ParsedBindStatement;
+
+      const compute = computes
+        .get(bind.sourceRuleblock.toLowerCase())
+        ?.get(bind.sourceVariable.toLowerCase());
+      if (!compute) continue;
+
+      const values = new Set<number | string | null>();
+      let literal = true;
+      for (const condition of compute.conditions) {
+        const expr = tryParsePredicate(condition.returnValue);
+        if (!expr || expr.kind !== 'literal') {
+          literal = false;
+          break;
+        }
+        values.add(expr.value);
+      }
+      if (!literal) continue;
+
+      // Without a default branch the variable is null when nothing fires
+      if (compute.conditions.every((condition) => condition.predicate)) {
+        values.add(null);
+      }
+
+      const tableName = routTableName(bind.sourceRuleblock);
+      if (!domains.has(tableName)) {
+        domains.set(tableName, new Map());
+      }
+      domains.get(tableName)!.set(bind.sourceVariable.toLowerCase(), Array.from(values));
+    }
+  }
+
+  return domains;
 }
 
 /**
@@ -78,6 +280,51 @@ export function isWildcardAttribute(attribute: string): boolean {
   return attribute.includes('%') || attribute.includes('*');
 }
 
+/**
+ * Convert a wildcard attribute pattern to a regular expression.
+ * Follows SQL LIKE semantics: `%` (or `*`) matches any run of
+ * characters and `_` matches a single character.
+ *
+ * @param pattern - Attribute name, possibly containing wildcards
+ * @returns Anchored, case-insensitive regular expression
+ */
+export function attributePatternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((ch) => {
+      if (ch === '%' || ch === '*') return '.*';
+      if (ch === '_') return '.';
+      return ch.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Name of the rout_* table a ruleblock writes. Picorules identifiers
+ * are case-insensitive, so the name is lowercase, like its columns.
+ *
+ * @param ruleblock - Ruleblock name
+ * @returns rout_* table name
+ */
+export function routTableName(ruleblock: string): string {
+  return `rout_${ruleblock.toLowerCase()}`;
+}
+
+/**
+ * Check whether a concrete attribute matches an attribute pattern.
+ *
+ * @param pattern - Attribute name, possibly containing wildcards
+ * @param attribute - Concrete attribute name
+ * @returns True if the attribute matches
+ */
+export function matchesAttributePattern(pattern: string, attribute: string): boolean {
+  if (!isWildcardAttribute(pattern)) {
+    return pattern.toLowerCase() === attribute.toLowerCase();
+  }
+  return attributePatternToRegExp(pattern).test(attribute);
+}
+
 /**
  * Generate a random suffix for wildcard expansion.
  *
@@ -127,6 +374,84 @@ export function expandWildcardAttribute(
   return expanded;
 }
 
+/**
+ * Build the EADV attribute name for a vocabulary code.
+ * The code is lowercased and any character other than a letter,
+ * digit or underscore becomes an underscore, so ICD-10 `C18.0`
+ * with prefix `icd_` becomes `icd_c18_0`.
+ *
+ * @param code - Code from the vocabulary
+ * @param prefix - Attribute prefix (e.g. 'icd_')
+ * @returns Attribute name
+ */
+export function vocabularyAttributeName(code: string, prefix: string = ''): string {
+  return `${prefix}${code}`.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+}
+
+/**
+ * Find every vocabulary attribute matching a wildcard pattern.
+ *
+ * @param pattern - Attribute pattern (e.g. 'icd_c18%')
+ * @param vocabularies - Registered code vocabularies
+ * @returns Unique matching attribute names, in vocabulary order
+ */
+export function findVocabularyAttributes(
+  pattern: string,
+  vocabularies: CodeVocabulary[]
+): string[] {
+  const regex = attributePatternToRegExp(pattern);
+  const matches = new Set<string>();
+
+  for (const vocabulary of vocabularies) {
+    for (const code of vocabulary.codes) {
+      const attribute = vocabularyAttributeName(code, vocabulary.prefix);
+      if (regex.test(attribute)) {
+        matches.add(attribute);
+      }
+    }
+  }
+
+  return Array.from(matches);
+}
+
+/**
+ * Expand a wildcard attribute into several distinct concrete names.
+ *
+ * Picks from the vocabulary matches when there are any (without
+ * replacement, so at most `matches.length` names are returned);
+ * otherwise falls back to random suffixes.
+ *
+ * @param attribute - Attribute pattern
+ * @param count - Number of distinct expansions wanted
+ * @param matches - Vocabulary attributes matching the pattern
+ * @param random - Seeded random function
+ * @returns Array of distinct concrete attribute names
+ */
+export function expandWildcardAttributeDistinct(
+  attribute: string,
+  count: number,
+  matches: string[],
+  random: () => number
+): string[] {
+  if (matches.length > 0) {
+    // Partial Fisher-Yates shuffle
+    const pool = [...matches];
+    const picks = Math.min(count, pool.length);
+    for (let i = 0; i < picks; i++) {
+      const j = i + Math.floor(random() * (pool.length - i));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, picks);
+  }
+
+  const expanded = new Set<string>();
+  // Bounded retries in case random suffixes collide
+  for (let attempt = 0; expanded.size < count && attempt < count * 10; attempt++) {
+    expanded.add(expandWildcardAttribute(attribute, random));
+  }
+  return Array.from(expanded);
+}
+
 /**
  * Expand all wildcard attributes in a set to concrete attribute names.
  *
@@ -0,0 +1,167 @@
+/**
+ * Attribute Dates
+ *
+ * Per-attribute date ranges and distributions, so each test type can
+ * have its own cadence: monthly dialysis bloods, three-monthly HbA1c,
+ * annual ACR.
+ */
+
+import {
+  AttributeDateSettings,
+  DateDistributionSetting,
+  GeneratorSpecIssue,
+  ResolvedAttributeDates,
+} from '../models/types';
+import { GeneratorSpecError } from './generator-spec';
+import { parseDate } from '../utils/date-utils';
+
+const DATE_DISTRIBUTIONS = ['uniform', 'recent-weighted', 'clustered', 'scheduled'];
+
+/**
+ * Validate a date distribution setting.
+ *
+ * @param setting - Distribution name or spec (any value, e.g. parsed JSON)
+ * @param path - Path of the setting, used in issue paths
+ * @returns Problems found (empty if the setting is valid)
+ */
+export function validateDateDistribution(setting: unknown, path: string): GeneratorSpecIssue[] {
+  const issues: GeneratorSpecIssue[] = [];
+  const allowed = "must be 'uniform', 'recent-weighted', 'clustered' or 'scheduled'";
+
+  if (typeof setting === 'string') {
+    // 'scheduled' needs an interval, so only its spec form is accepted
+    if (!DATE_DISTRIBUTIONS.includes(setting) || setting === 'scheduled') {
+      issues.push({ path, message: "must be 'uniform', 'recent-weighted' or 'clustered'" });
+    }
+    return issues;
+  }
+  if (typeof setting !== 'object' || setting === null || Array.isArray(setting)) {
+    return [{ path, message: 'must be a distribution name or an object with a dist' }];
+  }
+
+  const spec = setting as Record<string, unknown>;
+  const positive = (key: string, required: boolean) => {
+    const value = spec[key];
+    if (value === undefined) {
+      if (required) issues.push({ path: `${path}.${key}`, message: 'is required' });
+    } else if (typeof value !== 'number' || !(value > 0)) {
+      issues.push({ path: `${path}.${key}`, message: 'must be a number > 0' });
+    }
+  };
+
+  switch (spec.dist) {
+    case 'uniform':
+      break;
+    case 'recent-weighted':
+      positive('lambda', false);
+      break;
+    case 'clustered':
+      positive('spread', false);
+      break;
+    case 'scheduled':
+      positive('intervalDays', true);
+      if (
+        spec.jitterDays !== undefined &&
+        (typeof spec.jitterDays !== 'number' || !(spec.jitterDays >= 0))
+      ) {
+        issues.push({ path: `${path}.jitterDays`, message: 'must be a number >= 0' });
+      }
+      break;
+    default:
+      issues.push({ path: `${path}.dist`, message: allowed });
+  }
+
+  return issues;
+}
+
+/**
+ * Resolve a date distribution setting.
+ *
+ * @param setting - Distribution name or spec
+ * @param path - Path of the setting, used in error messages
+ * @returns The setting, once validated
+ * @throws GeneratorSpecError listing every problem
+ */
+export function resolveDateDistribution(
+  setting: DateDistributionSetting,
+  path: string
+): DateDistributionSetting {
+  const issues = validateDateDistribution(setting, path);
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+  return setting;
+}
+
+/**
+ * Resolve one set of date settings, filling unset fields from the
+ * global range and distribution and collecting any problems.
+ *
+ * @param setting - Date range and distribution, either optional
+ * @param defaults - Global date range and distribution
+ * @param path - Path of the settings, used in issue paths
+ * @param issues - Problems found so far; new ones are added
+ * @returns Date range and distribution to use
+ */
+export function resolveDateSettings(
+  setting: AttributeDateSettings,
+  defaults: { dateRange: { start: Date; end: Date }; dateDistribution: DateDistributionSetting },
+  path: string,
+  issues: GeneratorSpecIssue[]
+): Omit<ResolvedAttributeDates, 'pattern'> {
+  const start = setting.dateRange?.start
+    ? parseDate(setting.dateRange.start)
+    : defaults.dateRange.start;
+  const end = setting.dateRange?.end ? parseDate(setting.dateRange.end) : defaults.dateRange.end;
+
+  if (Number.isNaN(start.getTime())) {
+    issues.push({ path: `${path}.dateRange.start`, message: 'must be a valid date' });
+  }
+  if (Number.isNaN(end.getTime())) {
+    issues.push({ path: `${path}.dateRange.end`, message: 'must be a valid date' });
+  } else if (start.getTime() > end.getTime()) {
+    issues.push({ path: `${path}.dateRange.end`, message: 'must not be before the start' });
+  }
+  if (setting.dateDistribution !== undefined) {
+    issues.push(...validateDateDistribution(setting.dateDistribution, `${path}.dateDistribution`));
+  }
+
+  return {
+    dateRange: { start, end },
+    dateDistribution: setting.dateDistribution ?? defaults.dateDistribution,
+  };
+}
+
+/**
+ * Resolve per-attribute date settings, filling unset fields from the
+ * global range and distribution.
+ *
+ * @param settings - Map of attribute name or pattern -> date settings
+ * @param defaults - Global date range and distribution
+ * @param path - Path of the map, used in error messages
+ * @returns Resolved settings with exact names before patterns
+ * @throws GeneratorSpecError listing every problem
+ */
+export function resolveAttributeDates(
+  settings: Record<string, AttributeDateSettings>,
+  defaults: { dateRange: { start: Date; end: Date }; dateDistribution: DateDistributionSetting },
+  path: string
+): ResolvedAttributeDates[] {
+  const issues: GeneratorSpecIssue[] = [];
+  const resolved: ResolvedAttributeDates[] = [];
+
+  for (const [pattern, setting] of Object.entries(settings)) {
+    resolved.push({
+      pattern,
+      ...resolveDateSettings(setting, defaults, `${path}.${pattern}`, issues),
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+
+  // Exact names take precedence over patterns
+  const isPattern = (r: ResolvedAttributeDates) => /[%*]/.test(r.pattern);
+  return [...resolved.filter((r) => !isPattern(r)), ...resolved.filter(isPattern)];
+}
@@ -0,0 +1,142 @@
+/**
+ * Cohorts
+ *
+ * Labelled sub-populations of entities, each with its own value
+ * generators, trajectories and bind table values, so the generated data
+ * can be checked against the phenotype each entity was meant to have.
+ */
+
+import { CohortSpec, GeneratorSpecIssue, ResolvedCohort } from '../models/types';
+import { GeneratorSpecError, collectIssues, resolveValueGenerators } from './generator-spec';
+import { resolveTrajectory } from './trajectory';
+
+/**
+ * Resolve cohort specs, compiling their generators and trajectories.
+ *
+ * @param specs - Cohort specs
+ * @param path - Path of the list, used in error messages
+ * @returns Resolved cohorts, in the same order
+ * @throws GeneratorSpecError listing every problem
+ */
+export function resolveCohorts(specs: CohortSpec[], path: string): ResolvedCohort[] {
+  const issues: GeneratorSpecIssue[] = [];
+  const names = new Set<string>();
+  let totalProportion = 0;
+
+  const cohorts = specs.map((spec, i): ResolvedCohort => {
+    const at = `${path}[${i}]`;
+
+    if (typeof spec.name !== 'string' || spec.name === '') {
+      issues.push({ path: `${at}.name`, message: 'must be a non-empty string' });
+    } else if (names.has(spec.name)) {
+      issues.push({ path: `${at}.name`, message: `duplicates another cohort ('${spec.name}')` });
+    }
+    names.add(spec.name);
+
+    if ((spec.count === undefined) === (spec.proportion === undefined)) {
+      issues.push({ path: at, message: "must have either 'count' or 'proportion'" });
+    } else if (spec.count !== undefined && !(Number.isInteger(spec.count) && spec.count >= 0)) {
+      issues.push({ path: `${at}.count`, message: 'must be an integer >= 0' });
+    } else if (spec.proportion !== undefined) {
+      if (!(spec.proportion >= 0 && spec.proportion <= 1)) {
+        issues.push({ path: `${at}.proportion`, message: 'must be between 0 and 1' });
+      } else {
+        totalProportion += spec.proportion;
+      }
+    }
+
+    const trajectories: ResolvedCohort['trajectories'] = {};
+    for (const [att, trajectory] of Object.entries(spec.trajectories ?? {})) {
+      const resolved = collectIssues(
+        () => resolveTrajectory(trajectory, `${at}.trajectories.${att}`),
+        issues
+      );
+      if (resolved) trajectories[att] = resolved;
+    }
+
+    return {
+      name: spec.name,
+      count: spec.count,
+      proportion: spec.proportion,
+      valueGenerators:
+        collectIssues(
+          () => resolveValueGenerators(spec.valueGenerators ?? {}, `${at}.valueGenerators`),
+          issues
+        ) ?? {},
+      trajectories,
+      bindTableValues: Object.fromEntries(
+        Object.entries(spec.bindTableValues ?? {}).map(([table, variables]) => [
+          table,
+          collectIssues(
+            () => resolveValueGenerators(variables, `${at}.bindTableValues.${table}`),
+            issues
+          ) ?? {},
+        ])
+      ),
+    };
+  });
+
+  // Allow for rounding in proportions like 1/3 + 1/3 + 1/3
+  if (totalProportion > 1 + 1e-9) {
+    issues.push({ path, message: `proportions must add up to at most 1 (${totalProportion})` });
+  }
+
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+  return cohorts;
+}
+
+/**
+ * Number of entities needed to fill the cohorts given by count.
+ *
+ * @param cohorts - Resolved cohorts
+ * @returns Sum of the cohort counts
+ */
+export function countCohortEntities(cohorts: ResolvedCohort[]): number {
+  return cohorts.reduce((sum, cohort) => sum + (cohort.count ?? 0), 0);
+}
+
+/**
+ * Assign entities to cohorts in consecutive blocks, in cohort order.
+ *
+ * Cohorts with a count get exactly that many entities. Proportions are
+ * shares of the other entities, rounded so the totals match (largest
+ * remainder). Entities left over belong to no cohort.
+ *
+ * @param entities - Entity IDs
+ * @param cohorts - Resolved cohorts
+ * @returns Map of entity ID -> cohort, for entities in a cohort
+ */
+export function assignCohorts(
+  entities: number[],
+  cohorts: ResolvedCohort[]
+): Map<number, ResolvedCohort> {
+  const sizes = cohorts.map((cohort) => cohort.count ?? 0);
+  const rest = Math.max(0, entities.length - countCohortEntities(cohorts));
+
+  // Largest remainder rounding of the proportional shares
+  const shares = cohorts.map((cohort) => (cohort.proportion ?? 0) * rest);
+  const totalShare = Math.round(shares.reduce((a, b) => a + b, 0));
+  let remaining = totalShare;
+  shares.forEach((share, i) => {
+    sizes[i] += Math.floor(share);
+    remaining -= Math.floor(share);
+  });
+  const byRemainder = shares
+    .map((share, i) => ({ i, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let k = 0; k < remaining; k++) {
+    sizes[byRemainder[k].i]++;
+  }
+
+  const assignment = new Map<number, ResolvedCohort>();
+  let next = 0;
+  cohorts.forEach((cohort, i) => {
+    for (let k = 0; k < sizes[i] && next < entities.length; k++) {
+      assignment.set(entities[next++], cohort);
+    }
+  });
+
+  return assignment;
+}
@@ -0,0 +1,376 @@
+/**
+ * Correlated Attributes
+ *
+ * Relationships between the attributes of one entity: attributes derived
+ * from others (eGFR from creatinine, BMI from weight and height) and
+ * panels of attributes drawn together from a multivariate normal
+ * distribution. Without them a patient can have creatinine 480 with
+ * eGFR 115.
+ */
+
+import {
+  CorrelatedPanelSpec,
+  DerivedAttributeSpec,
+  GeneratorSpecIssue,
+  ResolvedCorrelatedPanel,
+  ResolvedDerivedAttribute,
+  ValueGenerator,
+} from '../models/types';
+import { GeneratorSpecError, resolveValueGenerator, validateGeneratorSpec } from './generator-spec';
+import { createTruncatedNormalGenerator } from './value-generators';
+import { gaussianRandom } from '../utils/random';
+
+/**
+ * Age distribution used by CKD-EPI when none is given
+ */
+const DEFAULT_AGE: ValueGenerator = createTruncatedNormalGenerator(60, 15, 18, 95, 0);
+
+/**
+ * Micromoles per litre of creatinine in one mg/dL
+ */
+const CREATININE_UMOL_PER_MG_DL = 88.4;
+
+/**
+ * eGFR from serum creatinine with the race-free CKD-EPI 2021 equation.
+ *
+ * @param creatinine - Serum creatinine (µmol/L)
+ * @param age - Age in years
+ * @param female - Whether the patient is female
+ * @returns eGFR (mL/min/1.73m²)
+ */
+export function ckdEpi2021(creatinine: number, age: number, female: boolean): number {
+  const scr = creatinine / CREATININE_UMOL_PER_MG_DL;
+  const kappa = female ? 0.7 : 0.9;
+  const alpha = female ? -0.241 : -0.302;
+  const ratio = scr / kappa;
+
+  return (
+    142 *
+    Math.pow(Math.min(ratio, 1), alpha) *
+    Math.pow(Math.max(ratio, 1), -1.2) *
+    Math.pow(0.9938, age) *
+    (female ? 1.012 : 1)
+  );
+}
+
+/**
+ * Body mass index from weight and height.
+ *
+ * @param weight - Weight (kg)
+ * @param height - Height (cm)
+ * @returns BMI (kg/m²)
+ */
+export function bodyMassIndex(weight: number, height: number): number {
+  const metres = height / 100;
+  return weight / (metres * metres);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function numeric(value: number | string | null | undefined): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Compile one derived attribute spec, collecting its problems.
+ */
+function resolveDerivedAttribute(
+  spec: DerivedAttributeSpec,
+  path: string,
+  issues: GeneratorSpecIssue[]
+): ResolvedDerivedAttribute | undefined {
+  const before = issues.length;
+  const decimals = (value: number | undefined) => {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0 || value > 10)) {
+      issues.push({ path: `${path}.decimals`, message: 'must be an integer from 0 to 10' });
+    }
+  };
+
+  if ('derive' in spec) {
+    if (!Array.isArray(spec.from) || spec.from.length === 0) {
+      issues.push({ path: `${path}.from`, message: 'must be a non-empty array' });
+      return undefined;
+    }
+    if (typeof spec.derive !== 'function') {
+      issues.push({ path: `${path}.derive`, message: 'must be a function' });
+      return undefined;
+    }
+    return { from: spec.from, derive: spec.derive };
+  }
+
+  switch (spec.formula) {
+    case 'bmi': {
+      decimals(spec.decimals);
+      const weight = spec.weight ?? 'obs_weight';
+      const height = spec.height ?? 'obs_height';
+      const places = spec.decimals ?? 1;
+      return {
+        from: [weight, height],
+        derive: (inputs) => {
+          const w = numeric(inputs[weight]);
+          const h = numeric(inputs[height]);
+          return w !== undefined && h !== undefined && h > 0
+            ? round(bodyMassIndex(w, h), places)
+            : null;
+        },
+      };
+    }
+
+    case 'ckd-epi-2021': {
+      decimals(spec.decimals);
+      const p = spec.femaleProbability;
+      if (p !== undefined && !(p >= 0 && p <= 1)) {
+        issues.push({ path: `${path}.femaleProbability`, message: 'must be between 0 and 1' });
+      }
+      if (typeof spec.age === 'number') {
+        if (!(spec.age >= 0)) issues.push({ path: `${path}.age`, message: 'must be >= 0' });
+      } else if (spec.age !== undefined && typeof spec.age !== 'function') {
+        issues.push(...validateGeneratorSpec(spec.age, `${path}.age`));
+      }
+      if (issues.length > before) return undefined;
+
+      const creatinine = spec.creatinine ?? 'lab_bld_creatinine';
+      const ageSetting = spec.age;
+      const age: ValueGenerator =
+        typeof ageSetting === 'number'
+          ? () => ageSetting
+          : ageSetting
+            ? resolveValueGenerator(ageSetting, `${path}.age`)
+            : DEFAULT_AGE;
+      const femaleProbability = p ?? 0.5;
+      const places = spec.decimals ?? 0;
+
+      return {
+        from: [creatinine],
+        entityInputs: (random) => ({
+          age: Number(age(random)),
+          female: random() < femaleProbability ? 1 : 0,
+        }),
+        derive: (inputs) => {
+          const scr = numeric(inputs[creatinine]);
+          return scr !== undefined && scr > 0
+            ? round(ckdEpi2021(scr, Number(inputs.age), inputs.female === 1), places)
+            : null;
+        },
+      };
+    }
+
+    default:
+      issues.push({
+        path: `${path}.formula`,
+        message: "must be 'bmi' or 'ckd-epi-2021' (or give 'from' and 'derive')",
+      });
+      return undefined;
+  }
+}
+
+/**
+ * Resolve derived attribute specs, rejecting attributes that derive
+ * from themselves through a chain of sources.
+ *
+ * @param specs - Map of derived attribute name -> spec
+ * @param path - Path of the map, used in error messages
+ * @returns Map of derived attribute name -> resolved derivation
+ * @throws GeneratorSpecError listing every problem
+ */
+export function resolveDerivedAttributes(
+  specs: Record<string, DerivedAttributeSpec>,
+  path: string
+): Record<string, ResolvedDerivedAttribute> {
+  const issues: GeneratorSpecIssue[] = [];
+  const resolved: Record<string, ResolvedDerivedAttribute> = {};
+
+  for (const [att, spec] of Object.entries(specs)) {
+    const derived = resolveDerivedAttribute(spec, `${path}.${att}`, issues);
+    if (derived) resolved[att] = derived;
+  }
+
+  // Depth-first search for a source chain leading back to the attribute
+  for (const att of Object.keys(resolved)) {
+    const seen = new Set<string>();
+    const stack = [...resolved[att].from];
+    while (stack.length > 0) {
+      const source = stack.pop()!;
+      if (source === att) {
+        issues.push({ path: `${path}.${att}.from`, message: 'derives from itself' });
+        break;
+      }
+      if (seen.has(source)) continue;
+      seen.add(source);
+      stack.push(...(resolved[source]?.from ?? []));
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+  return resolved;
+}
+
+/**
+ * Cholesky-factorise a symmetric matrix.
+ *
+ * @param matrix - Symmetric matrix
+ * @returns Lower-triangular L with L·Lᵀ = matrix, or undefined if the
+ *          matrix isn't positive definite
+ */
+export function choleskyDecompose(matrix: number[][]): number[][] | undefined {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+
+      if (i === j) {
+        if (sum <= 0) return undefined;
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+
+  return lower;
+}
+
+/**
+ * Resolve correlated panel specs, validating the correlation matrices.
+ *
+ * @param specs - Panel specs
+ * @param path - Path of the list, used in error messages
+ * @param derived - Names of derived attributes, which can't join a panel
+ * @returns Resolved panels
+ * @throws GeneratorSpecError listing every problem
+ */
+export function resolveCorrelatedPanels(
+  specs: CorrelatedPanelSpec[],
+  path: string,
+  derived: string[] = []
+): ResolvedCorrelatedPanel[] {
+  const issues: GeneratorSpecIssue[] = [];
+  const issue = (at: string, message: string) => issues.push({ path: at, message });
+  const seen = new Set<string>(derived);
+  const panels: ResolvedCorrelatedPanel[] = [];
+
+  specs.forEach((spec, p) => {
+    const at = `${path}[${p}]`;
+    const attributes = Object.keys(spec.attributes ?? {});
+    const n = attributes.length;
+    const before = issues.length;
+
+    if (n < 2) issue(`${at}.attributes`, 'must name at least two attributes');
+    for (const att of attributes) {
+      const m = spec.attributes[att];
+      const mat = `${at}.attributes.${att}`;
+      if (seen.has(att)) issue(mat, 'is already derived or in another panel');
+      seen.add(att);
+      if (typeof m.mean !== 'number' || !Number.isFinite(m.mean)) {
+        issue(`${mat}.mean`, 'must be a number');
+      }
+      if (typeof m.sd !== 'number' || !(m.sd >= 0)) issue(`${mat}.sd`, 'must be a number >= 0');
+      if (m.min !== undefined && m.max !== undefined && m.min > m.max) {
+        issue(`${mat}.max`, `must be >= min (${m.min})`);
+      }
+    }
+
+    const matrix = spec.correlation;
+    if (!Array.isArray(matrix) || matrix.length !== n || matrix.some((r) => r?.length !== n)) {
+      issue(`${at}.correlation`, `must be a ${n}x${n} matrix`);
+      return;
+    }
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        const r = matrix[i][j];
+        if (i === j && r !== 1) {
+          issue(`${at}.correlation[${i}][${j}]`, 'must be 1');
+        } else if (i !== j && !(r >= -1 && r <= 1)) {
+          issue(`${at}.correlation[${i}][${j}]`, 'must be between -1 and 1');
+        } else if (j < i && r !== matrix[j][i]) {
+          issue(`${at}.correlation[${i}][${j}]`, `must equal correlation[${j}][${i}]`);
+        }
+      }
+    }
+    if (issues.length > before) return;
+
+    const cholesky = choleskyDecompose(matrix);
+    if (!cholesky) {
+      issue(`${at}.correlation`, 'must be positive definite');
+      return;
+    }
+
+    panels.push({
+      attributes,
+      marginals: attributes.map((att) => {
+        const m = spec.attributes[att];
+        return {
+          mean: m.mean,
+          sd: m.sd,
+          min: m.min ?? -Infinity,
+          max: m.max ?? Infinity,
+          decimals: m.decimals ?? 1,
+        };
+      }),
+      cholesky,
+    });
+  });
+
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+  return panels;
+}
+
+/**
+ * Draw one row of correlated values for a panel.
+ *
+ * @param panel - Resolved panel
+ * @param random - Seeded random function
+ * @returns One value per panel attribute, in panel order
+ */
+export function drawCorrelatedValues(
+  panel: ResolvedCorrelatedPanel,
+  random: () => number
+): number[] {
+  const z = panel.attributes.map(() => gaussianRandom(random));
+
+  return panel.marginals.map((m, i) => {
+    let correlated = 0;
+    for (let k = 0; k <= i; k++) correlated += panel.cholesky[i][k] * z[k];
+    const value = Math.max(m.min, Math.min(m.max, m.mean + correlated * m.sd));
+    return round(value, m.decimals);
+  });
+}
+
+/**
+ * Order attributes so every derived attribute comes after the sources
+ * it derives from. Otherwise the input order is kept.
+ *
+ * @param attributes - Attribute names
+ * @param derived - Map of derived attribute name -> derivation
+ * @returns Attributes in generation order
+ */
+export function orderAttributesByDerivation(
+  attributes: string[],
+  derived: Record<string, ResolvedDerivedAttribute>
+): string[] {
+  const present = new Set(attributes);
+  const ordered: string[] = [];
+  const placed = new Set<string>();
+
+  const place = (att: string) => {
+    if (placed.has(att)) return;
+    placed.add(att);
+    for (const source of derived[att]?.from ?? []) {
+      if (present.has(source)) place(source);
+    }
+    ordered.push(att);
+  };
+
+  attributes.forEach(place);
+  return ordered;
+}
@@ -0,0 +1,202 @@
+/**
+ * Demographics
+ *
+ * A patient behind each entity: date of birth, sex, Indigenous status
+ * and, for some, a date of death. Other observations are kept within
+ * the patient's lifespan, so nobody has bloods taken before they were
+ * born or after they died, and age-dependent rules see believable ages.
+ */
+
+import {
+  DemographicsSpec,
+  GeneratorSpecIssue,
+  Patient,
+  ResolvedDemographics,
+  ValueGenerator,
+} from '../models/types';
+import { GeneratorSpecError, resolveValueGenerator, validateGeneratorSpec } from './generator-spec';
+import { createTruncatedNormalGenerator } from './value-generators';
+
+/**
+ * Age distribution used when none is given
+ */
+const DEFAULT_AGE: ValueGenerator = createTruncatedNormalGenerator(55, 18, 18, 95, 0);
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Resolve the demographics option.
+ *
+ * @param setting - `true` for the defaults, or a spec
+ * @param path - Path of the option, used in error messages
+ * @returns Resolved demographics, or null when they are off
+ * @throws GeneratorSpecError listing every problem
+ */
+export function resolveDemographics(
+  setting: boolean | DemographicsSpec,
+  path: string
+): ResolvedDemographics | null {
+  if (setting === false) return null;
+  const spec: DemographicsSpec = setting === true ? {} : setting;
+  const issues: GeneratorSpecIssue[] = [];
+
+  for (const [key, name] of Object.entries(spec.attributes ?? {})) {
+    if (typeof name !== 'string' || name === '') {
+      issues.push({ path: `${path}.attributes.${key}`, message: 'must be a non-empty string' });
+    }
+  }
+  for (const key of ['femaleProbability', 'indigenousProbability', 'deathProbability'] as const) {
+    const p = spec[key];
+    if (p !== undefined && !(p >= 0 && p <= 1)) {
+      issues.push({ path: `${path}.${key}`, message: 'must be between 0 and 1' });
+    }
+  }
+  if (spec.minimumAge !== undefined && !(spec.minimumAge >= 0)) {
+    issues.push({ path: `${path}.minimumAge`, message: 'must be >= 0' });
+  }
+  if (typeof spec.age === 'number') {
+    if (!(spec.age >= 0)) issues.push({ path: `${path}.age`, message: 'must be >= 0' });
+  } else if (spec.age !== undefined && typeof spec.age !== 'function') {
+    issues.push(...validateGeneratorSpec(spec.age, `${path}.age`));
+  }
+
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+
+  const ageSetting = spec.age;
+  return {
+    attributes: {
+      dob: spec.attributes?.dob ?? 'dmg_dob',
+      sex: spec.attributes?.sex ?? 'dmg_gender',
+      indigenous: spec.attributes?.indigenous ?? 'dmg_indigenous',
+      dod: spec.attributes?.dod ?? 'dmg_dod',
+    },
+    age:
+      typeof ageSetting === 'number'
+        ? () => ageSetting
+        : ageSetting
+          ? resolveValueGenerator(ageSetting, `${path}.age`)
+          : DEFAULT_AGE,
+    femaleProbability: spec.femaleProbability ?? 0.5,
+    indigenousProbability: spec.indigenousProbability ?? 0.03,
+    deathProbability: spec.deathProbability ?? 0.05,
+    minimumAge: spec.minimumAge ?? 0,
+    codes: {
+      male: spec.codes?.male ?? 1,
+      female: spec.codes?.female ?? 2,
+      indigenous: spec.codes?.indigenous ?? 1,
+      nonIndigenous: spec.codes?.nonIndigenous ?? 0,
+    },
+  };
+}
+
+/**
+ * Draw one entity's demographics. The age is taken at the end of the
+ * date range and is never below the minimum age; deaths fall between
+ * the later of the range start and the minimum age, and the range end.
+ *
+ * @param demographics - Resolved demographics
+ * @param dateRange - Date range of the observations
+ * @param random - Seeded random function
+ * @returns The patient
+ */
+export function drawPatient(
+  demographics: ResolvedDemographics,
+  dateRange: { start: Date; end: Date },
+  random: () => number
+): Patient {
+  const drawn = Number(demographics.age(random));
+  const age = Math.max(demographics.minimumAge, Number.isFinite(drawn) ? drawn : 0);
+  const dob = new Date(dateRange.end.getTime() - (age + random()) * MS_PER_YEAR);
+  const female = random() < demographics.femaleProbability;
+  const indigenous = random() < demographics.indigenousProbability;
+
+  const patient: Patient = { dob, female, indigenous };
+  if (random() < demographics.deathProbability) {
+    const earliest = Math.max(
+      dateRange.start.getTime(),
+      dob.getTime() + demographics.minimumAge * MS_PER_YEAR
+    );
+    const end = dateRange.end.getTime();
+    patient.dod = new Date(earliest + random() * Math.max(0, end - earliest));
+  }
+  return patient;
+}
+
+/**
+ * Draw the demographics of every entity.
+ *
+ * @param entities - Entity IDs
+ * @param demographics - Resolved demographics
+ * @param dateRange - Date range of the observations
+ * @param random - Seeded random function
+ * @returns Map of entity ID -> patient
+ */
+export function drawPatients(
+  entities: number[],
+  demographics: ResolvedDemographics,
+  dateRange: { start: Date; end: Date },
+  random: () => number
+): Map<number, Patient> {
+  return new Map(entities.map((eid) => [eid, drawPatient(demographics, dateRange, random)]));
+}
+
+/**
+ * A patient's age in whole years on a date.
+ *
+ * @param patient - The patient
+ * @param date - Date to take the age at
+ * @returns Age in years
+ */
+export function ageAt(patient: Patient, date: Date): number {
+  return Math.max(0, Math.floor((date.getTime() - patient.dob.getTime()) / MS_PER_YEAR));
+}
+
+/**
+ * Narrow a date range to the part of it a patient can have observations
+ * in: from the minimum age until death.
+ *
+ * @param patient - The patient
+ * @param minimumAge - Age in years before which nothing is observed
+ * @param range - Date range to narrow
+ * @returns The narrowed range, or undefined if none of it is left
+ */
+export function lifespanRange(
+  patient: Patient,
+  minimumAge: number,
+  range: { start: Date; end: Date }
+): { start: Date; end: Date } | undefined {
+  const start = Math.max(range.start.getTime(), patient.dob.getTime() + minimumAge * MS_PER_YEAR);
+  const end = Math.min(range.end.getTime(), patient.dod?.getTime() ?? Infinity);
+  return start <= end ? { start: new Date(start), end: new Date(end) } : undefined;
+}
+
+/**
+ * The demographic observations of a patient. Sex and Indigenous status
+ * are recorded at birth; the dates of birth and death are the rows'
+ * dates, with null values.
+ *
+ * @param demographics - Resolved demographics
+ * @param patient - The patient
+ * @returns Attribute, date and value of each observation
+ */
+export function patientObservations(
+  demographics: ResolvedDemographics,
+  patient: Patient
+): { att: string; dt: Date; val: number | string | null }[] {
+  const { attributes, codes } = demographics;
+  const observations = [
+    { att: attributes.dob, dt: patient.dob, val: null },
+    { att: attributes.sex, dt: patient.dob, val: patient.female ? codes.female : codes.male },
+    {
+      att: attributes.indigenous,
+      dt: patient.dob,
+      val: patient.indigenous ? codes.indigenous : codes.nonIndigenous,
+    },
+  ];
+  if (patient.dod) {
+    observations.push({ att: attributes.dod, dt: patient.dod, val: null });
+  }
+  return observations;
+}
@@ -4,9 +4,46 @@
  * Generates mock EADV table rows based on extracted attributes.
  */
 
-import { EadvRow, ResolvedMockerOptions } from '../models/types';
-import { generateDates, formatDate } from '../utils/date-utils';
-import { expandWildcardAttributes } from '../extractor';
+import {
+  EadvRow,
+  GeneratedValue,
+  GenerationHints,
+  ResolvedAttributeDates,
+  ResolvedCohort,
+  ResolvedCorrelatedPanel,
+  ResolvedDerivedAttribute,
+  ResolvedEncounterPanel,
+  ResolvedMockerOptions,
+  Patient,
+  TableSchema,
+  ValueGenerator,
+} from '../models/types';
+import { generateDates, topUpDates, formatDate } from '../utils/date-utils';
+import {
+  isWildcardAttribute,
+  expandWildcardAttribute,
+  expandWildcardAttributeDistinct,
+  findVocabularyAttributes,
+  matchesAttributePattern,
+} from '../extractor';
+import { randomInt } from '../utils/random';
+import {
+  minimumObservationCount,
+  shapeObservationCount,
+  shapeObservationValues,
+} from './observation-shaper';
+import { shapeFilteredObservations } from './filter-shaper';
+import { createThresholdGenerator } from './value-generators';
+import { generateTrajectoryValues } from './trajectory';
+import { drawCorrelatedValues, orderAttributesByDerivation } from './correlation';
+import { selectOrderedVisits } from './encounters';
+import { ageAt, lifespanRange, patientObservations } from './demographics';
+import {
+  generateMedicationEpisodes,
+  medicationEventAttributes,
+  medicationObservations,
+} from './medications';
+import { Expression, tryParsePredicate } from '../predicates';
 
 /**
  * Generate entity IDs as an array of numbers.
@@ -23,6 +60,40 @@ export function generateEntityIds(count: number, startId: number): number[] {
   return ids;
 }
 
+/**
+ * Decide how many distinct expansions a wildcard gets for one entity.
+ */
+function resolveExpansionCount(
+  setting: number | { min: number; max: number },
+  random: () => number
+): number {
+  return typeof setting === 'number' ? setting : randomInt(random, setting.min, setting.max);
+}
+
+/**
+ * Dates and values generated for one attribute of one entity
+ */
+interface Series {
+  dates: Date[];
+  values: (number | string | null)[];
+}
+
+/**
+ * The value observed nearest in time to a date.
+ */
+function valueNearest(series: Series, date: Date): number | string | null {
+  let best = 0;
+  let bestGap = Infinity;
+  series.dates.forEach((d, i) => {
+    const gap = Math.abs(d.getTime() - date.getTime());
+    if (gap < bestGap) {
+      best = i;
+      bestGap = gap;
+    }
+  });
+  return series.values[best] ?? null;
+}
+
 /**
  * Generate EADV rows for all attributes and entities.
  *
@@ -30,49 +101,485 @@ export function generateEntityIds(count: number, startId: number): number[] {
  * @param entities - Array of entity IDs
  * @param options - Resolved mocker options
  * @param random - Seeded random function
+ * @param hints - Optional pins and fetch functions derived from the ruleblocks
  * @returns Array of EADV rows
  */
 export function generateEadvRows(
   attributes: Set<string>,
   entities: number[],
   options: ResolvedMockerOptions,
-  random: () => number
+  random: () => number,
+  hints: GenerationHints = {}
 ): EadvRow[] {
   const rows: EadvRow[] = [];
+  for (const entity of iterateEadvRows(attributes, entities, options, random, hints)) {
+    rows.push(...entity.rows);
+  }
+  return rows;
+}
 
-  // Expand wildcard patterns to concrete attribute names
-  // e.g., 'icd_c18%' becomes 'icd_c18xy'
-  const concreteAttributes = expandWildcardAttributes(attributes, random);
+/**
+ * Generate EADV rows one entity at a time.
+ *
+ * Consumes the random function exactly as generateEadvRows does, so the
+ * concatenated rows are identical for the same seed.
+ *
+ * @param attributes - Set of attribute names to generate data for
+ * @param entities - Array of entity IDs
+ * @param options - Resolved mocker options
+ * @param random - Seeded random function
+ * @param hints - Optional pins and fetch functions derived from the ruleblocks
+ * @returns Generator of each entity's rows
+ */
+export function* iterateEadvRows(
+  attributes: Set<string>,
+  entities: number[],
+  options: ResolvedMockerOptions,
+  random: () => number,
+  hints: GenerationHints = {}
+): Generator<{ eid: number; rows: EadvRow[] }> {
+  let rows: EadvRow[] = [];
+  const extracted = orderAttributesByDerivation(
+    Array.from(attributes),
+    options.derivedAttributes
+  );
+
+  const panelOf = new Map<string, ResolvedCorrelatedPanel>();
+  for (const panel of options.correlatedPanels) {
+    for (const att of panel.attributes) panelOf.set(att, panel);
+  }
+  const encounterOf = new Map<string, ResolvedEncounterPanel>();
+  for (const encounter of options.encounterPanels) {
+    for (const att of encounter.attributes) encounterOf.set(att, encounter);
+  }
+
+  // Per-entity state for related attributes: the rows generated so far,
+  // sources generated only to derive from, panel draws, encounter visit
+  // dates and the inputs drawn once per entity for each derivation
+  let series = new Map<string, Series>();
+  let hiddenSeries = new Map<string, Series>();
+  let panelDraws = new Map<ResolvedCorrelatedPanel, { dates: Date[]; rows: number[][] }>();
+  let encounterVisits = new Map<ResolvedEncounterPanel, Date[]>();
+  let entityInputs = new Map<string, Record<string, number>>();
+  let cohort: ResolvedCohort | undefined;
+  let entityId = 0;
+  let history: Record<string, GeneratedValue[]> = {};
+  let scratch: Record<string, unknown> = {};
+  let patient: Patient | undefined;
+
+  // Demographic attributes come from the patient, and other attributes
+  // are only observed within the patient's lifespan
+  const { demographics } = options;
+  const demographicAttributes = new Set(
+    demographics && hints.includeDemographics ? Object.values(demographics.attributes) : []
+  );
+  const lived = (range: { start: Date; end: Date }) =>
+    patient && demographics ? lifespanRange(patient, demographics.minimumAge, range) : range;
+
+  // Medications whose rows are fetched come from their episodes, and the
+  // attributes (or patterns) fetching those rows aren't generated otherwise
+  const fetched = new Map<string, boolean>();
+  const isFetched = (att: string) => {
+    let result = fetched.get(att);
+    if (result === undefined) {
+      result = extracted.some((attr) => matchesAttributePattern(attr, att));
+      fetched.set(att, result);
+    }
+    return result;
+  };
+  const medicationAttributes = options.medications.flatMap(medicationEventAttributes);
+  const medications = options.medications.filter((medication) =>
+    medicationEventAttributes(medication).some(isFetched)
+  );
+  const medicationFetches = new Set(
+    extracted.filter((attr) =>
+      medicationAttributes.some((att) => matchesAttributePattern(attr, att))
+    )
+  );
+
+  // A cohort's trajectory or generator for an attribute replaces both
+  // global settings for it
+  const trajectoryOf = (att: string) =>
+    cohort?.trajectories[att] ??
+    (cohort?.valueGenerators[att] ? undefined : options.trajectories[att]);
+  const valueGeneratorOf = (att: string) =>
+    cohort?.valueGenerators[att] || options.valueGenerators[att] || options.defaultValueGenerator;
+  const hasConfiguredGenerator = (att: string) =>
+    !!(cohort?.valueGenerators[att] || options.valueGenerators[att]);
+
+  // It also replaces the attribute's derivation or panel, so the values
+  // match the cohort's label
+  const overridden = (att: string) =>
+    !!cohort && (att in cohort.valueGenerators || att in cohort.trajectories);
+  const derivationOf = (att: string) =>
+    overridden(att) ? undefined : options.derivedAttributes[att];
+  const panelFor = (att: string) => (overridden(att) ? undefined : panelOf.get(att));
+
+  // Wildcards with vocabulary matches expand to real codes per entity.
+  // The rest share one random expansion (e.g. 'icd_c18%' -> 'icd_c18xy')
+  // unless several expansions per entity are requested.
+  const vocabularyMatches = extracted.map((attr) =>
+    isWildcardAttribute(attr)
+      ? findVocabularyAttributes(attr, options.vocabularies)
+      : []
+  );
+  const sharedExpansions = extracted.map((attr, i) =>
+    vocabularyMatches[i].length === 0 ? expandWildcardAttribute(attr, random) : attr
+  );
+  const perEntityExpansion =
+    options.vocabularies.length > 0 || options.wildcardExpansionsPerEntity !== 1;
+
+  // Each attribute's date range and distribution, looked up once
+  const attributeDates = new Map<string, Omit<ResolvedAttributeDates, 'pattern'>>();
+  const datesOf = (att: string) => {
+    let settings = attributeDates.get(att);
+    if (!settings) {
+      settings =
+        options.attributeDates.find((r) => matchesAttributePattern(r.pattern, att)) ?? options;
+      attributeDates.set(att, settings);
+    }
+    return settings;
+  };
+
+  // An encounter panel's visit dates, drawn once per entity
+  const visitsOf = (encounter: ResolvedEncounterPanel): Date[] => {
+    let visits = encounterVisits.get(encounter);
+    if (!visits) {
+      const count = encounter.visits?.(random) ?? options.observationsPerEntity;
+      const range = lived(encounter.dateRange);
+      visits = range
+        ? generateDates(count, range.start, range.end, random, encounter.dateDistribution)
+        : [];
+      encounterVisits.set(encounter, visits);
+    }
+    return visits;
+  };
+
+  // Parse where-clauses once per attribute
+  const filters = new Map<string, Expression[]>();
+  if (options.shapeByFetchFilter) {
+    for (const [attr, predicates] of hints.fetchFilters ?? []) {
+      const parsed = predicates
+        .map(tryParsePredicate)
+        .filter((e): e is Expression => e !== undefined);
+      if (parsed.length > 0) filters.set(attr, parsed);
+    }
+  }
+
+  /**
+   * Generate the rows for one entity and one concrete attribute.
+   */
+  const generateAttributeRows = (
+    eid: number,
+    entityIndex: number,
+    attr: string,
+    att: string
+  ): void => {
+    const pin = hints.pins?.get(eid)?.[attr];
+    const functions = options.shapeByFetchFunction
+      ? hints.fetchFunctions?.get(attr)
+      : undefined;
+    const derived = derivationOf(att);
+    const panel = panelFor(att);
+    const encounter = encounterOf.get(att);
+
+    // Derived attributes share their first source's dates, panel members
+    // the panel's dates and encounter attributes the visits they were
+    // ordered at, unless a pin needs its own row count
+    const shared =
+      pin?.count === undefined
+        ? derived
+          ? series.get(derived.from[0])?.dates
+          : ((panel && panelDraws.get(panel)?.dates) ??
+            (encounter && selectOrderedVisits(encounter, att, visitsOf(encounter), random)))
+        : undefined;
+
+    let dates: Date[];
+    if (shared && (shared.length > 0 || !pin?.present)) {
+      dates = [...shared];
+    } else {
+      // Pinned entities may need an exact or non-zero number of rows;
+      // otherwise the configured count is drawn, or the count is shaped
+      // to the fetch functions
+      const configured = options.observationCounts[att];
+      let count =
+        pin?.count ??
+        (configured
+          ? configured(random)
+          : functions && !pin
+            ? shapeObservationCount(functions, options.observationsPerEntity, random)
+            : options.observationsPerEntity);
+      if (pin?.present && count < 1) count = 1;
 
-  for (const eid of entities) {
-    for (const att of concreteAttributes) {
       // Generate dates for this entity/attribute combination
-      const dates = generateDates(
-        options.observationsPerEntity,
-        options.dateRange.start,
+      const { dateRange, dateDistribution } = datesOf(att);
+      const range = lived(dateRange);
+      dates = range
+        ? generateDates(count, range.start, range.end, random, dateDistribution)
+        : [];
+
+      // A schedule can run out of slots before the count; pinned rows and
+      // the rows fetch functions need are topped up
+      const needed = pin
+        ? (pin.count ?? (pin.present ? 1 : 0))
+        : functions && !configured
+          ? Math.min(count, minimumObservationCount(functions))
+          : 0;
+      if (range && dates.length < needed) {
+        dates = topUpDates(dates, needed, range.start, range.end, random);
+      }
+    }
+
+    // Generate a value for each date. Derived, panel and trajectory
+    // values already relate to each other or over time, and configured
+    // generators are kept as written, so they aren't reshaped for the
+    // fetch functions.
+    let values: (number | string | null)[];
+    if (pin?.value !== undefined) {
+      values = dates.map(() => pin.value as number | string | null);
+    } else if (derived) {
+      values = deriveValues(att, derived, dates);
+    } else if (panel) {
+      values = panelValues(att, panel, dates);
+    } else {
+      values = independentValues(att, dates, hints.thresholds?.get(attr));
+      if (functions && !trajectoryOf(att) && !hasConfiguredGenerator(att)) {
+        values = shapeObservationValues(functions, values, dates, random);
+      }
+    }
+
+    // Put rows on both sides of the attribute's where-clauses.
+    // The end of the date range stands in for sysdate. Derived, panel
+    // and encounter attributes keep the dates they share with others,
+    // and derived and trajectory values keep their relationships.
+    const attFilters = filters.get(attr);
+    const filterRange = attFilters && lived(datesOf(att).dateRange);
+    const shaped = !pin && !derived && !panel && !encounter && !trajectoryOf(att);
+    if (attFilters && filterRange && shaped) {
+      ({ dates, values } = shapeFilteredObservations(
+        att,
+        attFilters,
+        dates,
+        values,
+        entityIndex,
+        filterRange,
         options.dateRange.end,
         random,
-        options.dateDistribution
-      );
-
-      // Get the value generator for this attribute
-      // Try exact match first, then try pattern match for wildcards
-      const valueGen =
-        options.valueGenerators[att] || options.defaultValueGenerator;
-
-      // Generate a row for each date
-      for (const date of dates) {
-        const val = valueGen(random);
-
-        rows.push({
-          eid,
-          att,
-          dt: formatDate(date, options.dateFormat),
-          val,
-        });
+        () =>
+          valueGeneratorOf(att)(random, {
+            eid,
+            att,
+            dt: filterRange.end,
+            index: 0,
+            history,
+            scratch: {},
+            patient,
+          })
+      ));
+    }
+
+    series.set(att, { dates, values });
+    history[att] = dates.map((dt, index) => ({ dt, val: values[index] }));
+
+    dates.forEach((date, index) => {
+      rows.push({
+        eid,
+        att,
+        dt: formatDate(date, options.dateFormat),
+        val: values[index],
+      });
+    });
+  };
+
+  /**
+   * Values for an attribute on its own: along its trajectory, or drawn
+   * independently from its value generator. With thresholds, some values
+   * are replaced by boundary values.
+   */
+  const independentValues = (
+    att: string,
+    dates: Date[],
+    thresholds?: number[]
+  ): (number | string | null)[] => {
+    const trajectory = trajectoryOf(att);
+    const along =
+      trajectory && generateTrajectoryValues(trajectory, dates, options.dateRange, random);
+    if (along && !thresholds) return along;
+
+    // Get the value generator for this attribute (the cohort's, or the
+    // one for its name), or read the trajectory
+    let valueGen: ValueGenerator = along
+      ? (_random, context) => along[context!.index]
+      : valueGeneratorOf(att);
+    if (thresholds) {
+      valueGen = createThresholdGenerator(thresholds, valueGen, options.thresholdTargetProbability);
+    }
+    const earlier: GeneratedValue[] = [];
+    history[att] = earlier;
+    return dates.map((dt, index) => {
+      const val = valueGen(random, { eid: entityId, att, dt, index, history, scratch, patient });
+      earlier.push({ dt, val });
+      return val;
+    });
+  };
+
+  /**
+   * Values for a derived attribute from its sources' values nearest to
+   * each date. Sources without rows for the entity (not fetched, or no
+   * rows generated) are generated at the derived dates but not emitted,
+   * themselves derived or drawn with their panel where they belong to one.
+   */
+  const deriveValues = (
+    att: string,
+    derived: ResolvedDerivedAttribute,
+    dates: Date[]
+  ): (number | string | null)[] => {
+    // Formulas that draw an age and sex per entity use the patient's
+    let inputs = entityInputs.get(att);
+    if (!inputs) {
+      inputs = (patient ? undefined : derived.entityInputs?.(random)) ?? {};
+      entityInputs.set(att, inputs);
+    }
+    const patientInputs = (date: Date) =>
+      patient && derived.entityInputs
+        ? { age: ageAt(patient, date), female: patient.female ? 1 : 0 }
+        : undefined;
+
+    const sources = derived.from.map((source) => {
+      const generated = series.get(source);
+      if (generated && generated.dates.length > 0) return generated;
+      let hidden = hiddenSeries.get(source);
+      if (!hidden || hidden.dates.length === 0) {
+        const sourceDerivation = derivationOf(source);
+        const sourcePanel = panelFor(source);
+        const values = sourceDerivation
+          ? deriveValues(source, sourceDerivation, dates)
+          : sourcePanel
+            ? panelValues(source, sourcePanel, dates)
+            : independentValues(source, dates);
+        hidden = { dates, values };
+        hiddenSeries.set(source, hidden);
+      }
+      return hidden;
+    });
+
+    return dates.map((date) => {
+      const values: Record<string, number | string | null> = {
+        ...inputs,
+        ...patientInputs(date),
+      };
+      derived.from.forEach((source, k) => {
+        values[source] = valueNearest(sources[k], date);
+      });
+      return derived.derive(values, random);
+    });
+  };
+
+  /**
+   * Values for a panel member. The first member generated for an entity
+   * draws the whole panel at its dates; later members read their column.
+   */
+  const panelValues = (
+    att: string,
+    panel: ResolvedCorrelatedPanel,
+    dates: Date[]
+  ): number[] => {
+    const column = panel.attributes.indexOf(att);
+    const drawn = panelDraws.get(panel);
+    if (
+      drawn &&
+      drawn.dates.length === dates.length &&
+      drawn.dates.every((date, i) => date.getTime() === dates[i].getTime())
+    ) {
+      return drawn.rows.map((row) => row[column]);
+    }
+
+    const rows = dates.map(() => drawCorrelatedValues(panel, random));
+    if (!drawn) panelDraws.set(panel, { dates, rows });
+    return rows.map((row) => row[column]);
+  };
+
+  for (const [entityIndex, eid] of entities.entries()) {
+    rows = [];
+    series = new Map();
+    hiddenSeries = new Map();
+    panelDraws = new Map();
+    encounterVisits = new Map();
+    entityInputs = new Map();
+    cohort = hints.cohorts?.get(eid);
+    entityId = eid;
+    history = {};
+    scratch = {};
+
+    patient = hints.patients?.get(eid);
+    if (patient && demographics && hints.includeDemographics) {
+      for (const { att, dt, val } of patientObservations(demographics, patient)) {
+        rows.push({ eid, att, dt: formatDate(dt, options.dateFormat), val });
+        history[att] = [{ dt, val }];
+      }
+    }
+
+    const medicationRange = medications.length > 0 ? lived(options.dateRange) : undefined;
+    for (const medication of medications) {
+      const episodes = medicationRange
+        ? generateMedicationEpisodes(medication, medicationRange, random)
+        : [];
+      for (const { att, dt, val } of medicationObservations(medication, episodes)) {
+        if (!isFetched(att)) continue;
+        rows.push({ eid, att, dt: formatDate(dt, options.dateFormat), val });
+        (history[att] ??= []).push({ dt, val });
+      }
+    }
+
+    for (let i = 0; i < extracted.length; i++) {
+      const attr = extracted[i];
+      if (demographicAttributes.has(attr) || medicationFetches.has(attr)) continue;
+
+      let concrete = [sharedExpansions[i]];
+      if (perEntityExpansion && isWildcardAttribute(attr)) {
+        concrete = expandWildcardAttributeDistinct(
+          attr,
+          resolveExpansionCount(options.wildcardExpansionsPerEntity, random),
+          vocabularyMatches[i],
+          random
+        );
+      }
+
+      for (const att of concrete) {
+        generateAttributeRows(eid, entityIndex, attr, att);
       }
     }
+    yield { eid, rows };
   }
+}
 
-  return rows;
+/**
+ * Describe a generated EADV-shaped table.
+ *
+ * The `val` column is numeric when every non-null value is a number,
+ * and a string column otherwise.
+ *
+ * @param name - Table name
+ * @param attributes - Attributes fetched from the table
+ * @param rows - Generated rows of the table
+ * @returns Table schema
+ */
+export function describeEadvTable(
+  name: string,
+  attributes: Set<string>,
+  rows: EadvRow[]
+): TableSchema {
+  const numericVal = rows.every((row) => row.val === null || typeof row.val === 'number');
+
+  return {
+    name,
+    columns: [
+      { name: 'eid', type: 'integer' },
+      { name: 'att', type: 'string' },
+      { name: 'dt', type: 'date' },
+      { name: 'val', type: numericVal ? 'number' : 'string' },
+    ],
+    attributes: Array.from(attributes),
+    rowCount: rows.length,
+  };
 }
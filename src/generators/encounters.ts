@@ -0,0 +1,97 @@
+/**
+ * Encounters
+ *
+ * Attributes measured together: each entity gets a set of visits per
+ * panel, and every attribute of the panel ordered at a visit is
+ * observed on the visit date. Rules that join attributes on the same
+ * date only fire when the dates line up like this.
+ */
+
+import {
+  DateDistributionSetting,
+  EncounterPanelSpec,
+  GeneratorSpecIssue,
+  ResolvedEncounterPanel,
+} from '../models/types';
+import { GeneratorSpecError, collectIssues } from './generator-spec';
+import { resolveObservationCount } from './observation-counts';
+import { resolveDateSettings } from './attribute-dates';
+
+/**
+ * Resolve encounter panel specs.
+ *
+ * @param specs - Panel specs
+ * @param defaults - Global date range and distribution
+ * @param path - Path of the list, used in error messages
+ * @returns Resolved panels
+ * @throws GeneratorSpecError listing every problem
+ */
+export function resolveEncounterPanels(
+  specs: EncounterPanelSpec[],
+  defaults: { dateRange: { start: Date; end: Date }; dateDistribution: DateDistributionSetting },
+  path: string
+): ResolvedEncounterPanel[] {
+  const issues: GeneratorSpecIssue[] = [];
+  const seen = new Set<string>();
+
+  const panels = specs.map((spec, i): ResolvedEncounterPanel => {
+    const at = `${path}[${i}]`;
+    const attributes = Array.isArray(spec.attributes) ? spec.attributes : [];
+
+    if (attributes.length === 0) {
+      issues.push({ path: `${at}.attributes`, message: 'must be a non-empty array' });
+    }
+    attributes.forEach((att, k) => {
+      if (seen.has(att)) {
+        issues.push({ path: `${at}.attributes[${k}]`, message: `'${att}' is in another panel` });
+      }
+      seen.add(att);
+    });
+
+    const orderProbability = spec.orderProbability ?? {};
+    for (const [att, p] of Object.entries(orderProbability)) {
+      if (!attributes.includes(att)) {
+        issues.push({ path: `${at}.orderProbability.${att}`, message: 'is not in the panel' });
+      } else if (!(p >= 0 && p <= 1)) {
+        issues.push({ path: `${at}.orderProbability.${att}`, message: 'must be between 0 and 1' });
+      }
+    }
+
+    const visits =
+      spec.visits === undefined
+        ? undefined
+        : collectIssues(() => resolveObservationCount(spec.visits!, `${at}.visits`), issues);
+
+    return {
+      name: spec.name,
+      attributes,
+      orderProbability,
+      visits,
+      ...resolveDateSettings(spec, defaults, at, issues),
+    };
+  });
+
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+  return panels;
+}
+
+/**
+ * Pick the visits at which an attribute is ordered.
+ *
+ * @param panel - Resolved panel
+ * @param att - Attribute name
+ * @param visits - The entity's visit dates for the panel
+ * @param random - Seeded random function
+ * @returns Dates of the visits the attribute was ordered at
+ */
+export function selectOrderedVisits(
+  panel: ResolvedEncounterPanel,
+  att: string,
+  visits: Date[],
+  random: () => number
+): Date[] {
+  const probability = panel.orderProbability[att] ?? 1;
+  return probability >= 1 ? [...visits] : visits.filter(() => random() < probability);
+}
@@ -0,0 +1,292 @@
+/**
+ * Fault Injection
+ *
+ * Real extracts are never clean: rows are loaded twice, labs report
+ * "<5" instead of a number, a site sends creatinine in mg/dL, dates are
+ * keyed wrongly. This stage dirties the generated rows at configurable
+ * rates and logs every fault, so tests can check that rules handle or
+ * ignore each one.
+ */
+
+import {
+  EadvRow,
+  FaultSpec,
+  FaultType,
+  GeneratorSpecIssue,
+  InjectedFault,
+  ResolvedFaults,
+  RoutRow,
+} from '../models/types';
+import { GeneratorSpecError } from './generator-spec';
+import { formatDate } from '../utils/date-utils';
+import { matchesAttributePattern } from '../extractor';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const DEFAULT_SENTINELS = ['<5', '>90', 'see comment'];
+
+/**
+ * Unit factor of attributes without one (e.g. g/L reported as mg/L)
+ */
+const DEFAULT_UNIT_FACTOR = 1000;
+
+/**
+ * Factors making a value implausible
+ */
+const OUTLIER_FACTORS = [10, 100, -1];
+
+/**
+ * Furthest a bad date is moved outside the range, in days
+ */
+const MAX_DATE_SHIFT_DAYS = 365;
+
+/**
+ * How far a conflicting value is from the original, as a share of it
+ */
+const CONFLICT_SPREAD = { min: 0.1, max: 0.5 };
+
+const RATES = [
+  'duplicates',
+  'conflicts',
+  'nulls',
+  'sentinels',
+  'outliers',
+  'unitMixups',
+  'outOfRangeDates',
+  'futureDates',
+  'missingRoutRows',
+] as const;
+
+/**
+ * Resolve fault settings.
+ *
+ * @param spec - Fault rates and settings
+ * @param path - Path of the option, used in error messages
+ * @returns Resolved faults
+ * @throws GeneratorSpecError listing every problem
+ */
+export function resolveFaults(spec: FaultSpec, path: string): ResolvedFaults {
+  const issues: GeneratorSpecIssue[] = [];
+
+  for (const key of RATES) {
+    const rate = spec[key];
+    if (rate !== undefined && !(rate >= 0 && rate <= 1)) {
+      issues.push({ path: `${path}.${key}`, message: 'must be between 0 and 1' });
+    }
+  }
+  const sum = (...rates: (number | undefined)[]) => rates.reduce<number>((a, r) => a + (r ?? 0), 0);
+  if (sum(spec.nulls, spec.sentinels, spec.outliers, spec.unitMixups) > 1) {
+    issues.push({ path, message: 'nulls, sentinels, outliers and unitMixups must add up to <= 1' });
+  }
+  if (sum(spec.outOfRangeDates, spec.futureDates) > 1) {
+    issues.push({ path, message: 'outOfRangeDates and futureDates must add up to <= 1' });
+  }
+  const sentinels = spec.sentinelValues;
+  const isStringList = (values: unknown) =>
+    Array.isArray(values) && values.length > 0 && values.every((v) => typeof v === 'string');
+  if (sentinels !== undefined && !isStringList(sentinels)) {
+    issues.push({
+      path: `${path}.sentinelValues`,
+      message: 'must be a non-empty array of strings',
+    });
+  }
+  for (const [att, factor] of Object.entries(spec.unitFactors ?? {})) {
+    if (!(typeof factor === 'number' && Number.isFinite(factor) && factor > 0)) {
+      issues.push({ path: `${path}.unitFactors.${att}`, message: 'must be a number > 0' });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+
+  return {
+    duplicates: spec.duplicates ?? 0,
+    conflicts: spec.conflicts ?? 0,
+    nulls: spec.nulls ?? 0,
+    sentinels: spec.sentinels ?? 0,
+    sentinelValues: sentinels ?? DEFAULT_SENTINELS,
+    outliers: spec.outliers ?? 0,
+    unitMixups: spec.unitMixups ?? 0,
+    unitFactors: spec.unitFactors ?? {},
+    outOfRangeDates: spec.outOfRangeDates ?? 0,
+    futureDates: spec.futureDates ?? 0,
+    missingRoutRows: spec.missingRoutRows ?? 0,
+    attributes: spec.attributes,
+  };
+}
+
+/**
+ * Pick a fault type with one draw, each with its own rate.
+ */
+function pickFault(
+  candidates: [FaultType, number][],
+  random: () => number
+): FaultType | undefined {
+  const u = random();
+  let cumulative = 0;
+  for (const [type, rate] of candidates) {
+    cumulative += rate;
+    if (u < cumulative) return type;
+  }
+  return undefined;
+}
+
+/**
+ * Round a value to as many decimals as another.
+ */
+function roundLike(value: number, like: number): number {
+  const decimals = (String(like).split('.')[1] ?? '').length;
+  return Number(value.toFixed(Math.min(decimals, 10)));
+}
+
+/**
+ * Inject faults into the rows of an EADV-shaped table. Rows are visited
+ * in order, so the same rows and random function give the same faults
+ * whether the table is processed whole or entity by entity.
+ *
+ * @param table - Table name, recorded in the log
+ * @param rows - Generated rows (not modified)
+ * @param faults - Resolved faults
+ * @param dateRange - Date range of the observations
+ * @param dateFormat - Format of the dates
+ * @param random - Random function
+ * @returns The rows with faults, and the log of injected faults
+ */
+export function injectEadvFaults(
+  table: string,
+  rows: EadvRow[],
+  faults: ResolvedFaults,
+  dateRange: { start: Date; end: Date },
+  dateFormat: 'iso' | 'oracle' | 'mssql',
+  random: () => number
+): { rows: EadvRow[]; faults: InjectedFault[] } {
+  const result: EadvRow[] = [];
+  const log: InjectedFault[] = [];
+  const valueFaults: [FaultType, number][] = [
+    ['null', faults.nulls],
+    ['sentinel', faults.sentinels],
+    ['outlier', faults.outliers],
+    ['unit-mixup', faults.unitMixups],
+  ];
+  const dateFaults: [FaultType, number][] = [
+    ['out-of-range-date', faults.outOfRangeDates],
+    ['future-date', faults.futureDates],
+  ];
+  const hasValueFaults = valueFaults.some(([, rate]) => rate > 0);
+  const hasDateFaults = dateFaults.some(([, rate]) => rate > 0);
+
+  const unitFactor = (att: string) => {
+    const match = Object.keys(faults.unitFactors).find((p) => matchesAttributePattern(p, att));
+    return match ? faults.unitFactors[match] : DEFAULT_UNIT_FACTOR;
+  };
+
+  const corruptValue = (type: FaultType, row: EadvRow): number | string | null | undefined => {
+    const { val } = row;
+    switch (type) {
+      case 'null':
+        return val === null ? undefined : null;
+      case 'sentinel':
+        return faults.sentinelValues[Math.floor(random() * faults.sentinelValues.length)];
+      case 'outlier': {
+        if (typeof val !== 'number') return undefined;
+        const factor = OUTLIER_FACTORS[Math.floor(random() * OUTLIER_FACTORS.length)];
+        return roundLike(val * factor, val);
+      }
+      case 'unit-mixup':
+        return typeof val === 'number'
+          ? Number((val * unitFactor(row.att)).toPrecision(6))
+          : undefined;
+      default:
+        return undefined;
+    }
+  };
+
+  const shiftDate = (type: FaultType): string => {
+    const days = 1 + random() * (MAX_DATE_SHIFT_DAYS - 1);
+    const ms =
+      type === 'future-date'
+        ? dateRange.end.getTime() + days * MS_PER_DAY
+        : dateRange.start.getTime() - days * MS_PER_DAY;
+    return formatDate(new Date(ms), dateFormat);
+  };
+
+  for (const row of rows) {
+    if (faults.attributes && !faults.attributes.some((p) => matchesAttributePattern(p, row.att))) {
+      result.push(row);
+      continue;
+    }
+
+    let faulty = row;
+    const base = { table, eid: row.eid, att: row.att };
+
+    const valueFault = hasValueFaults ? pickFault(valueFaults, random) : undefined;
+    const val = valueFault && corruptValue(valueFault, row);
+    if (valueFault && val !== undefined) {
+      faulty = { ...faulty, val };
+      log.push({ type: valueFault, ...base, dt: faulty.dt, val, original: { val: row.val } });
+    }
+
+    const dateFault = hasDateFaults ? pickFault(dateFaults, random) : undefined;
+    if (dateFault) {
+      faulty = { ...faulty, dt: shiftDate(dateFault) };
+      log.push({
+        type: dateFault,
+        ...base,
+        dt: faulty.dt,
+        val: faulty.val,
+        original: { dt: row.dt },
+      });
+    }
+
+    result.push(faulty);
+
+    if (faults.duplicates > 0 && random() < faults.duplicates) {
+      result.push({ ...faulty });
+      log.push({ type: 'duplicate', ...base, dt: faulty.dt, val: faulty.val });
+    }
+
+    if (faults.conflicts > 0 && random() < faults.conflicts && typeof faulty.val === 'number') {
+      const spread = CONFLICT_SPREAD.min + random() * (CONFLICT_SPREAD.max - CONFLICT_SPREAD.min);
+      const sign = random() < 0.5 ? -1 : 1;
+      const conflicting = roundLike(faulty.val * (1 + sign * spread), faulty.val);
+      if (conflicting !== faulty.val) {
+        result.push({ ...faulty, val: conflicting });
+        log.push({ type: 'conflict', ...base, dt: faulty.dt, val: conflicting });
+      }
+    }
+  }
+
+  return { rows: result, faults: log };
+}
+
+/**
+ * Remove rows of a rout_* table.
+ *
+ * @param table - Table name, recorded in the log
+ * @param rows - Generated rows (not modified)
+ * @param faults - Resolved faults
+ * @param random - Random function
+ * @returns The remaining rows, and the log of removed rows
+ */
+export function injectRoutFaults(
+  table: string,
+  rows: RoutRow[],
+  faults: ResolvedFaults,
+  random: () => number
+): { rows: RoutRow[]; faults: InjectedFault[] } {
+  if (faults.missingRoutRows === 0) {
+    return { rows, faults: [] };
+  }
+
+  const result: RoutRow[] = [];
+  const log: InjectedFault[] = [];
+  for (const row of rows) {
+    if (random() < faults.missingRoutRows) {
+      log.push({ type: 'missing-rout-row', table, eid: row.eid, original: { row } });
+    } else {
+      result.push(row);
+    }
+  }
+  return { rows: result, faults: log };
+}
@@ -0,0 +1,245 @@
+/**
+ * Filter Shaper
+ *
+ * Places rows on both sides of fetch statement where-clauses such as
+ * `.where(dt > sysdate - 90)` or `.where(val > 0)`, so the filter logic
+ * in the compiled SQL is exercised.
+ */
+
+import { EadvRow, FilterExpectation } from '../models/types';
+import {
+  Expression,
+  collectComparisons,
+  evaluatePredicate,
+  tryParsePredicate,
+} from '../predicates';
+import { matchesAttributePattern } from '../extractor';
+import { getBoundaryValues } from './value-generators';
+import { randomPick } from '../utils/random';
+import { parseFormattedDate } from '../utils/date-utils';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Number of random in-range dates tried per row, in addition to the
+ * dates either side of each window boundary
+ */
+const RANDOM_DATE_CANDIDATES = 3;
+
+/**
+ * Number of values drawn from the attribute's generator to find the
+ * range that boundary values must fall in
+ */
+const RANGE_SAMPLES = 20;
+
+const COMPARISON_OPERATORS = new Set(['<', '<=', '>', '>=', '=', '!=']);
+
+/**
+ * Collect every numeric literal in an expression.
+ */
+function collectNumbers(expr: Expression): number[] {
+  switch (expr.kind) {
+    case 'literal':
+      return typeof expr.value === 'number' ? [expr.value] : [];
+    case 'unary':
+      return collectNumbers(expr.operand);
+    case 'binary':
+      return [...collectNumbers(expr.left), ...collectNumbers(expr.right)];
+    case 'between':
+      return [expr.operand, expr.lower, expr.upper].flatMap(collectNumbers);
+    case 'in':
+      return [expr.operand, ...expr.values].flatMap(collectNumbers);
+    case 'isNull':
+      return collectNumbers(expr.operand);
+    case 'call':
+      return expr.args.flatMap(collectNumbers);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Collect the numeric literals compared against `dt`.
+ * For relative windows like `dt > sysdate - 90` these are the day offsets.
+ */
+function collectDateOffsets(expr: Expression): number[] {
+  const isDt = (e: Expression) => e.kind === 'variable' && e.name === 'dt';
+  switch (expr.kind) {
+    case 'unary':
+      return collectDateOffsets(expr.operand);
+    case 'binary':
+      if (COMPARISON_OPERATORS.has(expr.operator)) {
+        if (isDt(expr.left)) return collectNumbers(expr.right);
+        if (isDt(expr.right)) return collectNumbers(expr.left);
+        return [];
+      }
+      return [...collectDateOffsets(expr.left), ...collectDateOffsets(expr.right)];
+    case 'between':
+      return isDt(expr.operand) ? [expr.lower, expr.upper].flatMap(collectNumbers) : [];
+    case 'call':
+      return expr.args.flatMap(collectDateOffsets);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Evaluate a fetch filter against a single row.
+ *
+ * @param filter - Parsed where-clause
+ * @param row - Row fields visible to the filter
+ * @param sysdate - Value used for `sysdate`
+ * @returns True if the row passes the filter
+ */
+export function rowPassesFilter(
+  filter: Expression,
+  row: { att: string; dt: Date; val: number | string | null },
+  sysdate: Date
+): boolean {
+  return evaluatePredicate(filter, {
+    variables: { att: row.att, dt: row.dt, val: row.val },
+    sysdate,
+  });
+}
+
+/**
+ * Adjust dates and values so rows alternate between passing and
+ * failing the attribute's fetch filters.
+ *
+ * Rows that already have the wanted outcome are kept as they are.
+ * Otherwise the row is moved to a date either side of a window boundary
+ * (e.g. sysdate - 89 / sysdate - 91 for `dt > sysdate - 90`) or given a
+ * value either side of a value threshold. Dates outside the range and
+ * values outside the span of the attribute's generator are never picked,
+ * so a row keeps its outcome when no plausible value has the wanted one.
+ * Results are re-sorted with the most recent first.
+ *
+ * @param att - Concrete attribute name
+ * @param filters - Parsed where-clauses applied to the attribute
+ * @param dates - Observation dates (most recent first)
+ * @param values - Generated values, aligned with dates
+ * @param offset - Per-entity offset so single-row entities also alternate
+ * @param dateRange - Configured date range
+ * @param sysdate - Value used for `sysdate`
+ * @param random - Seeded random function
+ * @param draw - Draws a value from the attribute's generator
+ * @returns Adjusted dates and values
+ */
+export function shapeFilteredObservations(
+  att: string,
+  filters: Expression[],
+  dates: Date[],
+  values: (number | string | null)[],
+  offset: number,
+  dateRange: { start: Date; end: Date },
+  sysdate: Date,
+  random: () => number,
+  draw: () => number | string | null
+): { dates: Date[]; values: (number | string | null)[] } {
+  const rows = dates.map((dt, i) => ({ dt, val: values[i] }));
+  const rangeMs = dateRange.end.getTime() - dateRange.start.getTime();
+
+  // Span of the generator's numeric values, sampled when first needed
+  let span: { min: number; max: number } | null | undefined;
+  const inSpan = (val: number): boolean => {
+    if (span === undefined) {
+      const samples = [...values, ...Array.from({ length: RANGE_SAMPLES }, draw)].filter(
+        (v): v is number => typeof v === 'number'
+      );
+      span = samples.length > 0 ? { min: Math.min(...samples), max: Math.max(...samples) } : null;
+    }
+    return span !== null && val >= span.min && val <= span.max;
+  };
+
+  rows.forEach((row, i) => {
+    const filter = filters[Math.floor((i + offset) / 2) % filters.length];
+    const wantPass = (i + offset) % 2 === 0;
+
+    if (rowPassesFilter(filter, { att, ...row }, sysdate) === wantPass) {
+      return;
+    }
+
+    const dateCandidates = [row.dt];
+    for (const days of collectDateOffsets(filter)) {
+      dateCandidates.push(
+        new Date(sysdate.getTime() - (days - 1) * MS_PER_DAY),
+        new Date(sysdate.getTime() - (days + 1) * MS_PER_DAY)
+      );
+    }
+    for (let k = 0; k < RANDOM_DATE_CANDIDATES; k++) {
+      dateCandidates.push(new Date(dateRange.start.getTime() + random() * rangeMs));
+    }
+    const inRange = dateCandidates.filter(
+      (dt) => dt >= dateRange.start && dt <= dateRange.end
+    );
+
+    const valueCandidates: (number | string | null)[] = [row.val];
+    for (const comparison of collectComparisons(filter)) {
+      if (comparison.variable === 'val') {
+        valueCandidates.push(...getBoundaryValues(comparison.value).filter(inSpan));
+      }
+    }
+
+    const matches: { dt: Date; val: number | string | null }[] = [];
+    for (const dt of inRange) {
+      for (const val of valueCandidates) {
+        if (rowPassesFilter(filter, { att, dt, val }, sysdate) === wantPass) {
+          matches.push({ dt, val });
+        }
+      }
+    }
+
+    if (matches.length > 0) {
+      rows[i] = randomPick(random, matches);
+    }
+  });
+
+  rows.sort((a, b) => b.dt.getTime() - a.dt.getTime());
+
+  return {
+    dates: rows.map((r) => r.dt),
+    values: rows.map((r) => r.val),
+  };
+}
+
+/**
+ * Record, for every row of a filtered attribute, whether it passes
+ * each where-clause applied to that attribute.
+ *
+ * @param rows - Generated EADV rows
+ * @param fetchFilters - Map of extracted attribute -> where-clauses
+ * @param dateFormat - Format of the row dates
+ * @param sysdate - Value used for `sysdate`
+ * @returns One expectation per row and filter
+ */
+export function collectFilterExpectations(
+  rows: EadvRow[],
+  fetchFilters: Map<string, string[]>,
+  dateFormat: 'iso' | 'oracle' | 'mssql',
+  sysdate: Date
+): FilterExpectation[] {
+  const parsed = Array.from(fetchFilters).flatMap(([pattern, predicates]) =>
+    predicates
+      .map((predicate) => ({ pattern, predicate, expr: tryParsePredicate(predicate) }))
+      .filter((f): f is { pattern: string; predicate: string; expr: Expression } => !!f.expr)
+  );
+
+  const expectations: FilterExpectation[] = [];
+  for (const row of rows) {
+    for (const filter of parsed) {
+      if (!matchesAttributePattern(filter.pattern, row.att)) continue;
+      expectations.push({
+        eid: row.eid,
+        att: row.att,
+        dt: row.dt,
+        predicate: filter.predicate,
+        passes: rowPassesFilter(
+          filter.expr,
+          { att: row.att, dt: parseFormattedDate(row.dt, dateFormat), val: row.val },
+          sysdate
+        ),
+      });
+    }
+  }
+  return expectations;
+}
@@ -0,0 +1,461 @@
+/**
+ * Generator Specs
+ *
+ * Compiles declarative, serialisable generator specs (e.g. loaded from a
+ * JSON or YAML profile) into ValueGenerator functions, validating them
+ * first so a bad profile fails with the path of every problem.
+ */
+
+import {
+  GeneratorSpec,
+  GeneratorSpecIssue,
+  ValueGenerator,
+  ValueGeneratorSetting,
+} from '../models/types';
+import {
+  createBetaGenerator,
+  createBoundedGenerator,
+  createDiscreteGenerator,
+  createGammaGenerator,
+  createLogNormalGenerator,
+  createMixtureGenerator,
+  createNormalGenerator,
+  createNullableGenerator,
+  createPoissonGenerator,
+  createRangeGenerator,
+  createTruncatedNormalGenerator,
+  createWeightedGenerator,
+  createZeroInflatedGenerator,
+} from './value-generators';
+
+const SPEC_KINDS = [
+  'uniform',
+  'normal',
+  'lognormal',
+  'gamma',
+  'beta',
+  'poisson',
+  'discrete',
+  'constant',
+  'sequence',
+  'nullable',
+  'zero-inflated',
+  'composite',
+];
+
+/**
+ * Thrown when a generator spec is invalid. Lists every problem found.
+ */
+export class GeneratorSpecError extends Error {
+  readonly issues: GeneratorSpecIssue[];
+
+  constructor(issues: GeneratorSpecIssue[]) {
+    super(
+      'Invalid generator spec:\n' +
+        issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n')
+    );
+    this.name = 'GeneratorSpecError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Run a resolver, collecting the issues it throws instead of stopping.
+ *
+ * @param resolve - Function that may throw a GeneratorSpecError
+ * @param issues - Problems found so far; the thrown issues are added
+ * @returns The resolver's result, or undefined if it threw
+ */
+export function collectIssues<T>(resolve: () => T, issues: GeneratorSpecIssue[]): T | undefined {
+  try {
+    return resolve();
+  } catch (error) {
+    if (!(error instanceof GeneratorSpecError)) throw error;
+    issues.push(...error.issues);
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || typeof value === 'string' || isFiniteNumber(value);
+}
+
+/**
+ * Validate a generator spec.
+ *
+ * @param spec - Spec to validate (any value, e.g. parsed JSON)
+ * @param path - Path of the spec, used in issue paths
+ * @returns Problems found (empty if the spec is valid)
+ */
+export function validateGeneratorSpec(spec: unknown, path: string = 'spec'): GeneratorSpecIssue[] {
+  const issues: GeneratorSpecIssue[] = [];
+  const issue = (at: string, message: string) => issues.push({ path: at, message });
+
+  if (!isObject(spec)) {
+    issue(path, 'must be a generator function or a spec object');
+    return issues;
+  }
+  if (typeof spec.dist !== 'string' || !SPEC_KINDS.includes(spec.dist)) {
+    issue(`${path}.dist`, `must be one of ${SPEC_KINDS.map((k) => `'${k}'`).join(', ')}`);
+    return issues;
+  }
+
+  const number = (key: string, required: boolean) => {
+    if (spec[key] === undefined) {
+      if (required) issue(`${path}.${key}`, 'is required');
+      return;
+    }
+    if (!isFiniteNumber(spec[key])) issue(`${path}.${key}`, 'must be a number');
+  };
+  const positive = (key: string) => {
+    number(key, true);
+    if (isFiniteNumber(spec[key]) && (spec[key] as number) <= 0) {
+      issue(`${path}.${key}`, 'must be > 0');
+    }
+  };
+  const decimals = () => {
+    const value = spec.decimals;
+    if (value === undefined) return;
+    if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > 10) {
+      issue(`${path}.decimals`, 'must be an integer from 0 to 10');
+    }
+  };
+  const bounds = () => {
+    if (isFiniteNumber(spec.min) && isFiniteNumber(spec.max) && spec.min > spec.max) {
+      issue(`${path}.max`, `must be >= min (${spec.min})`);
+    }
+  };
+  const values = (required: boolean) => {
+    if (spec.values === undefined) {
+      if (required) issue(`${path}.values`, 'is required');
+      return;
+    }
+    if (!Array.isArray(spec.values) || spec.values.length === 0) {
+      issue(`${path}.values`, 'must be a non-empty array');
+      return;
+    }
+    spec.values.forEach((value, i) => {
+      if (!isScalar(value)) issue(`${path}.values[${i}]`, 'must be a number, string or null');
+    });
+  };
+  const weights = (list: unknown[], at: string) => {
+    list.forEach((weight, i) => {
+      if (!isFiniteNumber(weight) || weight < 0) {
+        issue(`${at}[${i}]`, 'must be a number >= 0');
+      }
+    });
+    if (list.every((weight) => weight === 0)) {
+      issue(at, 'must not all be 0');
+    }
+  };
+
+  switch (spec.dist) {
+    case 'uniform':
+      number('min', true);
+      number('max', true);
+      bounds();
+      decimals();
+      break;
+
+    case 'normal':
+      number('mean', true);
+      number('sd', true);
+      if (isFiniteNumber(spec.sd) && spec.sd < 0) issue(`${path}.sd`, 'must be >= 0');
+      number('min', false);
+      number('max', false);
+      bounds();
+      decimals();
+      break;
+
+    case 'lognormal':
+      positive('median');
+      number('sdLog', true);
+      if (isFiniteNumber(spec.sdLog) && spec.sdLog < 0) issue(`${path}.sdLog`, 'must be >= 0');
+      number('min', false);
+      number('max', false);
+      bounds();
+      decimals();
+      break;
+
+    case 'gamma':
+      positive('shape');
+      positive('scale');
+      number('min', false);
+      number('max', false);
+      bounds();
+      decimals();
+      break;
+
+    case 'beta':
+      positive('alpha');
+      positive('beta');
+      number('min', false);
+      number('max', false);
+      bounds();
+      decimals();
+      break;
+
+    case 'poisson':
+      number('lambda', true);
+      if (isFiniteNumber(spec.lambda) && spec.lambda < 0) issue(`${path}.lambda`, 'must be >= 0');
+      break;
+
+    case 'discrete':
+      values(true);
+      if (spec.weights !== undefined) {
+        if (!Array.isArray(spec.weights)) {
+          issue(`${path}.weights`, 'must be an array');
+        } else if (Array.isArray(spec.values) && spec.weights.length !== spec.values.length) {
+          issue(`${path}.weights`, `must have one weight per value (${spec.values.length})`);
+        } else {
+          weights(spec.weights, `${path}.weights`);
+        }
+      }
+      break;
+
+    case 'constant':
+      if (!('value' in spec)) {
+        issue(`${path}.value`, 'is required');
+      } else if (!isScalar(spec.value)) {
+        issue(`${path}.value`, 'must be a number, string or null');
+      }
+      break;
+
+    case 'sequence':
+      if (spec.values !== undefined && (spec.start !== undefined || spec.step !== undefined)) {
+        issue(path, "give either 'values' or 'start'/'step', not both");
+      } else if (spec.values !== undefined) {
+        values(true);
+      } else {
+        number('start', true);
+        number('step', false);
+      }
+      break;
+
+    case 'nullable':
+      number('nullProbability', true);
+      if (
+        isFiniteNumber(spec.nullProbability) &&
+        (spec.nullProbability < 0 || spec.nullProbability > 1)
+      ) {
+        issue(`${path}.nullProbability`, 'must be between 0 and 1');
+      }
+      if (spec.of === undefined) {
+        issue(`${path}.of`, 'is required');
+      } else {
+        issues.push(...validateGeneratorSpec(spec.of, `${path}.of`));
+      }
+      break;
+
+    case 'zero-inflated':
+      number('zeroProbability', true);
+      if (
+        isFiniteNumber(spec.zeroProbability) &&
+        (spec.zeroProbability < 0 || spec.zeroProbability > 1)
+      ) {
+        issue(`${path}.zeroProbability`, 'must be between 0 and 1');
+      }
+      if (spec.of === undefined) {
+        issue(`${path}.of`, 'is required');
+      } else {
+        issues.push(...validateGeneratorSpec(spec.of, `${path}.of`));
+      }
+      break;
+
+    case 'composite':
+      if (!Array.isArray(spec.components) || spec.components.length === 0) {
+        issue(`${path}.components`, 'must be a non-empty array');
+        break;
+      }
+      spec.components.forEach((component, i) => {
+        const at = `${path}.components[${i}]`;
+        if (!isObject(component)) {
+          issue(at, 'must be an object with a generator');
+          return;
+        }
+        if (
+          component.weight !== undefined &&
+          (!isFiniteNumber(component.weight) || component.weight < 0)
+        ) {
+          issue(`${at}.weight`, 'must be a number >= 0');
+        }
+        if (component.generator === undefined) {
+          issue(`${at}.generator`, 'is required');
+        } else {
+          issues.push(...validateGeneratorSpec(component.generator, `${at}.generator`));
+        }
+      });
+      if (spec.components.every((c) => isObject(c) && c.weight === 0)) {
+        issue(`${path}.components`, 'weights must not all be 0');
+      }
+      break;
+  }
+
+  return issues;
+}
+
+/**
+ * Keep a generator within optional bounds.
+ */
+function bounded(generator: ValueGenerator, min?: number, max?: number): ValueGenerator {
+  if (min === undefined && max === undefined) return generator;
+  return createBoundedGenerator(generator, min ?? -Infinity, max ?? Infinity);
+}
+
+/**
+ * Build a generator from a spec that has already been validated.
+ */
+function buildGenerator(spec: GeneratorSpec): ValueGenerator {
+  switch (spec.dist) {
+    case 'uniform':
+      return createRangeGenerator(spec.min, spec.max, spec.decimals ?? 0);
+
+    case 'normal':
+      return spec.min === undefined && spec.max === undefined
+        ? createNormalGenerator(spec.mean, spec.sd, spec.decimals ?? 1)
+        : createTruncatedNormalGenerator(
+            spec.mean,
+            spec.sd,
+            spec.min ?? -Infinity,
+            spec.max ?? Infinity,
+            spec.decimals ?? 1
+          );
+
+    case 'lognormal':
+      return bounded(
+        createLogNormalGenerator(spec.median, spec.sdLog, spec.decimals ?? 1),
+        spec.min,
+        spec.max
+      );
+
+    case 'gamma':
+      return bounded(
+        createGammaGenerator(spec.shape, spec.scale, spec.decimals ?? 1),
+        spec.min,
+        spec.max
+      );
+
+    case 'beta':
+      return createBetaGenerator(
+        spec.alpha,
+        spec.beta,
+        spec.min ?? 0,
+        spec.max ?? 1,
+        spec.decimals ?? 2
+      );
+
+    case 'poisson':
+      return createPoissonGenerator(spec.lambda);
+
+    case 'discrete':
+      return spec.weights
+        ? createWeightedGenerator(spec.values, spec.weights)
+        : createDiscreteGenerator(spec.values);
+
+    case 'constant':
+      return () => spec.value;
+
+    case 'sequence': {
+      let index = 0;
+      if (spec.values) {
+        const values = spec.values;
+        return () => values[index++ % values.length];
+      }
+      const start = spec.start ?? 0;
+      const step = spec.step ?? 1;
+      return () => start + step * index++;
+    }
+
+    case 'nullable':
+      return createNullableGenerator(spec.nullProbability, buildGenerator(spec.of));
+
+    case 'zero-inflated':
+      return createZeroInflatedGenerator(spec.zeroProbability, buildGenerator(spec.of));
+
+    case 'composite':
+      return createMixtureGenerator(
+        spec.components.map((c) => ({
+          weight: c.weight ?? 1,
+          generator: buildGenerator(c.generator),
+        }))
+      );
+  }
+}
+
+/**
+ * Compile a generator spec into a ValueGenerator.
+ *
+ * Sequence generators keep their position across calls, so one compiled
+ * sequence numbers every value it produces across all entities.
+ *
+ * @param spec - Generator spec
+ * @param path - Path of the spec, used in error messages
+ * @returns ValueGenerator function
+ * @throws GeneratorSpecError if the spec is invalid
+ *
+ * @example
+ * ```typescript
+ * const egfr = compileGeneratorSpec({
+ *   dist: 'normal', mean: 65, sd: 20, min: 5, max: 130, decimals: 0,
+ * });
+ * ```
+ */
+export function compileGeneratorSpec(spec: GeneratorSpec, path: string = 'spec'): ValueGenerator {
+  const issues = validateGeneratorSpec(spec, path);
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+  return buildGenerator(spec);
+}
+
+/**
+ * Resolve a generator setting: functions are returned as they are,
+ * specs are compiled.
+ *
+ * @param setting - Generator function or spec
+ * @param path - Path of the setting, used in error messages
+ * @returns ValueGenerator function
+ * @throws GeneratorSpecError if the spec is invalid
+ */
+export function resolveValueGenerator(
+  setting: ValueGeneratorSetting,
+  path: string = 'spec'
+): ValueGenerator {
+  return typeof setting === 'function' ? setting : compileGeneratorSpec(setting, path);
+}
+
+/**
+ * Resolve a map of generator settings, reporting the problems of every
+ * spec in the map at once.
+ *
+ * @param settings - Map of name -> generator function or spec
+ * @param path - Path of the map, used in error messages
+ * @returns Map of name -> ValueGenerator
+ * @throws GeneratorSpecError if any spec is invalid
+ */
+export function resolveValueGenerators(
+  settings: Record<string, ValueGeneratorSetting>,
+  path: string
+): Record<string, ValueGenerator> {
+  const issues = Object.entries(settings).flatMap(([name, setting]) =>
+    typeof setting === 'function' ? [] : validateGeneratorSpec(setting, `${path}.${name}`)
+  );
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+
+  return Object.fromEntries(
+    Object.entries(settings).map(([name, setting]) => [
+      name,
+      typeof setting === 'function' ? setting : buildGenerator(setting),
+    ])
+  );
+}
@@ -7,3 +7,15 @@
 export * from './eadv-generator';
 export * from './rout-generator';
 export * from './value-generators';
+export * from './generator-spec';
+export * from './trajectory';
+export * from './observation-counts';
+export * from './attribute-dates';
+export * from './correlation';
+export * from './encounters';
+export * from './demographics';
+export * from './medications';
+export * from './cohorts';
+export * from './faults';
+export * from './observation-shaper';
+export * from './filter-shaper';
@@ -0,0 +1,237 @@
+/**
+ * Medications
+ *
+ * Therapies taken in episodes: each entity on a therapy starts a drug,
+ * refills it, and stops it or switches to another drug of the same
+ * class. Rules like "currently on an ACE inhibitor" need start and stop
+ * events, which independent values can't give them.
+ */
+
+import {
+  GeneratorSpecIssue,
+  MedicationEpisode,
+  MedicationEventNames,
+  MedicationSpec,
+  ObservationCountSetting,
+  ResolvedMedication,
+  ValueGenerator,
+} from '../models/types';
+import { GeneratorSpecError, collectIssues, resolveValueGenerator } from './generator-spec';
+import { resolveObservationCount } from './observation-counts';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Longest gap, in days, between stopping a drug and starting the one
+ * switched to
+ */
+const SWITCH_GAP_DAYS = 14;
+
+/**
+ * Resolve the names of medication events.
+ *
+ * @param events - Event names, each containing '{att}'
+ * @param path - Path of the option, used in error messages
+ * @returns Event names with defaults applied
+ * @throws GeneratorSpecError listing every problem
+ */
+export function resolveMedicationEvents(
+  events: MedicationEventNames,
+  path: string
+): Required<MedicationEventNames> {
+  const start = events.start ?? '{att}';
+  const resolved = {
+    start,
+    stop: events.stop ?? '{att}_stop',
+    refill: events.refill ?? start,
+    stopValue: events.stopValue === undefined ? 0 : events.stopValue,
+  };
+
+  const issues: GeneratorSpecIssue[] = [];
+  for (const key of ['start', 'stop', 'refill'] as const) {
+    if (typeof resolved[key] !== 'string' || !resolved[key].includes('{att}')) {
+      issues.push({ path: `${path}.${key}`, message: "must contain '{att}'" });
+    }
+  }
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+  return resolved;
+}
+
+/**
+ * Resolve medication specs.
+ *
+ * @param specs - Medication specs
+ * @param events - Resolved event names
+ * @param path - Path of the list, used in error messages
+ * @returns Resolved medications
+ * @throws GeneratorSpecError listing every problem
+ */
+export function resolveMedications(
+  specs: MedicationSpec[],
+  events: Required<MedicationEventNames>,
+  path: string
+): ResolvedMedication[] {
+  const issues: GeneratorSpecIssue[] = [];
+  const seen = new Set<string>();
+
+  const medications = specs.map((spec, i): ResolvedMedication => {
+    const at = `${path}[${i}]`;
+    const attributes = Array.isArray(spec.attributes) ? spec.attributes : [];
+
+    if (attributes.length === 0) {
+      issues.push({ path: `${at}.attributes`, message: 'must be a non-empty array' });
+    }
+    attributes.forEach((att, k) => {
+      if (seen.has(att)) {
+        issues.push({
+          path: `${at}.attributes[${k}]`,
+          message: `'${att}' is in another medication`,
+        });
+      }
+      seen.add(att);
+    });
+
+    for (const key of ['probability', 'switchProbability'] as const) {
+      const p = spec[key];
+      if (p !== undefined && !(p >= 0 && p <= 1)) {
+        issues.push({ path: `${at}.${key}`, message: 'must be between 0 and 1' });
+      }
+    }
+    if (spec.refillIntervalDays !== undefined && !(spec.refillIntervalDays > 0)) {
+      issues.push({ path: `${at}.refillIntervalDays`, message: 'must be a number > 0' });
+    }
+    const doseSetting = spec.dose;
+    let dose: ValueGenerator = () => 1;
+    if (typeof doseSetting === 'number') {
+      dose = () => doseSetting;
+    } else if (doseSetting !== undefined) {
+      dose = collectIssues(() => resolveValueGenerator(doseSetting, `${at}.dose`), issues) ?? dose;
+    }
+
+    const countOf = (setting: ObservationCountSetting, key: string) =>
+      collectIssues(() => resolveObservationCount(setting, `${at}.${key}`), issues) ?? (() => 0);
+
+    return {
+      name: spec.name,
+      attributes,
+      probability: spec.probability ?? 0.5,
+      episodes: countOf(spec.episodes ?? 1, 'episodes'),
+      durationDays: countOf(spec.durationDays ?? { min: 30, max: 730 }, 'durationDays'),
+      gapDays: countOf(spec.gapDays ?? { min: 30, max: 180 }, 'gapDays'),
+      switchProbability: spec.switchProbability ?? 0.3,
+      dose,
+      refillIntervalDays: spec.refillIntervalDays,
+      events,
+    };
+  });
+
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+  return medications;
+}
+
+/**
+ * Draw one entity's episodes of a medication. The first episode starts
+ * anywhere in the range; each later one starts after a gap, or shortly
+ * after the stop when it switches drug. An episode still running at the
+ * end of the range has no stop and ends the sequence.
+ *
+ * @param medication - Resolved medication
+ * @param range - Range the episodes start in
+ * @param random - Seeded random function
+ * @returns Episodes in date order (none if the entity isn't on the therapy)
+ */
+export function generateMedicationEpisodes(
+  medication: ResolvedMedication,
+  range: { start: Date; end: Date },
+  random: () => number
+): MedicationEpisode[] {
+  const episodes: MedicationEpisode[] = [];
+  if (!(random() < medication.probability)) return episodes;
+
+  const count = medication.episodes(random);
+  const endMs = range.end.getTime();
+  const { attributes } = medication;
+  let att = attributes[Math.floor(random() * attributes.length)];
+  let startMs = range.start.getTime() + random() * (endMs - range.start.getTime());
+
+  for (let i = 0; i < count && startMs <= endMs; i++) {
+    const stopMs = startMs + medication.durationDays(random) * MS_PER_DAY;
+    const dose = medication.dose(random);
+
+    const refills: Date[] = [];
+    const interval = (medication.refillIntervalDays ?? 0) * MS_PER_DAY;
+    for (let t = startMs + interval; interval > 0 && t < stopMs && t <= endMs; t += interval) {
+      refills.push(new Date(t));
+    }
+
+    if (stopMs > endMs) {
+      episodes.push({ att, start: new Date(startMs), dose, refills });
+      break;
+    }
+    episodes.push({ att, start: new Date(startMs), stop: new Date(stopMs), dose, refills });
+
+    if (attributes.length > 1 && random() < medication.switchProbability) {
+      const others = attributes.filter((other) => other !== att);
+      att = others[Math.floor(random() * others.length)];
+      startMs = stopMs + random() * SWITCH_GAP_DAYS * MS_PER_DAY;
+    } else {
+      startMs = stopMs + medication.gapDays(random) * MS_PER_DAY;
+    }
+  }
+
+  return episodes;
+}
+
+/**
+ * Attribute name of an event of a drug.
+ */
+function eventAttribute(name: string, att: string): string {
+  return name.split('{att}').join(att);
+}
+
+/**
+ * Every attribute name a medication's rows can have.
+ *
+ * @param medication - Resolved medication
+ * @returns Start, refill and stop attribute names of each drug
+ */
+export function medicationEventAttributes(medication: ResolvedMedication): string[] {
+  const { start, refill, stop } = medication.events;
+  return Array.from(
+    new Set(
+      medication.attributes.flatMap((att) =>
+        [start, refill, stop].map((name) => eventAttribute(name, att))
+      )
+    )
+  );
+}
+
+/**
+ * The rows of a medication's episodes: the dose at the start and each
+ * refill, and the stop value at the stop.
+ *
+ * @param medication - Resolved medication
+ * @param episodes - The entity's episodes
+ * @returns Attribute, date and value of each event
+ */
+export function medicationObservations(
+  medication: ResolvedMedication,
+  episodes: MedicationEpisode[]
+): { att: string; dt: Date; val: number | string | null }[] {
+  const { start, refill, stop, stopValue } = medication.events;
+  return episodes.flatMap((episode) => [
+    { att: eventAttribute(start, episode.att), dt: episode.start, val: episode.dose },
+    ...episode.refills.map((dt) => ({
+      att: eventAttribute(refill, episode.att),
+      dt,
+      val: episode.dose,
+    })),
+    ...(episode.stop
+      ? [{ att: eventAttribute(stop, episode.att), dt: episode.stop, val: stopValue }]
+      : []),
+  ]);
+}
@@ -0,0 +1,110 @@
+/**
+ * Observation Counts
+ *
+ * Per-attribute numbers of observations per entity, so records can be
+ * sparse and uneven: some entities with many rows of an attribute, some
+ * with one, some with none.
+ */
+
+import { GeneratorSpecIssue, ObservationCountSetting, ValueGenerator } from '../models/types';
+import { GeneratorSpecError, resolveValueGenerator, validateGeneratorSpec } from './generator-spec';
+import { randomInt } from '../utils/random';
+
+/**
+ * Check an observation count setting.
+ */
+function validateObservationCount(setting: unknown, path: string): GeneratorSpecIssue[] {
+  if (typeof setting === 'number') {
+    return Number.isInteger(setting) && setting >= 0
+      ? []
+      : [{ path, message: 'must be an integer >= 0' }];
+  }
+  if (typeof setting === 'function') return [];
+
+  if (typeof setting === 'object' && setting !== null && !('dist' in setting)) {
+    const { min, max } = setting as { min?: unknown; max?: unknown };
+    const issues: GeneratorSpecIssue[] = [];
+    for (const [key, value] of [['min', min], ['max', max]] as const) {
+      if (!(typeof value === 'number' && Number.isInteger(value) && value >= 0)) {
+        issues.push({ path: `${path}.${key}`, message: 'must be an integer >= 0' });
+      }
+    }
+    if (issues.length === 0 && (min as number) > (max as number)) {
+      issues.push({ path: `${path}.max`, message: `must be >= min (${min})` });
+    }
+    return issues;
+  }
+
+  return validateGeneratorSpec(setting, path);
+}
+
+/**
+ * Turn a drawn value into a row count.
+ */
+function toCount(value: ReturnType<ValueGenerator>): number {
+  const count = Math.round(Number(value));
+  return Number.isFinite(count) && count > 0 ? count : 0;
+}
+
+/**
+ * Resolve per-attribute observation count settings.
+ *
+ * @param settings - Map of attribute name -> count setting
+ * @param path - Path of the map, used in error messages
+ * @returns Map of attribute name -> function drawing one entity's count
+ * @throws GeneratorSpecError listing every invalid setting
+ */
+export function resolveObservationCounts(
+  settings: Record<string, ObservationCountSetting>,
+  path: string
+): Record<string, (random: () => number) => number> {
+  const issues = Object.entries(settings).flatMap(([att, setting]) =>
+    validateObservationCount(setting, `${path}.${att}`)
+  );
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+
+  return Object.fromEntries(
+    Object.entries(settings).map(([att, setting]) => [
+      att,
+      compileObservationCount(setting, `${path}.${att}`),
+    ])
+  );
+}
+
+/**
+ * Resolve one observation count setting.
+ *
+ * @param setting - Count setting
+ * @param path - Path of the setting, used in error messages
+ * @returns Function drawing one entity's count
+ * @throws GeneratorSpecError listing every problem
+ */
+export function resolveObservationCount(
+  setting: ObservationCountSetting,
+  path: string
+): (random: () => number) => number {
+  const issues = validateObservationCount(setting, path);
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+  return compileObservationCount(setting, path);
+}
+
+/**
+ * Compile a count setting that has been validated.
+ */
+function compileObservationCount(
+  setting: ObservationCountSetting,
+  path: string
+): (random: () => number) => number {
+  if (typeof setting === 'number') {
+    return () => setting;
+  }
+  if (typeof setting === 'object' && !('dist' in setting)) {
+    return (random) => randomInt(random, setting.min, setting.max);
+  }
+  const generator = resolveValueGenerator(setting, path);
+  return (random) => toCount(generator(random));
+}
@@ -0,0 +1,138 @@
+/**
+ * Observation Shaper
+ *
+ * Shapes the rows generated for an attribute to fit the fetch functions
+ * that read it, so aggregates like count(), exists() and regr_slope()
+ * are tested beyond their degenerate case.
+ */
+
+import { randomInt, randomFloat, randomPick } from '../utils/random';
+
+/**
+ * Share of entities left without rows for attributes read by exists()
+ */
+const EXISTS_ABSENT_RATE = 0.3;
+
+/**
+ * Count the decimal places of a number.
+ */
+function decimalsOf(value: number): number {
+  return (String(value).split('.')[1] ?? '').length;
+}
+
+/**
+ * Round a number to a given number of decimal places.
+ */
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Fewest rows the fetch functions need to be tested beyond their
+ * degenerate case: two for regr_slope() and serialize(), else none.
+ *
+ * @param functions - Fetch functions applied to the attribute
+ * @returns Minimum number of rows
+ */
+export function minimumObservationCount(functions: Set<string>): number {
+  return functions.has('regr_slope') || functions.has('serialize') ? 2 : 0;
+}
+
+/**
+ * Decide how many rows to generate for one entity and attribute.
+ *
+ * - count(), distinct_count(): 0 to twice the default, varying per entity
+ * - exists(): some entities get no rows at all
+ * - regr_slope(), serialize(): at least two rows
+ *
+ * @param functions - Fetch functions applied to the attribute
+ * @param defaultCount - Configured observations per entity
+ * @param random - Seeded random function
+ * @returns Number of rows to generate
+ */
+export function shapeObservationCount(
+  functions: Set<string>,
+  defaultCount: number,
+  random: () => number
+): number {
+  if (functions.has('count') || functions.has('distinct_count')) {
+    return randomInt(random, 0, defaultCount * 2);
+  }
+  if (functions.has('exists') && random() < EXISTS_ABSENT_RATE) {
+    return 0;
+  }
+  return Math.max(defaultCount, minimumObservationCount(functions));
+}
+
+/**
+ * Reshape generated values to suit the fetch functions.
+ *
+ * - regr_slope(): values follow a per-entity upward, downward or flat trend
+ * - max(): one value is pushed well above the rest
+ * - min(): one value is pushed well below the rest
+ *
+ * Non-numeric values are left untouched.
+ *
+ * @param functions - Fetch functions applied to the attribute
+ * @param values - Generated values, aligned with dates
+ * @param dates - Observation dates (most recent first)
+ * @param random - Seeded random function
+ * @returns Reshaped values
+ */
+export function shapeObservationValues(
+  functions: Set<string>,
+  values: (number | string | null)[],
+  dates: Date[],
+  random: () => number
+): (number | string | null)[] {
+  const numeric = values.filter((v): v is number => typeof v === 'number');
+  if (numeric.length < 2 || numeric.length !== values.length) {
+    return values;
+  }
+
+  const decimals = Math.max(...numeric.map(decimalsOf));
+  let shaped = [...numeric];
+
+  if (functions.has('regr_slope')) {
+    const direction = randomPick(random, [1, -1, 0]);
+    const base = shaped[0];
+    const change = Math.abs(base) * randomFloat(random, 0.2, 0.5, 2);
+    const newest = dates[0].getTime();
+    const oldest = dates[dates.length - 1].getTime();
+    const span = newest - oldest || 1;
+
+    shaped = shaped.map((v, i) => {
+      // Position along the range: 0 = oldest, 1 = most recent
+      const position = (dates[i].getTime() - oldest) / span;
+      const noise = (v - base) * 0.1;
+      return roundTo(base + direction * change * (position - 0.5) + noise, decimals);
+    });
+  }
+
+  if (!functions.has('max') && !functions.has('min')) {
+    return shaped;
+  }
+
+  // One row gets the extreme; with both min() and max() a second row
+  // gets the other extreme, as long as a third row remains in between
+  const extremeIndex = randomInt(random, 0, shaped.length - 1);
+
+  if (functions.has('max')) {
+    const top = Math.max(...shaped);
+    shaped[extremeIndex] = roundTo(top + Math.abs(top) * randomFloat(random, 0.5, 1, 2), decimals);
+  }
+  if (functions.has('min')) {
+    const index = !functions.has('max')
+      ? extremeIndex
+      : shaped.length > 2
+        ? (extremeIndex + 1) % shaped.length
+        : -1;
+    if (index >= 0) {
+      const bottom = Math.min(...shaped);
+      shaped[index] = roundTo(bottom - Math.abs(bottom) * randomFloat(random, 0.3, 0.5, 2), decimals);
+    }
+  }
+
+  return shaped;
+}
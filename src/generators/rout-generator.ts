@@ -4,7 +4,13 @@
  * Generates mock rout_* table rows for bind statement dependencies.
  */
 
-import { RoutRow, ResolvedMockerOptions } from '../models/types';
+import {
+  GeneratedValue,
+  RoutRow,
+  ResolvedCohort,
+  ResolvedMockerOptions,
+} from '../models/types';
+import { randomPick } from '../utils/random';
 
 /**
  * Generate rout_* tables for all bind dependencies.
@@ -13,37 +19,94 @@ import { RoutRow, ResolvedMockerOptions } from '../models/types';
  * @param entities - Array of entity IDs
  * @param options - Resolved mocker options
  * @param random - Seeded random function
+ * @param pins - Optional per-entity values (entity -> table -> variable -> value)
+ * @param domains - Optional inferred values per variable (table -> variable -> values)
+ * @param cohorts - Optional cohort of each entity
  * @returns Record mapping table names to arrays of rows
  */
 export function generateRoutTables(
   bindDependencies: Map<string, Set<string>>,
   entities: number[],
   options: ResolvedMockerOptions,
-  random: () => number
+  random: () => number,
+  pins?: Map<number, Record<string, Record<string, number | string | null>>>,
+  domains?: Map<string, Map<string, (number | string | null)[]>>,
+  cohorts?: Map<number, ResolvedCohort>
 ): Record<string, RoutRow[]> {
   const result: Record<string, RoutRow[]> = {};
+  for (const tableName of bindDependencies.keys()) {
+    result[tableName] = [];
+  }
+
+  for (const { table, row } of iterateRoutRows(
+    bindDependencies,
+    entities,
+    options,
+    random,
+    pins,
+    domains,
+    cohorts
+  )) {
+    result[table].push(row);
+  }
+
+  return result;
+}
 
+/**
+ * Generate rout_* rows one at a time, table by table.
+ *
+ * Consumes the random function exactly as generateRoutTables does.
+ *
+ * @param bindDependencies - Map of table name -> Set of variable names
+ * @param entities - Array of entity IDs
+ * @param options - Resolved mocker options
+ * @param random - Seeded random function
+ * @param pins - Optional per-entity values (entity -> table -> variable -> value)
+ * @param domains - Optional inferred values per variable (table -> variable -> values)
+ * @param cohorts - Optional cohort of each entity
+ * @returns Generator of rows with their table name
+ */
+export function* iterateRoutRows(
+  bindDependencies: Map<string, Set<string>>,
+  entities: number[],
+  options: ResolvedMockerOptions,
+  random: () => number,
+  pins?: Map<number, Record<string, Record<string, number | string | null>>>,
+  domains?: Map<string, Map<string, (number | string | null)[]>>,
+  cohorts?: Map<number, ResolvedCohort>
+): Generator<{ table: string; row: RoutRow }> {
   for (const [tableName, variables] of bindDependencies) {
     // Generate one row per entity for this table
-    result[tableName] = entities.map((eid) => {
+    for (const eid of entities) {
       const row: RoutRow = { eid };
+      const history: Record<string, GeneratedValue[]> = {};
+      const scratch: Record<string, unknown> = {};
 
       // Generate a value for each variable in this table
       for (const varName of variables) {
         // Check for custom generator
-        const customGen = options.bindTableValues[tableName]?.[varName];
+        const customGen =
+          cohorts?.get(eid)?.bindTableValues[tableName]?.[varName] ??
+          options.bindTableValues[tableName]?.[varName];
+        const pinned = pins?.get(eid)?.[tableName];
+        const domain = domains?.get(tableName)?.get(varName);
 
-        if (customGen) {
-          row[varName] = customGen(random);
+        if (pinned && varName in pinned) {
+          row[varName] = pinned[varName];
+        } else if (customGen) {
+          row[varName] = customGen(random, { eid, att: varName, index: 0, history, scratch });
+        } else if (domain && domain.length > 0) {
+          // Values the source ruleblock's compute statement can return
+          row[varName] = randomPick(random, domain);
         } else {
           // Default: binary 0 or 1 (common for flag variables)
           row[varName] = random() > 0.5 ? 1 : 0;
         }
+        history[varName] = [{ val: row[varName] }];
       }
 
-      return row;
-    });
+      yield { table: tableName, row };
+    }
   }
-
-  return result;
 }
@@ -0,0 +1,206 @@
+/**
+ * Trajectories
+ *
+ * Longitudinal per-entity values: a baseline and slope drawn once per
+ * entity, an optional acute drop with recovery, a persistent AR(1)
+ * deviation and measurement noise, evaluated at each observation date.
+ * Slope-based and "sustained decline" rules need data like this rather
+ * than independent draws.
+ */
+
+import {
+  GeneratorSpecIssue,
+  ResolvedTrajectory,
+  TrajectorySpec,
+  ValueGenerator,
+  ValueGeneratorSetting,
+} from '../models/types';
+import { GeneratorSpecError, resolveValueGenerator, validateGeneratorSpec } from './generator-spec';
+import { gaussianRandom } from '../utils/random';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365.25;
+
+/**
+ * Days over which `autocorrelation` is measured
+ */
+const AUTOCORRELATION_DAYS = 30;
+
+/**
+ * Validate a per-entity setting: a number, a generator function or a spec.
+ */
+function validateSetting(setting: unknown, path: string): GeneratorSpecIssue[] {
+  if (typeof setting === 'number') {
+    return Number.isFinite(setting) ? [] : [{ path, message: 'must be a finite number' }];
+  }
+  if (typeof setting === 'function') return [];
+  return validateGeneratorSpec(setting, path);
+}
+
+/**
+ * Compile a per-entity setting that has been validated.
+ */
+function compileSetting(setting: number | ValueGeneratorSetting, path: string): ValueGenerator {
+  return typeof setting === 'number' ? () => setting : resolveValueGenerator(setting, path);
+}
+
+/**
+ * Resolve a trajectory spec, compiling its per-entity settings.
+ *
+ * @param spec - Trajectory spec
+ * @param path - Path of the spec, used in error messages
+ * @returns Resolved trajectory
+ * @throws GeneratorSpecError listing every problem in the spec
+ */
+export function resolveTrajectory(spec: TrajectorySpec, path: string): ResolvedTrajectory {
+  const issues: GeneratorSpecIssue[] = [];
+  const range = (key: keyof TrajectorySpec, min: number, max: number) => {
+    const value = spec[key];
+    if (value === undefined) return;
+    if (typeof value !== 'number' || !(value >= min && value <= max)) {
+      const bounds = max === Infinity ? `>= ${min}` : `between ${min} and ${max}`;
+      issues.push({ path: `${path}.${key}`, message: `must be a number ${bounds}` });
+    }
+  };
+
+  if (spec.baseline === undefined) {
+    issues.push({ path: `${path}.baseline`, message: 'is required' });
+  } else {
+    issues.push(...validateSetting(spec.baseline, `${path}.baseline`));
+  }
+  if (spec.slope !== undefined) {
+    issues.push(...validateSetting(spec.slope, `${path}.slope`));
+  }
+  range('noise', 0, Infinity);
+  range('variability', 0, Infinity);
+  range('autocorrelation', 0, 1);
+  if (
+    spec.decimals !== undefined &&
+    (!Number.isInteger(spec.decimals) || spec.decimals < 0 || spec.decimals > 10)
+  ) {
+    issues.push({ path: `${path}.decimals`, message: 'must be an integer from 0 to 10' });
+  }
+  if (spec.min !== undefined && spec.max !== undefined && spec.min > spec.max) {
+    issues.push({ path: `${path}.max`, message: `must be >= min (${spec.min})` });
+  }
+
+  const event = spec.event;
+  if (event !== undefined) {
+    if (event.depth === undefined) {
+      issues.push({ path: `${path}.event.depth`, message: 'is required' });
+    } else {
+      issues.push(...validateSetting(event.depth, `${path}.event.depth`));
+    }
+    if (
+      event.probability !== undefined &&
+      !(event.probability >= 0 && event.probability <= 1)
+    ) {
+      issues.push({ path: `${path}.event.probability`, message: 'must be between 0 and 1' });
+    }
+    if (event.recoveryDays !== undefined && !(event.recoveryDays > 0)) {
+      issues.push({ path: `${path}.event.recoveryDays`, message: 'must be > 0' });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new GeneratorSpecError(issues);
+  }
+
+  return {
+    baseline: compileSetting(spec.baseline, `${path}.baseline`),
+    slope: compileSetting(spec.slope ?? 0, `${path}.slope`),
+    event: event && {
+      probability: event.probability ?? 1,
+      depth: compileSetting(event.depth, `${path}.event.depth`),
+      recoveryDays: event.recoveryDays,
+    },
+    noise: spec.noise ?? 0,
+    variability: spec.variability ?? 0,
+    autocorrelation: spec.autocorrelation ?? 0.8,
+    min: spec.min ?? -Infinity,
+    max: spec.max ?? Infinity,
+    decimals: spec.decimals ?? 1,
+  };
+}
+
+/**
+ * Draw a numeric per-entity setting.
+ */
+function drawNumber(generator: ValueGenerator, random: () => number): number {
+  const value = Number(generator(random));
+  return Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Generate one entity's values along a trajectory.
+ *
+ * The persistent deviation is carried forward in date order, decaying
+ * towards the trend by `autocorrelation` per 30 days between
+ * observations, so it stays stationary with irregular spacing.
+ *
+ * @param trajectory - Resolved trajectory
+ * @param dates - Observation dates, in any order
+ * @param dateRange - Configured date range; the baseline is at its start
+ * @param random - Seeded random function
+ * @returns Values aligned with dates
+ */
+export function generateTrajectoryValues(
+  trajectory: ResolvedTrajectory,
+  dates: Date[],
+  dateRange: { start: Date; end: Date },
+  random: () => number
+): number[] {
+  const startMs = dateRange.start.getTime();
+  const rangeMs = dateRange.end.getTime() - startMs;
+
+  const baseline = drawNumber(trajectory.baseline, random);
+  const slope = drawNumber(trajectory.slope, random);
+
+  let eventMs: number | undefined;
+  let depth = 0;
+  const event = trajectory.event;
+  if (event && (event.probability >= 1 || random() < event.probability)) {
+    eventMs = startMs + random() * rangeMs;
+    depth = drawNumber(event.depth, random);
+  }
+
+  const eventEffect = (ms: number): number => {
+    if (eventMs === undefined || ms < eventMs) return 0;
+    if (event?.recoveryDays === undefined) return depth;
+    const days = (ms - eventMs) / MS_PER_DAY;
+    return depth * Math.max(0, 1 - days / event.recoveryDays);
+  };
+
+  const order = dates.map((_, i) => i).sort((a, b) => dates[a].getTime() - dates[b].getTime());
+  const values: number[] = new Array(dates.length);
+  const factor = Math.pow(10, trajectory.decimals);
+
+  let deviation = 0;
+  let previousMs: number | undefined;
+  for (const i of order) {
+    const ms = dates[i].getTime();
+
+    if (trajectory.variability > 0) {
+      const z = gaussianRandom(random);
+      if (previousMs === undefined) {
+        deviation = z * trajectory.variability;
+      } else {
+        const gapDays = (ms - previousMs) / MS_PER_DAY;
+        const rho = Math.pow(trajectory.autocorrelation, gapDays / AUTOCORRELATION_DAYS);
+        deviation = rho * deviation + Math.sqrt(1 - rho * rho) * trajectory.variability * z;
+      }
+    }
+    previousMs = ms;
+
+    const years = (ms - startMs) / (MS_PER_DAY * DAYS_PER_YEAR);
+    let value = baseline + slope * years - eventEffect(ms) + deviation;
+    if (trajectory.noise > 0) {
+      value += gaussianRandom(random) * trajectory.noise;
+    }
+
+    value = Math.max(trajectory.min, Math.min(trajectory.max, value));
+    values[i] = Math.round(value * factor) / factor;
+  }
+
+  return values;
+}
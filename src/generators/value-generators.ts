@@ -1,75 +1,101 @@
 /**
  * Built-in Value Generators
  *
- * Pre-configured value generators for common clinical attributes.
- * These produce realistic ranges for typical lab values.
+ * Pre-configured value generators for common clinical attributes, plus
+ * seeded factories for uniform, normal, truncated normal, log-normal,
+ * gamma, beta, Poisson, weighted and mixture distributions.
  */
 
 import { ValueGenerator } from '../models/types';
-import { randomInt, randomFloat } from '../utils/random';
+import {
+  randomInt,
+  randomFloat,
+  randomNormal,
+  randomTruncatedNormal,
+  randomLogNormal,
+  randomGamma,
+  randomBeta,
+  randomPoisson,
+  randomWeightedIndex,
+} from '../utils/random';
 
 /**
  * Clinical value generators for common EADV attributes.
  *
- * These generators produce values within typical clinical ranges.
- * Use these as a starting point and customize as needed.
+ * Each generator follows a rough adult population distribution: roughly
+ * symmetric values are truncated normals, skewed ones (ACR, CRP, liver
+ * enzymes, triglycerides) log-normal or gamma, and eGFR and HbA1c mix a
+ * healthy majority with a diseased minority. Values stay within typical
+ * clinical ranges. Use these as a starting point and customize as needed.
  */
 export const clinicalValueGenerators: Record<string, ValueGenerator> = {
   // Renal function
-  lab_bld_egfr: (random = Math.random) => randomInt(random, 15, 120),
-  lab_bld_creatinine: (random = Math.random) => randomInt(random, 50, 500),
-  lab_ua_acr: (random = Math.random) => randomInt(random, 0, 300),
-  lab_bld_urea: (random = Math.random) => randomFloat(random, 2.5, 15, 1),
+  lab_bld_egfr: createMixtureGenerator([
+    { weight: 3, generator: createTruncatedNormalGenerator(90, 15, 15, 120, 0) },
+    { weight: 1, generator: createTruncatedNormalGenerator(40, 15, 15, 120, 0) },
+  ]),
+  lab_bld_creatinine: createBoundedGenerator(createLogNormalGenerator(90, 0.45, 0), 50, 500),
+  lab_ua_acr: createBoundedGenerator(createLogNormalGenerator(1.5, 1.4, 1), 0, 300),
+  lab_bld_urea: createBoundedGenerator(createLogNormalGenerator(6, 0.35, 1), 2.5, 15),
+  lab_bld_crp: createBoundedGenerator(createLogNormalGenerator(3, 1.1, 1), 0, 300),
 
   // Haematology
-  lab_bld_haemoglobin: (random = Math.random) => randomInt(random, 80, 180),
-  lab_bld_hb: (random = Math.random) => randomInt(random, 80, 180),
-  lab_bld_wbc: (random = Math.random) => randomFloat(random, 3, 15, 1),
-  lab_bld_platelet: (random = Math.random) => randomInt(random, 100, 400),
-  lab_bld_rbc: (random = Math.random) => randomFloat(random, 3.5, 6, 2),
+  lab_bld_haemoglobin: createTruncatedNormalGenerator(135, 17, 80, 180, 0),
+  lab_bld_hb: createTruncatedNormalGenerator(135, 17, 80, 180, 0),
+  lab_bld_wbc: createBoundedGenerator(createLogNormalGenerator(7, 0.3, 1), 3, 15),
+  lab_bld_platelet: createTruncatedNormalGenerator(250, 60, 100, 400, 0),
+  lab_bld_rbc: createTruncatedNormalGenerator(4.7, 0.5, 3.5, 6, 2),
 
   // Metabolic / Diabetes
-  lab_bld_hba1c: (random = Math.random) => randomFloat(random, 4, 12, 1),
-  lab_bld_glucose: (random = Math.random) => randomFloat(random, 3, 20, 1),
-  lab_bld_glucose_fasting: (random = Math.random) =>
-    randomFloat(random, 3.5, 10, 1),
+  lab_bld_hba1c: createMixtureGenerator([
+    { weight: 2, generator: createTruncatedNormalGenerator(5.5, 0.4, 4, 12, 1) },
+    {
+      weight: 1,
+      generator: createBoundedGenerator(createLogNormalGenerator(7.5, 0.18, 1), 4, 12),
+    },
+  ]),
+  lab_bld_glucose: createBoundedGenerator(createLogNormalGenerator(5.8, 0.3, 1), 3, 20),
+  lab_bld_glucose_fasting: createBoundedGenerator(
+    createLogNormalGenerator(5.3, 0.18, 1),
+    3.5,
+    10
+  ),
 
   // Lipids
-  lab_bld_cholesterol: (random = Math.random) => randomFloat(random, 3, 8, 1),
-  lab_bld_ldl: (random = Math.random) => randomFloat(random, 1.5, 5, 1),
-  lab_bld_hdl: (random = Math.random) => randomFloat(random, 0.8, 2.5, 1),
-  lab_bld_triglycerides: (random = Math.random) =>
-    randomFloat(random, 0.5, 4, 1),
+  lab_bld_cholesterol: createTruncatedNormalGenerator(5, 1, 3, 8, 1),
+  lab_bld_ldl: createTruncatedNormalGenerator(3, 0.9, 1.5, 5, 1),
+  lab_bld_hdl: createBoundedGenerator(createLogNormalGenerator(1.3, 0.25, 1), 0.8, 2.5),
+  lab_bld_triglycerides: createBoundedGenerator(createLogNormalGenerator(1.4, 0.5, 1), 0.5, 4),
 
   // Electrolytes
-  lab_bld_potassium: (random = Math.random) => randomFloat(random, 3, 6, 1),
-  lab_bld_sodium: (random = Math.random) => randomInt(random, 130, 150),
-  lab_bld_calcium: (random = Math.random) => randomFloat(random, 2, 3, 2),
-  lab_bld_phosphate: (random = Math.random) => randomFloat(random, 0.8, 2, 2),
+  lab_bld_potassium: createTruncatedNormalGenerator(4.4, 0.5, 3, 6, 1),
+  lab_bld_sodium: createTruncatedNormalGenerator(139, 3, 130, 150, 0),
+  lab_bld_calcium: createTruncatedNormalGenerator(2.35, 0.12, 2, 3, 2),
+  lab_bld_phosphate: createTruncatedNormalGenerator(1.1, 0.25, 0.8, 2, 2),
 
   // Liver function
-  lab_bld_alt: (random = Math.random) => randomInt(random, 10, 100),
-  lab_bld_ast: (random = Math.random) => randomInt(random, 10, 80),
-  lab_bld_alp: (random = Math.random) => randomInt(random, 30, 150),
-  lab_bld_bilirubin: (random = Math.random) => randomInt(random, 5, 30),
-  lab_bld_albumin: (random = Math.random) => randomInt(random, 30, 50),
+  lab_bld_alt: createBoundedGenerator(createLogNormalGenerator(25, 0.5, 0), 10, 100),
+  lab_bld_ast: createBoundedGenerator(createLogNormalGenerator(24, 0.4, 0), 10, 80),
+  lab_bld_alp: createBoundedGenerator(createLogNormalGenerator(80, 0.3, 0), 30, 150),
+  lab_bld_bilirubin: createBoundedGenerator(createLogNormalGenerator(10, 0.45, 0), 5, 30),
+  lab_bld_albumin: createTruncatedNormalGenerator(40, 4, 30, 50, 0),
 
   // Thyroid
-  lab_bld_tsh: (random = Math.random) => randomFloat(random, 0.3, 5, 2),
-  lab_bld_t4: (random = Math.random) => randomFloat(random, 10, 25, 1),
+  lab_bld_tsh: createBoundedGenerator(createLogNormalGenerator(1.6, 0.5, 2), 0.3, 5),
+  lab_bld_t4: createTruncatedNormalGenerator(16, 2.5, 10, 25, 1),
 
   // Urine
-  lab_ua_rbc: (random = Math.random) => randomInt(random, 0, 50),
-  lab_ua_wbc: (random = Math.random) => randomInt(random, 0, 30),
-  lab_ua_protein: (random = Math.random) => randomInt(random, 0, 3),
+  lab_ua_rbc: createBoundedGenerator(createGammaGenerator(0.6, 8, 0), 0, 50),
+  lab_ua_wbc: createBoundedGenerator(createGammaGenerator(0.6, 6, 0), 0, 30),
+  lab_ua_protein: createWeightedGenerator([0, 1, 2, 3], [70, 15, 10, 5]),
 
   // Vitals (if stored in EADV)
-  obs_bp_systolic: (random = Math.random) => randomInt(random, 90, 200),
-  obs_bp_diastolic: (random = Math.random) => randomInt(random, 50, 120),
-  obs_hr: (random = Math.random) => randomInt(random, 50, 120),
-  obs_weight: (random = Math.random) => randomFloat(random, 40, 150, 1),
-  obs_height: (random = Math.random) => randomFloat(random, 140, 200, 1),
-  obs_bmi: (random = Math.random) => randomFloat(random, 16, 45, 1),
+  obs_bp_systolic: createTruncatedNormalGenerator(132, 18, 90, 200, 0),
+  obs_bp_diastolic: createTruncatedNormalGenerator(78, 11, 50, 120, 0),
+  obs_hr: createTruncatedNormalGenerator(74, 11, 50, 120, 0),
+  obs_weight: createBoundedGenerator(createLogNormalGenerator(80, 0.22, 1), 40, 150),
+  obs_height: createTruncatedNormalGenerator(170, 10, 140, 200, 1),
+  obs_bmi: createBoundedGenerator(createLogNormalGenerator(28, 0.2, 1), 16, 45),
 };
 
 /**
@@ -126,10 +152,240 @@ export function createNullableGenerator(
   nullProbability: number,
   baseGenerator: ValueGenerator
 ): ValueGenerator {
-  return (random = Math.random) => {
+  return (random = Math.random, context) => {
     if (random() < nullProbability) {
       return null;
     }
-    return baseGenerator(random);
+    return baseGenerator(random, context);
+  };
+}
+
+/**
+ * Create a generator that returns 0 with a given probability, e.g. for
+ * counts where some entities have none at all.
+ *
+ * @param zeroProbability - Probability of returning 0 (0-1)
+ * @param baseGenerator - Generator to use otherwise
+ * @returns ValueGenerator function
+ */
+export function createZeroInflatedGenerator(
+  zeroProbability: number,
+  baseGenerator: ValueGenerator
+): ValueGenerator {
+  return (random = Math.random, context) => {
+    if (random() < zeroProbability) {
+      return 0;
+    }
+    return baseGenerator(random, context);
+  };
+}
+
+/**
+ * Round a value to a number of decimal places.
+ */
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Create a normal (Gaussian) generator.
+ *
+ * @param mean - Mean
+ * @param sd - Standard deviation
+ * @param decimals - Number of decimal places (default: 1)
+ * @returns ValueGenerator function
+ */
+export function createNormalGenerator(
+  mean: number,
+  sd: number,
+  decimals: number = 1
+): ValueGenerator {
+  return (random = Math.random) => roundTo(randomNormal(random, mean, sd), decimals);
+}
+
+/**
+ * Create a normal generator truncated to [min, max]. Unlike clamping,
+ * truncation doesn't pile values up at the bounds.
+ *
+ * @param mean - Mean of the untruncated distribution
+ * @param sd - Standard deviation of the untruncated distribution
+ * @param min - Minimum value
+ * @param max - Maximum value
+ * @param decimals - Number of decimal places (default: 1)
+ * @returns ValueGenerator function
+ */
+export function createTruncatedNormalGenerator(
+  mean: number,
+  sd: number,
+  min: number,
+  max: number,
+  decimals: number = 1
+): ValueGenerator {
+  return (random = Math.random) =>
+    roundTo(randomTruncatedNormal(random, mean, sd, min, max), decimals);
+}
+
+/**
+ * Create a log-normal generator, for right-skewed values such as ACR,
+ * CRP or triglycerides.
+ *
+ * @param median - Median value (e^meanLog)
+ * @param sdLog - Standard deviation of log(value); larger gives a longer tail
+ * @param decimals - Number of decimal places (default: 1)
+ * @returns ValueGenerator function
+ */
+export function createLogNormalGenerator(
+  median: number,
+  sdLog: number,
+  decimals: number = 1
+): ValueGenerator {
+  const meanLog = Math.log(median);
+  return (random = Math.random) => roundTo(randomLogNormal(random, meanLog, sdLog), decimals);
+}
+
+/**
+ * Create a gamma generator, for positive skewed values.
+ *
+ * @param shape - Shape parameter k
+ * @param scale - Scale parameter θ (mean is k·θ)
+ * @param decimals - Number of decimal places (default: 1)
+ * @returns ValueGenerator function
+ */
+export function createGammaGenerator(
+  shape: number,
+  scale: number,
+  decimals: number = 1
+): ValueGenerator {
+  return (random = Math.random) => roundTo(randomGamma(random, shape, scale), decimals);
+}
+
+/**
+ * Create a beta generator scaled to [min, max], for bounded values such
+ * as proportions or saturations.
+ *
+ * @param alpha - Shape parameter α
+ * @param beta - Shape parameter β
+ * @param min - Value at 0 (default: 0)
+ * @param max - Value at 1 (default: 1)
+ * @param decimals - Number of decimal places (default: 2)
+ * @returns ValueGenerator function
+ */
+export function createBetaGenerator(
+  alpha: number,
+  beta: number,
+  min: number = 0,
+  max: number = 1,
+  decimals: number = 2
+): ValueGenerator {
+  return (random = Math.random) =>
+    roundTo(min + randomBeta(random, alpha, beta) * (max - min), decimals);
+}
+
+/**
+ * Create a Poisson generator, for counts.
+ *
+ * @param lambda - Mean count
+ * @returns ValueGenerator function
+ */
+export function createPoissonGenerator(lambda: number): ValueGenerator {
+  return (random = Math.random) => randomPoisson(random, lambda);
+}
+
+/**
+ * Create a generator that picks from a set of values by relative weight.
+ *
+ * @param values - Array of possible values
+ * @param weights - Relative weight of each value
+ * @returns ValueGenerator function
+ */
+export function createWeightedGenerator(
+  values: (number | string | null)[],
+  weights: number[]
+): ValueGenerator {
+  return (random = Math.random) => values[randomWeightedIndex(random, weights)];
+}
+
+/**
+ * Create a mixture generator: each value comes from one component,
+ * chosen by relative weight. Useful for populations with distinct
+ * subgroups, e.g. a healthy majority and a CKD minority.
+ *
+ * @param components - Component generators with their weights
+ * @returns ValueGenerator function
+ */
+export function createMixtureGenerator(
+  components: { weight: number; generator: ValueGenerator }[]
+): ValueGenerator {
+  const weights = components.map((c) => c.weight);
+  return (random = Math.random, context) =>
+    components[randomWeightedIndex(random, weights)].generator(random, context);
+}
+
+/**
+ * Restrict a numeric generator to [min, max] by redrawing values that
+ * fall outside. After `maxTries` draws the last value is clamped.
+ * Non-numeric values pass through.
+ *
+ * @param baseGenerator - Generator to restrict
+ * @param min - Minimum value
+ * @param max - Maximum value
+ * @param maxTries - Draws before falling back to clamping (default: 100)
+ * @returns ValueGenerator function
+ */
+export function createBoundedGenerator(
+  baseGenerator: ValueGenerator,
+  min: number,
+  max: number,
+  maxTries: number = 100
+): ValueGenerator {
+  return (random = Math.random, context) => {
+    let value = baseGenerator(random, context);
+    for (let i = 1; i < maxTries; i++) {
+      if (typeof value !== 'number' || (value >= min && value <= max)) return value;
+      value = baseGenerator(random, context);
+    }
+    return typeof value === 'number' ? Math.max(min, Math.min(max, value)) : value;
+  };
+}
+
+/**
+ * Get the values at and either side of a threshold.
+ * The step matches the threshold's precision, so 60 gives [59, 60, 61]
+ * and 6.5 gives [6.4, 6.5, 6.6].
+ *
+ * @param threshold - Threshold value from a predicate
+ * @returns Array of [below, at, above] values
+ */
+export function getBoundaryValues(threshold: number): number[] {
+  const decimals = (String(threshold).split('.')[1] ?? '').length;
+  const step = Math.pow(10, -decimals);
+  const round = (n: number) => Number(n.toFixed(decimals));
+  return [round(threshold - step), threshold, round(threshold + step)];
+}
+
+/**
+ * Create a generator that hits predicate thresholds.
+ *
+ * With the given probability the value is one of the boundary values
+ * of a randomly chosen threshold; otherwise the base generator is used.
+ *
+ * @param thresholds - Threshold values to target
+ * @param baseGenerator - Generator to use when not targeting a threshold
+ * @param probability - Probability of returning a boundary value (0-1)
+ * @returns ValueGenerator function
+ */
+export function createThresholdGenerator(
+  thresholds: number[],
+  baseGenerator: ValueGenerator,
+  probability: number = 0.5
+): ValueGenerator {
+  const boundaries = thresholds.flatMap(getBoundaryValues);
+
+  return (random = Math.random, context) => {
+    if (boundaries.length > 0 && random() < probability) {
+      return boundaries[Math.floor(random() * boundaries.length)];
+    }
+    return baseGenerator(random, context);
   };
 }
@@ -0,0 +1,247 @@
+/**
+ * Dependency Graph
+ *
+ * Builds a graph linking ruleblocks to the EADV attributes they fetch,
+ * the rout_* variables they bind and the variables their rules reference,
+ * and exports it as JSON or Graphviz DOT.
+ */
+
+import {
+  ParsedRuleblock,
+  ParsedFetchStatement,
+  ParsedBindStatement,
+  ParsedComputeStatement,
+  RuleType,
+} from 'picorules-compiler-js-core';
+import { DependencyGraph, GraphEdge, GraphNode } from './models/types';
+import { extractDependencies, routTableName } from './extractor';
+
+/**
+ * Row fields a fetch where-clause may reference
+ */
+const ROW_FIELDS = new Set(['att', 'dt', 'val', 'sysdate']);
+
+/**
+ * Names assigned by each rule of a ruleblock. The `*dv` fetch functions
+ * also assign `<var>_val` and `<var>_dt`.
+ */
+function definedVariables(rb: ParsedRuleblock): Set<string> {
+  const defined = new Set<string>();
+  for (const rule of rb.rules) {
+    const name = rule.assignedVariable.toLowerCase();
+    defined.add(name);
+    if (
+      rule.ruleType === RuleType.FETCH_STATEMENT &&
+      (rule as ParsedFetchStatement).functionName.toLowerCase().endsWith('dv')
+    ) {
+      defined.add(`${name}_val`);
+      defined.add(`${name}_dt`);
+    }
+  }
+  return defined;
+}
+
+/**
+ * Find groups of ruleblocks that depend on each other through binds
+ * (strongly connected components with more than one member, or a
+ * ruleblock binding to itself).
+ */
+function findCycles(sources: Map<string, Set<string>>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (name: string): void => {
+    index.set(name, counter);
+    lowLink.set(name, counter);
+    counter++;
+    stack.push(name);
+    onStack.add(name);
+
+    for (const source of sources.get(name) ?? []) {
+      if (!index.has(source)) {
+        visit(source);
+        lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(source)!));
+      } else if (onStack.has(source)) {
+        lowLink.set(name, Math.min(lowLink.get(name)!, index.get(source)!));
+      }
+    }
+
+    if (lowLink.get(name) === index.get(name)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== name);
+
+      if (component.length > 1 || sources.get(name)?.has(name)) {
+        cycles.push(component.reverse());
+      }
+    }
+  };
+
+  for (const name of sources.keys()) {
+    if (!index.has(name)) visit(name);
+  }
+
+  return cycles;
+}
+
+/**
+ * Build the dependency graph of a batch of ruleblocks.
+ *
+ * @param ruleblocks - Parsed ruleblocks
+ * @returns Nodes, edges, and the problems found in the batch
+ */
+export function buildDependencyGraph(ruleblocks: ParsedRuleblock[]): DependencyGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+  const graph: DependencyGraph = {
+    nodes: [],
+    edges,
+    cycles: [],
+    missingBindSources: [],
+    undefinedVariables: [],
+  };
+
+  const addNode = (kind: GraphNode['kind'], label: string): string => {
+    const id = `${kind}:${label}`;
+    if (!nodes.has(id)) nodes.set(id, { id, kind, label });
+    return id;
+  };
+
+  const names = new Map(ruleblocks.map((rb) => [rb.name.toLowerCase(), rb.name]));
+  const sources = new Map<string, Set<string>>();
+
+  for (const rb of ruleblocks) {
+    const rbId = addNode('ruleblock', rb.name);
+    const { eadvAttributes } = extractDependencies([rb]);
+    const defined = definedVariables(rb);
+    sources.set(rb.name, new Set());
+
+    for (const attr of eadvAttributes) {
+      edges.push({ from: rbId, to: addNode('attribute', attr), kind: 'fetches' });
+    }
+
+    for (const rule of rb.rules) {
+      const name = rule.assignedVariable.toLowerCase();
+      const variableId = addNode('variable', `${rb.name}.${name}`);
+      edges.push({ from: rbId, to: variableId, kind: 'defines' });
+
+      if (rule.ruleType === RuleType.BIND_STATEMENT) {
+        const bind = rule as ParsedBindStatement;
+        const table = routTableName(bind.sourceRuleblock);
+        const routId = addNode('rout', `${table}.${bind.sourceVariable.toLowerCase()}`);
+        edges.push({ from: rbId, to: routId, kind: 'binds' });
+        edges.push({ from: variableId, to: routId, kind: 'references' });
+
+        const source = names.get(bind.sourceRuleblock.toLowerCase());
+        if (source) {
+          sources.get(rb.name)!.add(source);
+          edges.push({
+            from: addNode('variable', `${source}.${bind.sourceVariable.toLowerCase()}`),
+            to: routId,
+            kind: 'produces',
+          });
+        } else {
+          graph.missingBindSources.push({
+            ruleblock: rb.name,
+            table,
+            variable: bind.sourceVariable,
+          });
+        }
+        continue;
+      }
+
+      const references =
+        rule.ruleType === RuleType.COMPUTE_STATEMENT
+          ? (rule as ParsedComputeStatement).references
+          : ((rule as ParsedFetchStatement).references ?? []).filter(
+              (ref) => !ROW_FIELDS.has(ref.toLowerCase())
+            );
+
+      for (const ref of references ?? []) {
+        const referenced = ref.toLowerCase();
+        edges.push({
+          from: variableId,
+          to: addNode('variable', `${rb.name}.${referenced}`),
+          kind: 'references',
+        });
+        if (!defined.has(referenced)) {
+          graph.undefinedVariables.push({
+            ruleblock: rb.name,
+            variable: referenced,
+            referencedBy: name,
+          });
+        }
+      }
+    }
+  }
+
+  graph.nodes = Array.from(nodes.values());
+  graph.cycles = findCycles(sources);
+  return graph;
+}
+
+/**
+ * Export a dependency graph as JSON.
+ *
+ * @param graph - Dependency graph
+ * @returns Pretty-printed JSON
+ */
+export function dependencyGraphToJson(graph: DependencyGraph): string {
+  return JSON.stringify(graph, null, 2);
+}
+
+/**
+ * Quote a string as a DOT ID.
+ */
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+const NODE_SHAPES: Record<GraphNode['kind'], string> = {
+  ruleblock: 'box',
+  attribute: 'ellipse',
+  rout: 'cylinder',
+  variable: 'plaintext',
+};
+
+/**
+ * Export a dependency graph as Graphviz DOT.
+ *
+ * Ruleblocks are boxes, EADV attributes ellipses and rout_* variables
+ * cylinders. Ruleblocks in a cycle, rout_* variables without an in-batch
+ * source and undefined variables are drawn in red.
+ *
+ * @param graph - Dependency graph
+ * @returns DOT source
+ */
+export function dependencyGraphToDot(graph: DependencyGraph): string {
+  const flagged = new Set<string>([
+    ...graph.cycles.flat().map((name) => `ruleblock:${name}`),
+    ...graph.missingBindSources.map((m) => `rout:${m.table}.${m.variable}`),
+    ...graph.undefinedVariables.map((u) => `variable:${u.ruleblock}.${u.variable}`),
+  ]);
+
+  const lines = ['digraph dependencies {', '  rankdir=LR;'];
+
+  for (const node of graph.nodes) {
+    const attrs = [`label=${quote(node.label)}`, `shape=${NODE_SHAPES[node.kind]}`];
+    if (flagged.has(node.id)) attrs.push('color=red', 'fontcolor=red');
+    lines.push(`  ${quote(node.id)} [${attrs.join(', ')}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const style = edge.kind === 'references' || edge.kind === 'produces' ? ', style=dashed' : '';
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(edge.kind)}${style}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
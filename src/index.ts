@@ -8,40 +8,269 @@
  */
 
 // Main API
-export { generateMockData, generateMockDataFromParsed } from './mocker';
+export {
+  generateMockData,
+  generateMockDataFromParsed,
+  streamMockData,
+  streamMockDataFromParsed,
+} from './mocker';
 
 // Extractor utilities
 export {
   extractDependencies,
   extractAttributeList,
+  extractThresholds,
   isWildcardAttribute,
+  matchesAttributePattern,
+  routTableName,
+  attributePatternToRegExp,
   filterConcreteAttributes,
   expandWildcardAttribute,
   expandWildcardAttributes,
+  expandWildcardAttributeDistinct,
+  findVocabularyAttributes,
+  vocabularyAttributeName,
 } from './extractor';
 
 // Generators
-export { generateEntityIds, generateEadvRows } from './generators/eadv-generator';
-export { generateRoutTables } from './generators/rout-generator';
+export {
+  generateEntityIds,
+  generateEadvRows,
+  iterateEadvRows,
+  describeEadvTable,
+} from './generators/eadv-generator';
+export { generateRoutTables, iterateRoutRows } from './generators/rout-generator';
 export {
   clinicalValueGenerators,
   defaultValueGenerator,
   createRangeGenerator,
   createDiscreteGenerator,
   createNullableGenerator,
+  createZeroInflatedGenerator,
+  createNormalGenerator,
+  createTruncatedNormalGenerator,
+  createLogNormalGenerator,
+  createGammaGenerator,
+  createBetaGenerator,
+  createPoissonGenerator,
+  createWeightedGenerator,
+  createMixtureGenerator,
+  createBoundedGenerator,
+  createThresholdGenerator,
+  getBoundaryValues,
 } from './generators/value-generators';
+export {
+  compileGeneratorSpec,
+  validateGeneratorSpec,
+  resolveValueGenerator,
+  resolveValueGenerators,
+  GeneratorSpecError,
+} from './generators/generator-spec';
+export { resolveTrajectory, generateTrajectoryValues } from './generators/trajectory';
+export { resolveObservationCounts } from './generators/observation-counts';
+export {
+  validateDateDistribution,
+  resolveDateDistribution,
+  resolveAttributeDates,
+} from './generators/attribute-dates';
+export {
+  ckdEpi2021,
+  bodyMassIndex,
+  resolveDerivedAttributes,
+  resolveCorrelatedPanels,
+  choleskyDecompose,
+  drawCorrelatedValues,
+  orderAttributesByDerivation,
+} from './generators/correlation';
+export { resolveEncounterPanels, selectOrderedVisits } from './generators/encounters';
+export {
+  resolveDemographics,
+  drawPatient,
+  drawPatients,
+  ageAt,
+  lifespanRange,
+  patientObservations,
+} from './generators/demographics';
+export {
+  resolveMedications,
+  resolveMedicationEvents,
+  generateMedicationEpisodes,
+  medicationEventAttributes,
+  medicationObservations,
+} from './generators/medications';
+export { resolveCohorts, countCohortEntities, assignCohorts } from './generators/cohorts';
+export { resolveFaults, injectEadvFaults, injectRoutFaults } from './generators/faults';
+export {
+  minimumObservationCount,
+  shapeObservationCount,
+  shapeObservationValues,
+} from './generators/observation-shaper';
+export {
+  shapeFilteredObservations,
+  collectFilterExpectations,
+  rowPassesFilter,
+} from './generators/filter-shaper';
+
+// Predicate parsing
+export {
+  parsePredicate,
+  tryParsePredicate,
+  collectComparisons,
+  collectVariables,
+  collectUnsupportedFunctions,
+  evaluateExpression,
+  evaluatePredicate,
+} from './predicates';
+
+// Ruleblock evaluation and branch coverage
+export {
+  evaluateRuleblock,
+  evaluateFetch,
+  evaluateCompute,
+  findUnevaluableComputes,
+  groupRowsByEntity,
+  groupTableRowsByEntity,
+} from './evaluator';
+export { planBranchCoverage, measureBranchCoverage } from './coverage';
+
+// SQL emitter
+export {
+  emitSqlScript,
+  emitCreateTable,
+  emitInserts,
+  inferColumns,
+  inferColumnType,
+  sqlLiteral,
+  canonicalSqlDate,
+} from './emitters/sql-emitter';
+
+// Bulk-load writers
+export {
+  writeBulkFiles,
+  tableRows,
+  writeDelimited,
+  writeJsonLines,
+  writePgCopy,
+  writeSqlLoaderData,
+  sqlLoaderControlFile,
+  writeBcpData,
+  bcpFormatFile,
+} from './emitters/bulk-writers';
+
+// Dependency graph
+export { buildDependencyGraph, dependencyGraphToJson, dependencyGraphToDot } from './graph';
+
+// Ruleblock chaining
+export {
+  orderRuleblocksByBinds,
+  isInBatchRoutTable,
+  deriveRoutTables,
+  findUnevaluableRoutVariables,
+} from './chain';
 
 // Types
 export type {
   EadvRow,
   RoutRow,
   ValueGenerator,
+  GeneratorContext,
+  GeneratedValue,
+  ValueGeneratorSetting,
+  GeneratorSpec,
+  UniformGeneratorSpec,
+  NormalGeneratorSpec,
+  LogNormalGeneratorSpec,
+  GammaGeneratorSpec,
+  BetaGeneratorSpec,
+  PoissonGeneratorSpec,
+  DiscreteGeneratorSpec,
+  ConstantGeneratorSpec,
+  SequenceGeneratorSpec,
+  NullableGeneratorSpec,
+  ZeroInflatedGeneratorSpec,
+  CompositeGeneratorSpec,
+  GeneratorSpecIssue,
+  TrajectorySpec,
+  TrajectoryEvent,
+  DerivedAttributeSpec,
+  DerivedFunctionSpec,
+  BmiFormulaSpec,
+  CkdEpiFormulaSpec,
+  CorrelatedPanelSpec,
+  EncounterPanelSpec,
+  DemographicsSpec,
+  Patient,
+  MedicationSpec,
+  MedicationEventNames,
+  MedicationEpisode,
+  CohortSpec,
+  FaultSpec,
+  FaultType,
+  InjectedFault,
+  ObservationCountSetting,
   DateDistribution,
+  DateDistributionSpec,
+  DateDistributionSetting,
+  RecentWeightedDateSpec,
+  ClusteredDateSpec,
+  ScheduledDateSpec,
+  AttributeDateSettings,
   MockerOptions,
   MockDataResult,
+  MockDataChunk,
   ExtractedDependencies,
+  AttributePin,
+  CodeVocabulary,
+  TableSchema,
+  TableColumn,
+  DependencyGraph,
+  SqlDialect,
+  SqlEmitterOptions,
+  BulkFormat,
+  BulkWriterOptions,
+  GraphNode,
+  GraphEdge,
+  GenerationHints,
+  FilterExpectation,
+  BranchCoverage,
+  CoverageReport,
+  UnevaluableRoutVariable,
 } from './models/types';
+export type {
+  VariableValues,
+  EvaluationContext,
+  ComputeResult,
+  RuleblockEvaluation,
+  UnevaluableCompute,
+} from './evaluator';
+export type { CoveragePlan } from './coverage';
+export type {
+  Expression,
+  ExpressionValue,
+  Comparison,
+  ComparisonOperator,
+  EvaluationScope,
+} from './predicates';
 
 // Utilities
-export { createSeededRandom, randomInt, randomFloat, randomPick } from './utils/random';
-export { generateDates, formatDate, parseDate } from './utils/date-utils';
+export {
+  createSeededRandom,
+  randomInt,
+  randomFloat,
+  randomPick,
+  gaussianRandom,
+  randomNormal,
+  randomTruncatedNormal,
+  randomLogNormal,
+  randomGamma,
+  randomBeta,
+  randomPoisson,
+  randomWeightedIndex,
+} from './utils/random';
+export {
+  generateDates,
+  topUpDates,
+  formatDate,
+  parseDate,
+  parseFormattedDate,
+} from './utils/date-utils';
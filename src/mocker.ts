@@ -5,16 +5,55 @@
  */
 
 import { parse, RuleblockInput, ParsedRuleblock } from 'picorules-compiler-js-core';
-import { extractDependencies } from './extractor';
-import { generateEntityIds, generateEadvRows } from './generators/eadv-generator';
-import { generateRoutTables } from './generators/rout-generator';
-import { defaultValueGenerator } from './generators/value-generators';
+import {
+  extractDependencies,
+  isWildcardAttribute,
+  matchesAttributePattern,
+} from './extractor';
+import {
+  generateEntityIds,
+  generateEadvRows,
+  iterateEadvRows,
+  describeEadvTable,
+} from './generators/eadv-generator';
+import { generateRoutTables, iterateRoutRows } from './generators/rout-generator';
+import { defaultValueGenerator, getBoundaryValues } from './generators/value-generators';
+import { resolveValueGenerator, resolveValueGenerators } from './generators/generator-spec';
+import { resolveTrajectory } from './generators/trajectory';
+import { resolveObservationCounts } from './generators/observation-counts';
+import { resolveDateDistribution, resolveAttributeDates } from './generators/attribute-dates';
+import { resolveDerivedAttributes, resolveCorrelatedPanels } from './generators/correlation';
+import { resolveEncounterPanels } from './generators/encounters';
+import { resolveDemographics, drawPatients } from './generators/demographics';
+import { resolveMedications, resolveMedicationEvents } from './generators/medications';
+import { resolveCohorts, countCohortEntities, assignCohorts } from './generators/cohorts';
+import { resolveFaults, injectEadvFaults, injectRoutFaults } from './generators/faults';
+import {
+  planBranchCoverage,
+  measureBranchCoverage,
+  CoveragePlan,
+  EntityAttributePins,
+} from './coverage';
+import { collectFilterExpectations } from './generators/filter-shaper';
+import {
+  orderRuleblocksByBinds,
+  isInBatchRoutTable,
+  deriveRoutTables,
+  findUnevaluableRoutVariables,
+} from './chain';
 import { createSeededRandom } from './utils/random';
 import { parseDate } from './utils/date-utils';
 import {
+  EadvRow,
+  ExtractedDependencies,
+  MockDataChunk,
   MockerOptions,
+  InjectedFault,
   MockDataResult,
+  Patient,
+  ResolvedCohort,
   ResolvedMockerOptions,
+  RoutRow,
 } from './models/types';
 
 /**
@@ -26,27 +65,142 @@ import {
 function resolveOptions(options: MockerOptions = {}): ResolvedMockerOptions {
   const now = new Date();
   const oneYearAgo = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
+  const dateRange = {
+    start: options.dateRange?.start ? parseDate(options.dateRange.start) : oneYearAgo,
+    end: options.dateRange?.end ? parseDate(options.dateRange.end) : now,
+  };
+  const dateDistribution = resolveDateDistribution(
+    options.dateDistribution ?? 'uniform',
+    'dateDistribution'
+  );
+  const derivedAttributes = resolveDerivedAttributes(
+    options.derivedAttributes ?? {},
+    'derivedAttributes'
+  );
 
   return {
     entityCount: options.entityCount ?? 3,
     entityIdStart: options.entityIdStart ?? 1001,
     observationsPerEntity: options.observationsPerEntity ?? 3,
-    dateRange: {
-      start: options.dateRange?.start
-        ? parseDate(options.dateRange.start)
-        : oneYearAgo,
-      end: options.dateRange?.end ? parseDate(options.dateRange.end) : now,
-    },
+    observationCounts: resolveObservationCounts(
+      options.observationCounts ?? {},
+      'observationCounts'
+    ),
+    dateRange,
     dateFormat: options.dateFormat ?? 'iso',
-    dateDistribution: options.dateDistribution ?? 'uniform',
-    valueGenerators: options.valueGenerators ?? {},
-    defaultValueGenerator: options.defaultValueGenerator ?? defaultValueGenerator,
+    dateDistribution,
+    attributeDates: resolveAttributeDates(
+      options.attributeDates ?? {},
+      { dateRange, dateDistribution },
+      'attributeDates'
+    ),
+    valueGenerators: resolveValueGenerators(options.valueGenerators ?? {}, 'valueGenerators'),
+    defaultValueGenerator: options.defaultValueGenerator
+      ? resolveValueGenerator(options.defaultValueGenerator, 'defaultValueGenerator')
+      : defaultValueGenerator,
     includeMockBindTables: options.includeMockBindTables ?? true,
-    bindTableValues: options.bindTableValues ?? {},
+    chainRuleblocks: options.chainRuleblocks ?? false,
+    bindTableValues: Object.fromEntries(
+      Object.entries(options.bindTableValues ?? {}).map(([table, variables]) => [
+        table,
+        resolveValueGenerators(variables, `bindTableValues.${table}`),
+      ])
+    ),
+    targetThresholds: options.targetThresholds ?? false,
+    thresholdTargetProbability: options.thresholdTargetProbability ?? 0.5,
+    branchCoverage: options.branchCoverage ?? false,
+    minEntitiesPerBranch: options.minEntitiesPerBranch ?? 1,
+    shapeByFetchFunction: options.shapeByFetchFunction ?? true,
+    shapeByFetchFilter: options.shapeByFetchFilter ?? true,
+    vocabularies: options.vocabularies ?? [],
+    wildcardExpansionsPerEntity: options.wildcardExpansionsPerEntity ?? 1,
+    trajectories: Object.fromEntries(
+      Object.entries(options.trajectories ?? {}).map(([att, spec]) => [
+        att,
+        resolveTrajectory(spec, `trajectories.${att}`),
+      ])
+    ),
+    derivedAttributes,
+    correlatedPanels: resolveCorrelatedPanels(
+      options.correlatedPanels ?? [],
+      'correlatedPanels',
+      Object.keys(derivedAttributes)
+    ),
+    demographics: resolveDemographics(options.demographics ?? false, 'demographics'),
+    medications: resolveMedications(
+      options.medications ?? [],
+      resolveMedicationEvents(options.medicationEvents ?? {}, 'medicationEvents'),
+      'medications'
+    ),
+    encounterPanels: resolveEncounterPanels(
+      options.encounterPanels ?? [],
+      { dateRange, dateDistribution },
+      'encounterPanels'
+    ),
+    cohorts: resolveCohorts(options.cohorts ?? [], 'cohorts'),
+    faults: options.faults ? resolveFaults(options.faults, 'faults') : null,
     seed: options.seed ?? Date.now(),
   };
 }
 
+/**
+ * Pin every boundary value of every thresholded attribute (e.g. 59, 60
+ * and 61 for `egfr_last < 60`) on its own entity, so each side of each
+ * threshold is generated whatever the targeting probability. Entities
+ * whose coverage pins already set the attribute are skipped.
+ *
+ * @param thresholds - Map of attribute -> thresholds
+ * @param entityIdStart - First entity ID
+ * @param pins - Branch coverage pins (not modified)
+ * @returns Pins with the boundary values added, and the entity count they need
+ */
+function planThresholdPins(
+  thresholds: Map<string, number[]>,
+  entityIdStart: number,
+  pins: EntityAttributePins = new Map()
+): { pins: EntityAttributePins; entityCount: number } {
+  const planned: EntityAttributePins = new Map(
+    Array.from(pins, ([eid, attributePins]) => [eid, { ...attributePins }])
+  );
+  let entityCount = 0;
+
+  for (const [attr, values] of thresholds) {
+    let eid = entityIdStart;
+    for (const value of values.flatMap(getBoundaryValues)) {
+      while (planned.get(eid)?.[attr]) eid++;
+      planned.set(eid, { ...planned.get(eid), [attr]: { present: true, value } });
+      eid++;
+    }
+    entityCount = Math.max(entityCount, eid - entityIdStart);
+  }
+
+  return { pins: planned, entityCount };
+}
+
+/**
+ * List the concrete attribute names generated for each wildcard attribute.
+ *
+ * @param attributes - Extracted attribute names
+ * @param rows - Generated EADV rows
+ * @returns Map of wildcard pattern -> concrete names
+ */
+function collectWildcardExpansions(
+  attributes: Set<string>,
+  rows: EadvRow[]
+): Record<string, string[]> {
+  const generated = Array.from(new Set(rows.map((row) => row.att)));
+  const expansions: Record<string, string[]> = {};
+
+  for (const attr of attributes) {
+    if (!isWildcardAttribute(attr)) continue;
+    expansions[attr] = generated.filter(
+      (att) => !attributes.has(att) && matchesAttributePattern(attr, att)
+    );
+  }
+
+  return expansions;
+}
+
 /**
  * Generate mock EADV data from raw ruleblock inputs.
  *
@@ -89,6 +243,105 @@ export function generateMockData(input: {
   return generateMockDataFromParsed(parsed, input.options);
 }
 
+/**
+ * Everything generation needs before the first row is produced
+ */
+interface GenerationSetup {
+  opts: ResolvedMockerOptions;
+  random: () => number;
+  ordered: ParsedRuleblock[];
+  dependencies: ExtractedDependencies;
+  plan?: CoveragePlan;
+  attributePins?: EntityAttributePins;
+  entities: number[];
+  cohorts?: Map<number, ResolvedCohort>;
+  patients?: Map<number, Patient>;
+  faultRandom: () => number;
+}
+
+/**
+ * Resolve options, extract dependencies and plan the entity population.
+ * Shared by the in-memory and streaming entry points so both consume the
+ * seeded random function in the same order.
+ *
+ * @param parsed - Array of parsed ruleblocks
+ * @param options - Mocker options
+ * @returns Generation setup
+ */
+function prepareGeneration(
+  parsed: ParsedRuleblock[],
+  options: MockerOptions
+): GenerationSetup {
+  // Resolve options with defaults
+  const opts = resolveOptions(options);
+
+  // Create seeded random generator. Faults draw from their own stream,
+  // so the clean rows don't depend on them.
+  const random = createSeededRandom(opts.seed);
+  const faultRandom = createSeededRandom(opts.seed + 1);
+
+  // Upstream ruleblocks first (throws if the binds form a cycle)
+  const ordered = opts.chainRuleblocks ? orderRuleblocksByBinds(parsed) : parsed;
+
+  // Extract dependencies from the parsed ruleblocks
+  const dependencies = extractDependencies(parsed);
+
+  // Plan pinned values so every compute branch fires (if enabled).
+  // Compiled SQL uses the real sysdate; the end of the range stands in for it.
+  let plan: CoveragePlan | undefined;
+  if (opts.branchCoverage) {
+    plan = planBranchCoverage(
+      parsed,
+      opts.entityIdStart,
+      opts.minEntitiesPerBranch,
+      opts.dateRange.end,
+      random
+    );
+  }
+
+  // Give each threshold boundary value to an entity (if enabled). Other
+  // values of thresholded attributes hit the boundaries by chance.
+  let attributePins = plan?.attributePins;
+  let thresholdEntityCount = 0;
+  if (opts.targetThresholds) {
+    const targeted = planThresholdPins(dependencies.thresholds, opts.entityIdStart, attributePins);
+    attributePins = targeted.pins;
+    thresholdEntityCount = targeted.entityCount;
+  }
+
+  // Generate entity IDs, enough for the pins and the cohorts given by count
+  const entities = generateEntityIds(
+    Math.max(
+      opts.entityCount,
+      plan?.entityCount ?? 0,
+      thresholdEntityCount,
+      countCohortEntities(opts.cohorts)
+    ),
+    opts.entityIdStart
+  );
+
+  // Split the population into cohorts (if any)
+  const cohorts = opts.cohorts.length > 0 ? assignCohorts(entities, opts.cohorts) : undefined;
+
+  // Give each entity a patient's demographics (if enabled)
+  const patients = opts.demographics
+    ? drawPatients(entities, opts.demographics, opts.dateRange, random)
+    : undefined;
+
+  return {
+    opts,
+    random,
+    ordered,
+    dependencies,
+    plan,
+    attributePins,
+    entities,
+    cohorts,
+    patients,
+    faultRandom,
+  };
+}
+
 /**
  * Generate mock EADV data from already-parsed ruleblocks.
  *
@@ -114,37 +367,278 @@ export function generateMockDataFromParsed(
   parsed: ParsedRuleblock[],
   options: MockerOptions = {}
 ): MockDataResult {
-  // Resolve options with defaults
-  const opts = resolveOptions(options);
-
-  // Create seeded random generator
-  const random = createSeededRandom(opts.seed);
-
-  // Extract dependencies from the parsed ruleblocks
-  const { eadvAttributes, bindDependencies } = extractDependencies(parsed);
+  const {
+    opts,
+    random,
+    ordered,
+    dependencies,
+    plan,
+    attributePins,
+    entities,
+    cohorts,
+    patients,
+    faultRandom,
+  } = prepareGeneration(parsed, options);
+  const {
+    eadvAttributes,
+    tableAttributes,
+    bindDependencies,
+    bindDomains,
+    thresholds,
+    fetchFunctions,
+    fetchFilters,
+  } = dependencies;
 
-  // Generate entity IDs
-  const entities = generateEntityIds(opts.entityCount, opts.entityIdStart);
+  // Generate rows for each source table (eadv, eadv_ext, ...), then
+  // dirty them (if faults are configured)
+  const tables: Record<string, EadvRow[]> = {};
+  const faults: InjectedFault[] = [];
+  for (const [table, attributes] of tableAttributes) {
+    tables[table] = generateEadvRows(attributes, entities, opts, random, {
+      pins: attributePins,
+      fetchFunctions,
+      fetchFilters,
+      cohorts,
+      patients,
+      includeDemographics: table === 'eadv',
+      thresholds: opts.targetThresholds ? thresholds : undefined,
+    });
+    if (opts.faults) {
+      const injected = injectEadvFaults(
+        table,
+        tables[table],
+        opts.faults,
+        opts.dateRange,
+        opts.dateFormat,
+        faultRandom
+      );
+      tables[table] = injected.rows;
+      faults.push(...injected.faults);
+    }
+  }
+  const eadv = tables.eadv ?? [];
+  const allRows = Object.values(tables).flat();
 
-  // Generate EADV rows
-  const eadv = generateEadvRows(eadvAttributes, entities, opts, random);
+  // When chaining, only rout tables of out-of-batch ruleblocks are mocked
+  const mockedDependencies = opts.chainRuleblocks
+    ? new Map(
+        Array.from(bindDependencies).filter(
+          ([table]) => !isInBatchRoutTable(table, parsed)
+        )
+      )
+    : bindDependencies;
 
   // Generate rout tables for bind dependencies (if enabled)
-  const routTables = opts.includeMockBindTables
-    ? generateRoutTables(bindDependencies, entities, opts, random)
+  let routTables: Record<string, RoutRow[]> = opts.includeMockBindTables
+    ? generateRoutTables(
+        mockedDependencies,
+        entities,
+        opts,
+        random,
+        plan?.routPins,
+        bindDomains,
+        cohorts
+      )
     : {};
+  if (opts.faults) {
+    for (const [table, rows] of Object.entries(routTables)) {
+      const injected = injectRoutFaults(table, rows, opts.faults, faultRandom);
+      routTables[table] = injected.rows;
+      faults.push(...injected.faults);
+    }
+  }
+
+  // Derive the rest from the upstream ruleblocks' evaluated output
+  let derivedRoutTables: string[] | undefined;
+  if (opts.chainRuleblocks) {
+    const derived = deriveRoutTables(
+      ordered,
+      tables,
+      routTables,
+      entities,
+      opts.dateFormat,
+      opts.dateRange.end
+    );
+    routTables = { ...routTables, ...derived };
+    derivedRoutTables = Object.keys(derived);
+  }
 
   // Build metadata
-  const metadata = {
+  const metadata: MockDataResult['metadata'] = {
     entities,
     attributes: Array.from(eadvAttributes),
     bindDependencies: Array.from(bindDependencies.keys()),
-    totalRows: eadv.length,
+    totalRows: allRows.length,
+    tables: Object.fromEntries(
+      Array.from(tableAttributes).map(([table, attributes]) => [
+        table,
+        describeEadvTable(table, attributes, tables[table]),
+      ])
+    ),
+    thresholds: Object.fromEntries(thresholds),
+    wildcardExpansions: collectWildcardExpansions(eadvAttributes, allRows),
   };
 
+  if (derivedRoutTables) {
+    metadata.derivedRoutTables = derivedRoutTables;
+    metadata.unevaluableRoutVariables = findUnevaluableRoutVariables(ordered);
+  }
+
+  if (opts.faults) {
+    metadata.faults = faults;
+  }
+
+  // Label each entity with its cohort so outputs can be checked against it
+  if (cohorts) {
+    metadata.cohorts = Object.fromEntries(
+      entities.map((eid) => [eid, cohorts.get(eid)?.name ?? null])
+    );
+  }
+
+  // Report which rows pass each fetch where-clause
+  if (fetchFilters.size > 0) {
+    metadata.filterExpectations = collectFilterExpectations(
+      allRows,
+      fetchFilters,
+      opts.dateFormat,
+      opts.dateRange.end
+    );
+  }
+
+  // Report the coverage the generated data actually achieves
+  if (opts.branchCoverage) {
+    metadata.branchCoverage = measureBranchCoverage(
+      ordered,
+      tables,
+      routTables,
+      entities,
+      opts.dateFormat,
+      opts.dateRange.end,
+      opts.minEntitiesPerBranch,
+      derivedRoutTables
+    );
+  }
+
   return {
     eadv,
+    tables,
     routTables,
     metadata,
   };
 }
+
+/**
+ * Stream mock data from raw ruleblock inputs.
+ *
+ * @param input - Object containing ruleblocks and options
+ * @returns Generator of row chunks (see streamMockDataFromParsed)
+ */
+export function streamMockData(input: {
+  ruleblocks: RuleblockInput[];
+  options?: MockerOptions;
+}): Generator<MockDataChunk> {
+  return streamMockDataFromParsed(parse(input.ruleblocks), input.options);
+}
+
+/**
+ * Stream mock data from already-parsed ruleblocks, one entity at a time.
+ *
+ * Chunks come table by table: every entity of the first EADV-shaped
+ * table, then the next table, then the mocked rout_* tables (one row
+ * per chunk). Concatenating the chunks of a table gives exactly the rows
+ * generateMockDataFromParsed returns for the same options and seed.
+ * Only the current entity's rows are held in memory.
+ *
+ * Injected faults are listed in each chunk's `faults`. Metadata that
+ * needs every row (filter expectations, coverage report) is not
+ * produced, and chainRuleblocks is not supported because derived
+ * rout_* tables need each entity's rows from every table at once.
+ *
+ * @param parsed - Array of parsed ruleblocks from the compiler
+ * @param options - Mocker options
+ * @returns Generator of row chunks
+ * @throws Error if chainRuleblocks is enabled
+ *
+ * @example
+ * ```typescript
+ * import { Readable } from 'stream';
+ *
+ * const chunks = streamMockDataFromParsed(parsed, { entityCount: 100000, seed: 1 });
+ * Readable.from(chunks).on('data', ({ table, rows }) => { ... });
+ * ```
+ */
+export function* streamMockDataFromParsed(
+  parsed: ParsedRuleblock[],
+  options: MockerOptions = {}
+): Generator<MockDataChunk> {
+  if (options.chainRuleblocks) {
+    throw new Error('chainRuleblocks is not supported when streaming');
+  }
+
+  const {
+    opts,
+    random,
+    dependencies,
+    plan,
+    attributePins,
+    entities,
+    cohorts,
+    patients,
+    faultRandom,
+  } = prepareGeneration(parsed, options);
+  const label = (eid: number) =>
+    cohorts ? { cohort: cohorts.get(eid)?.name ?? null } : {};
+  const {
+    tableAttributes,
+    bindDependencies,
+    bindDomains,
+    thresholds,
+    fetchFunctions,
+    fetchFilters,
+  } = dependencies;
+
+  for (const [table, attributes] of tableAttributes) {
+    for (const { eid, rows } of iterateEadvRows(attributes, entities, opts, random, {
+      pins: attributePins,
+      fetchFunctions,
+      fetchFilters,
+      cohorts,
+      patients,
+      includeDemographics: table === 'eadv',
+      thresholds: opts.targetThresholds ? thresholds : undefined,
+    })) {
+      if (opts.faults) {
+        const injected = injectEadvFaults(
+          table,
+          rows,
+          opts.faults,
+          opts.dateRange,
+          opts.dateFormat,
+          faultRandom
+        );
+        yield { table, eid, ...label(eid), rows: injected.rows, faults: injected.faults };
+      } else {
+        yield { table, eid, ...label(eid), rows };
+      }
+    }
+  }
+
+  if (opts.includeMockBindTables) {
+    for (const { table, row } of iterateRoutRows(
+      bindDependencies,
+      entities,
+      opts,
+      random,
+      plan?.routPins,
+      bindDomains,
+      cohorts
+    )) {
+      if (opts.faults) {
+        const injected = injectRoutFaults(table, [row], opts.faults, faultRandom);
+        yield { table, eid: row.eid, ...label(row.eid), ...injected };
+      } else {
+        yield { table, eid: row.eid, ...label(row.eid), rows: [row] };
+      }
+    }
+  }
+}
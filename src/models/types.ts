@@ -24,9 +24,244 @@ export interface RoutRow {
 
 /**
  * Value generator function type
- * Takes an optional random function for seeded generation
+ * Takes an optional random function for seeded generation, and
+ * optionally the context of the value being generated
  */
-export type ValueGenerator = (random?: () => number) => number | string | null;
+export type ValueGenerator = (
+  random?: () => number,
+  context?: GeneratorContext
+) => number | string | null;
+
+/**
+ * What a value is being generated for, passed to value generators by
+ * the mocker
+ */
+export interface GeneratorContext {
+  eid: number;
+
+  /** Attribute name, or variable name for rout_* tables */
+  att: string;
+
+  /** Observation date (not set for rout_* tables) */
+  dt?: Date;
+
+  /**
+   * Position of the observation among the entity's observations of
+   * this attribute, most recent first
+   */
+  index: number;
+
+  /**
+   * The entity's values generated so far, keyed by attribute name (for
+   * rout_* tables, by variable name), in generation order. Includes the
+   * earlier observations of the current attribute.
+   */
+  history: Readonly<Record<string, readonly GeneratedValue[]>>;
+
+  /**
+   * State a generator can keep for the entity, shared by every
+   * generator called for it in the same table
+   */
+  scratch: Record<string, unknown>;
+
+  /** The entity's demographics, when they are generated (not set for rout_* tables) */
+  patient?: Patient;
+}
+
+/**
+ * A value in a generator context's history
+ */
+export interface GeneratedValue {
+  /** Observation date (not set for rout_* tables) */
+  dt?: Date;
+  val: number | string | null;
+}
+
+/**
+ * Declarative, serialisable value generator specification.
+ * Specs are plain data, so they can be stored in JSON or YAML profiles
+ * and are compiled into ValueGenerators by the mocker.
+ *
+ * @example
+ * ```json
+ * { "dist": "normal", "mean": 65, "sd": 20, "min": 5, "max": 130, "decimals": 0 }
+ * ```
+ */
+export type GeneratorSpec =
+  | UniformGeneratorSpec
+  | NormalGeneratorSpec
+  | LogNormalGeneratorSpec
+  | GammaGeneratorSpec
+  | BetaGeneratorSpec
+  | PoissonGeneratorSpec
+  | DiscreteGeneratorSpec
+  | ConstantGeneratorSpec
+  | SequenceGeneratorSpec
+  | NullableGeneratorSpec
+  | ZeroInflatedGeneratorSpec
+  | CompositeGeneratorSpec;
+
+/**
+ * Uniform values in [min, max]
+ */
+export interface UniformGeneratorSpec {
+  dist: 'uniform';
+  min: number;
+  max: number;
+  /** Decimal places (0 for integers) @default 0 */
+  decimals?: number;
+}
+
+/**
+ * Normally distributed values, truncated to [min, max] when given
+ */
+export interface NormalGeneratorSpec {
+  dist: 'normal';
+  mean: number;
+  sd: number;
+  min?: number;
+  max?: number;
+  /** Decimal places (0 for integers) @default 1 */
+  decimals?: number;
+}
+
+/**
+ * Log-normally distributed values (right-skewed), kept within
+ * [min, max] when given
+ */
+export interface LogNormalGeneratorSpec {
+  dist: 'lognormal';
+  median: number;
+  /** Standard deviation of log(value) */
+  sdLog: number;
+  min?: number;
+  max?: number;
+  /** Decimal places (0 for integers) @default 1 */
+  decimals?: number;
+}
+
+/**
+ * Gamma-distributed values (mean shape × scale), kept within [min, max]
+ * when given
+ */
+export interface GammaGeneratorSpec {
+  dist: 'gamma';
+  shape: number;
+  scale: number;
+  min?: number;
+  max?: number;
+  /** Decimal places (0 for integers) @default 1 */
+  decimals?: number;
+}
+
+/**
+ * Beta-distributed values scaled to [min, max]
+ */
+export interface BetaGeneratorSpec {
+  dist: 'beta';
+  alpha: number;
+  beta: number;
+  /** @default 0 */
+  min?: number;
+  /** @default 1 */
+  max?: number;
+  /** Decimal places (0 for integers) @default 2 */
+  decimals?: number;
+}
+
+/**
+ * Poisson-distributed counts
+ */
+export interface PoissonGeneratorSpec {
+  dist: 'poisson';
+  lambda: number;
+}
+
+/**
+ * A pick from a set of values, equally likely unless weights are given
+ */
+export interface DiscreteGeneratorSpec {
+  dist: 'discrete';
+  values: (number | string | null)[];
+  /** Relative weight of each value, same length as values */
+  weights?: number[];
+}
+
+/**
+ * The same value every time
+ */
+export interface ConstantGeneratorSpec {
+  dist: 'constant';
+  value: number | string | null;
+}
+
+/**
+ * Values in call order: either cycling through `values`, or counting
+ * from `start` in steps of `step`
+ */
+export interface SequenceGeneratorSpec {
+  dist: 'sequence';
+  values?: (number | string | null)[];
+  start?: number;
+  /** @default 1 */
+  step?: number;
+}
+
+/**
+ * Null with the given probability, otherwise a value from `of`
+ */
+export interface NullableGeneratorSpec {
+  dist: 'nullable';
+  nullProbability: number;
+  of: GeneratorSpec;
+}
+
+/**
+ * Zero with the given probability, otherwise a value from `of`
+ * (e.g. a zero-inflated Poisson count)
+ */
+export interface ZeroInflatedGeneratorSpec {
+  dist: 'zero-inflated';
+  zeroProbability: number;
+  of: GeneratorSpec;
+}
+
+/**
+ * A value from one of several specs, chosen by relative weight
+ */
+export interface CompositeGeneratorSpec {
+  dist: 'composite';
+  components: {
+    /** @default 1 */
+    weight?: number;
+    generator: GeneratorSpec;
+  }[];
+}
+
+/**
+ * A value generator given either as a function or as a spec
+ */
+export type ValueGeneratorSetting = ValueGenerator | GeneratorSpec;
+
+/**
+ * A problem found while validating a generator spec
+ */
+export interface GeneratorSpecIssue {
+  /** Where the problem is, e.g. 'valueGenerators.lab_bld_egfr.sd' */
+  path: string;
+  message: string;
+}
+
+/**
+ * Number of observations of an attribute for one entity: a fixed
+ * number, a range drawn per entity, or a generator or spec drawn per
+ * entity (e.g. `{ dist: 'poisson', lambda: 2 }`). Drawn values are
+ * rounded and negative values become 0.
+ */
+export type ObservationCountSetting =
+  | number
+  | { min: number; max: number }
+  | ValueGeneratorSetting;
 
 /**
  * Date distribution mode for generating observation dates.
@@ -37,6 +272,76 @@ export type ValueGenerator = (random?: () => number) => number | string | null;
  */
 export type DateDistribution = 'uniform' | 'recent-weighted' | 'clustered';
 
+/**
+ * Date distribution with its parameters. 'scheduled' places
+ * observations at regular intervals, e.g. three-monthly HbA1c.
+ */
+export type DateDistributionSpec =
+  | { dist: 'uniform' }
+  | RecentWeightedDateSpec
+  | ClusteredDateSpec
+  | ScheduledDateSpec;
+
+/**
+ * Dates skewed toward the end of the range: start + range × u^(1/lambda)
+ */
+export interface RecentWeightedDateSpec {
+  dist: 'recent-weighted';
+  /** Decay strength; higher values favour recent dates more @default 2.5 */
+  lambda?: number;
+}
+
+/**
+ * Dates grouped into one to three episodes
+ */
+export interface ClusteredDateSpec {
+  dist: 'clustered';
+  /** Standard deviation of dates around an episode, as a share of the range @default 0.05 */
+  spread?: number;
+}
+
+/**
+ * Dates at regular intervals, counting back from a random point in the
+ * last interval of the range. Stops at the start of the range, so there
+ * can be fewer dates than the observation count.
+ */
+export interface ScheduledDateSpec {
+  dist: 'scheduled';
+  intervalDays: number;
+  /** Each date moves up to this many days either way @default 10% of intervalDays */
+  jitterDays?: number;
+}
+
+/**
+ * A date distribution given by name (default parameters) or as a spec
+ */
+export type DateDistributionSetting = DateDistribution | DateDistributionSpec;
+
+/**
+ * Date range and distribution for the attributes matching a pattern.
+ * Unset fields fall back to the global settings.
+ */
+export interface AttributeDateSettings {
+  dateRange?: {
+    start?: string | Date;
+    end?: string | Date;
+  };
+  dateDistribution?: DateDistributionSetting;
+}
+
+/**
+ * Attribute date settings with the global defaults applied
+ */
+export interface ResolvedAttributeDates {
+  /** Attribute name or wildcard pattern (e.g. 'lab_bld_%') */
+  pattern: string;
+  dateRange: {
+    start: Date;
+    end: Date;
+  };
+  dateDistribution: DateDistributionSetting;
+}
+
 /**
  * Configuration options for the mocker
  */
@@ -59,6 +364,15 @@ export interface MockerOptions {
    */
   observationsPerEntity?: number;
 
+  /**
+   * Number of observations per entity of individual attributes, keyed by
+   * attribute name. Overrides `observationsPerEntity` and the counts
+   * shaped for fetch functions. Counts can be zero.
+   */
+  observationCounts?: {
+    [attributeName: string]: ObservationCountSetting;
+  };
+
   /**
    * Date range for generated observations
    */
@@ -78,22 +392,33 @@ export interface MockerOptions {
    * - 'uniform': Evenly distributed (default)
    * - 'recent-weighted': More recent observations
    * - 'clustered': Observations in episodes
+   * - a spec, to set the distribution's parameters or use 'scheduled'
    * @default 'uniform'
    */
-  dateDistribution?: DateDistribution;
+  dateDistribution?: DateDistributionSetting;
+
+  /**
+   * Date range and distribution per attribute, keyed by attribute name
+   * or wildcard pattern (e.g. 'lab_bld_%'). An exact name wins over a
+   * pattern; otherwise the first matching pattern is used.
+   */
+  attributeDates?: {
+    [attributeOrPattern: string]: AttributeDateSettings;
+  };
 
   /**
    * Custom value generators per attribute name
-   * Key is the attribute name (e.g., 'lab_bld_egfr')
+   * Key is the attribute name (e.g., 'lab_bld_egfr'), value is a
+   * generator function or a GeneratorSpec
    */
   valueGenerators?: {
-    [attributeName: string]: ValueGenerator;
+    [attributeName: string]: ValueGeneratorSetting;
   };
 
   /**
    * Default value generator for attributes without custom generators
    */
-  defaultValueGenerator?: ValueGenerator;
+  defaultValueGenerator?: ValueGeneratorSetting;
 
   /**
    * Whether to generate mock rout_* tables for bind dependencies
@@ -101,16 +426,147 @@ export interface MockerOptions {
    */
   includeMockBindTables?: boolean;
 
+  /**
+   * Order ruleblocks by their bind statements and derive the rout_*
+   * tables of in-batch source ruleblocks by evaluating them over the
+   * generated EADV rows. Only rout_* tables of ruleblocks outside the
+   * batch are mocked.
+   * @default false
+   */
+  chainRuleblocks?: boolean;
+
   /**
    * Custom value generators for bind table variables
    * Key is table name (e.g., 'rout_ckd'), value is map of variable -> generator
    */
   bindTableValues?: {
     [tableName: string]: {
-      [variableName: string]: ValueGenerator;
+      [variableName: string]: ValueGeneratorSetting;
     };
   };
 
+  /**
+   * Steer generated values toward the thresholds used in compute
+   * statement predicates (e.g. 59, 60 and 61 for `egfr_last < 60`).
+   * Each boundary value is pinned on at least one entity.
+   * @default false
+   */
+  targetThresholds?: boolean;
+
+  /**
+   * Probability that a value for a thresholded attribute is drawn from
+   * the boundary values instead of the attribute's generator, cohort
+   * generator or trajectory (on entities without a pinned value)
+   * @default 0.5
+   */
+  thresholdTargetProbability?: number;
+
+  /**
+   * Build the entity population so every branch of every compute
+   * statement fires for at least `minEntitiesPerBranch` entities.
+   * The entity count grows beyond `entityCount` if needed.
+   * @default false
+   */
+  branchCoverage?: boolean;
+
+  /**
+   * Minimum number of entities per compute statement branch
+   * when `branchCoverage` is enabled
+   * @default 1
+   */
+  minEntitiesPerBranch?: number;
+
+  /**
+   * Shape rows to fit the fetch functions that read each attribute,
+   * e.g. varied row counts for count(), trends for regr_slope()
+   * @default true
+   */
+  shapeByFetchFunction?: boolean;
+
+  /**
+   * Place rows on both sides of fetch where-clauses, e.g. inside and
+   * outside the window of `.where(dt > sysdate - 90)`
+   * @default true
+   */
+  shapeByFetchFilter?: boolean;
+
+  /**
+   * Code vocabularies used to expand wildcard attributes
+   * (e.g. `icd_c18%`) into real codes instead of random suffixes
+   */
+  vocabularies?: CodeVocabulary[];
+
+  /**
+   * Number of distinct expansions of each wildcard attribute per entity.
+   * A range picks a count per entity.
+   * @default 1
+   */
+  wildcardExpansionsPerEntity?: number | { min: number; max: number };
+
+  /**
+   * Longitudinal trajectories per attribute name. An attribute with a
+   * trajectory gets values that follow a per-entity baseline and trend
+   * over the observation dates instead of independent draws.
+   */
+  trajectories?: {
+    [attributeName: string]: TrajectorySpec;
+  };
+
+  /**
+   * Attributes computed from other attributes of the same entity, keyed
+   * by the derived attribute name (e.g. eGFR from creatinine with
+   * CKD-EPI, BMI from weight and height). Sources are generated first;
+   * the derived attribute takes their dates and values.
+   */
+  derivedAttributes?: {
+    [attributeName: string]: DerivedAttributeSpec;
+  };
+
+  /**
+   * Groups of attributes drawn together from a multivariate normal
+   * distribution, sharing observation dates
+   */
+  correlatedPanels?: CorrelatedPanelSpec[];
+
+  /**
+   * Generate date of birth, sex, Indigenous status and date of death for
+   * each entity, and keep every other observation within the patient's
+   * lifespan. `true` uses the defaults.
+   */
+  demographics?: boolean | DemographicsSpec;
+
+  /**
+   * Medication therapies taken in episodes (e.g. an ACE inhibitor from
+   * March until it is stopped or switched). Each episode is written as
+   * start, refill and stop rows instead of independent values.
+   */
+  medications?: MedicationSpec[];
+
+  /** Attribute names of the medication start, stop and refill rows */
+  medicationEvents?: MedicationEventNames;
+
+  /**
+   * Panels of attributes measured together at encounters (e.g. a renal
+   * panel of creatinine, eGFR and urea from one blood draw). Each entity
+   * gets a set of visits per panel, and the panel's attributes share the
+   * visit dates.
+   */
+  encounterPanels?: EncounterPanelSpec[];
+
+  /**
+   * Sub-populations with their own value generators, trajectories and
+   * bind table values (e.g. 30% "ckd_stage_4", 20% "poor_diabetes",
+   * 50% "healthy"). Each entity's cohort is reported in metadata.
+   */
+  cohorts?: CohortSpec[];
+
+  /**
+   * Data-quality faults injected into the generated rows (duplicates,
+   * nulls, sentinel strings, bad dates, ...). Every fault is logged in
+   * metadata.
+   */
+  faults?: FaultSpec;
+
   /**
    * Random seed for reproducible generation
    * If not provided, uses Date.now()
@@ -119,69 +575,1067 @@ export interface MockerOptions {
 }
 
 /**
- * Result of mock data generation
+ * A per-entity value trajectory over time.
+ *
+ * Each entity draws a baseline (its value at the start of the date range)
+ * and a slope, and may have an acute event. An observation's value is
+ *
+ *   baseline + slope × years since start − event drop
+ *     + persistent deviation (AR(1)) + measurement noise
+ *
+ * then kept within [min, max] and rounded.
+ *
+ * Numbers are constants; generators and specs are drawn once per entity.
  */
-export interface MockDataResult {
+export interface TrajectorySpec {
+  /** Value at the start of the date range */
+  baseline: number | ValueGeneratorSetting;
+
+  /** Change per year (negative for a decline) @default 0 */
+  slope?: number | ValueGeneratorSetting;
+
+  /** An acute drop at a random date, optionally recovering */
+  event?: TrajectoryEvent;
+
+  /** Standard deviation of independent measurement noise @default 0 */
+  noise?: number;
+
   /**
-   * Generated EADV table rows
+   * Standard deviation of a persistent deviation from the trend that
+   * carries over between observations (an AR(1) process) @default 0
    */
-  eadv: EadvRow[];
+  variability?: number;
 
   /**
-   * Generated rout_* table rows (for bind dependencies)
+   * Correlation of the persistent deviation between observations
+   * 30 days apart (0 to 1). Closer observations are more alike.
+   * @default 0.8
    */
-  routTables: {
-    [tableName: string]: RoutRow[];
-  };
+  autocorrelation?: number;
+
+  min?: number;
+  max?: number;
+
+  /** Decimal places (0 for integers) @default 1 */
+  decimals?: number;
+}
+
+/**
+ * An acute drop in a trajectory
+ */
+export interface TrajectoryEvent {
+  /** Share of entities that have the event @default 1 */
+  probability?: number;
+
+  /** Size of the drop (negative for a spike) */
+  depth: number | ValueGeneratorSetting;
 
   /**
-   * Metadata about what was generated
+   * Days to recover linearly back to the trend. Without it the drop
+   * is permanent.
    */
-  metadata: {
-    entities: number[];
-    attributes: string[];
-    bindDependencies: string[];
-    totalRows: number;
+  recoveryDays?: number;
+}
+
+/**
+ * A trajectory with its per-entity settings compiled to generators
+ */
+export interface ResolvedTrajectory {
+  baseline: ValueGenerator;
+  slope: ValueGenerator;
+  event?: {
+    probability: number;
+    depth: ValueGenerator;
+    recoveryDays?: number;
   };
+  noise: number;
+  variability: number;
+  autocorrelation: number;
+  min: number;
+  max: number;
+  decimals: number;
 }
 
 /**
- * Extracted dependencies from parsed ruleblocks
+ * How an attribute is derived from others: a function over the source
+ * values, or a built-in formula
  */
-export interface ExtractedDependencies {
+export type DerivedAttributeSpec = DerivedFunctionSpec | BmiFormulaSpec | CkdEpiFormulaSpec;
+
+/**
+ * An attribute computed by a function of its sources' values
+ */
+export interface DerivedFunctionSpec {
+  /** Source attribute names */
+  from: string[];
+
   /**
-   * Set of unique EADV attribute names needed
+   * Compute the value from the sources' values at (or nearest to) the
+   * observation date, keyed by source attribute name
    */
-  eadvAttributes: Set<string>;
+  derive: (
+    inputs: Record<string, number | string | null>,
+    random: () => number
+  ) => number | string | null;
+}
 
+/**
+ * BMI from weight (kg) and height (cm)
+ */
+export interface BmiFormulaSpec {
+  formula: 'bmi';
+  /** @default 'obs_weight' */
+  weight?: string;
+  /** @default 'obs_height' */
+  height?: string;
+  /** @default 1 */
+  decimals?: number;
+}
+
+/**
+ * eGFR (mL/min/1.73m²) from serum creatinine (µmol/L) with the
+ * race-free CKD-EPI 2021 equation. Age and sex are drawn once per entity.
+ */
+export interface CkdEpiFormulaSpec {
+  formula: 'ckd-epi-2021';
+  /** @default 'lab_bld_creatinine' */
+  creatinine?: string;
+  /** Age in years @default normal, mean 60, sd 15, 18 to 95 */
+  age?: number | ValueGeneratorSetting;
+  /** Share of entities that are female @default 0.5 */
+  femaleProbability?: number;
+  /** @default 0 */
+  decimals?: number;
+}
+
+/**
+ * A derived attribute with its per-entity inputs compiled
+ */
+export interface ResolvedDerivedAttribute {
+  from: string[];
+  /** Extra inputs drawn once per entity (e.g. age and sex) */
+  entityInputs?: (random: () => number) => Record<string, number>;
+  derive: (
+    inputs: Record<string, number | string | null>,
+    random: () => number
+  ) => number | string | null;
+}
+
+/**
+ * Attributes drawn together from a multivariate normal distribution.
+ * Each row of the panel shares one observation date.
+ */
+export interface CorrelatedPanelSpec {
   /**
-   * Map of rout_table name -> Set of variable names
+   * Marginal distribution of each attribute, in the order of the
+   * correlation matrix's rows. Values are clamped to [min, max].
    */
-  bindDependencies: Map<string, Set<string>>;
+  attributes: {
+    [attributeName: string]: {
+      mean: number;
+      sd: number;
+      min?: number;
+      max?: number;
+      /** @default 1 */
+      decimals?: number;
+    };
+  };
+
+  /** Symmetric, positive definite correlation matrix */
+  correlation: number[][];
 }
 
 /**
- * Internal resolved options with all defaults applied
+ * A correlated panel with its correlation matrix factorised
  */
-export interface ResolvedMockerOptions {
-  entityCount: number;
-  entityIdStart: number;
-  observationsPerEntity: number;
-  dateRange: {
-    start: Date;
-    end: Date;
+export interface ResolvedCorrelatedPanel {
+  attributes: string[];
+  marginals: { mean: number; sd: number; min: number; max: number; decimals: number }[];
+  /** Lower-triangular Cholesky factor of the correlation matrix */
+  cholesky: number[][];
+}
+
+/**
+ * Demographic attributes and their distributions
+ */
+export interface DemographicsSpec {
+  /** Attribute names of the demographic rows */
+  attributes?: {
+    /** @default 'dmg_dob' */
+    dob?: string;
+    /** @default 'dmg_gender' */
+    sex?: string;
+    /** @default 'dmg_indigenous' */
+    indigenous?: string;
+    /** @default 'dmg_dod' */
+    dod?: string;
   };
-  dateFormat: 'iso' | 'oracle' | 'mssql';
-  dateDistribution: DateDistribution;
+
+  /**
+   * Age in years at the end of the date range
+   * @default normal, mean 55, sd 18, 18 to 95
+   */
+  age?: number | ValueGeneratorSetting;
+
+  /** Share of patients that are female @default 0.5 */
+  femaleProbability?: number;
+
+  /** Share of patients that are Indigenous @default 0.03 */
+  indigenousProbability?: number;
+
+  /** Share of patients that die within the date range @default 0.05 */
+  deathProbability?: number;
+
+  /** Age in years before which no other observations fall @default 0 */
+  minimumAge?: number;
+
+  /** Values of the sex and Indigenous status rows */
+  codes?: {
+    /** @default 1 */
+    male?: number | string;
+    /** @default 2 */
+    female?: number | string;
+    /** @default 1 */
+    indigenous?: number | string;
+    /** @default 0 */
+    nonIndigenous?: number | string;
+  };
+}
+
+/**
+ * Demographics with their settings resolved
+ */
+export interface ResolvedDemographics {
+  attributes: {
+    dob: string;
+    sex: string;
+    indigenous: string;
+    dod: string;
+  };
+  age: ValueGenerator;
+  femaleProbability: number;
+  indigenousProbability: number;
+  deathProbability: number;
+  minimumAge: number;
+  codes: {
+    male: number | string;
+    female: number | string;
+    indigenous: number | string;
+    nonIndigenous: number | string;
+  };
+}
+
+/**
+ * One entity's demographics
+ */
+export interface Patient {
+  dob: Date;
+  female: boolean;
+  indigenous: boolean;
+  /** Date of death, if the patient dies within the date range */
+  dod?: Date;
+}
+
+/**
+ * A therapy taken in episodes, by one drug of a class at a time
+ */
+export interface MedicationSpec {
+  /** Label used in error messages (e.g. 'ace_inhibitor') */
+  name: string;
+
+  /**
+   * Drug attributes of the therapy (e.g. ['rx_c09aa02', 'rx_c09aa05']).
+   * Each episode uses one of them.
+   */
+  attributes: string[];
+
+  /** Share of entities that ever take the therapy @default 0.5 */
+  probability?: number;
+
+  /** Episodes per entity taking the therapy @default 1 */
+  episodes?: ObservationCountSetting;
+
+  /** Length of an episode in days @default { min: 30, max: 730 } */
+  durationDays?: ObservationCountSetting;
+
+  /** Days between an episode's stop and the next start @default { min: 30, max: 180 } */
+  gapDays?: ObservationCountSetting;
+
+  /**
+   * Chance that the next episode switches to another drug of the
+   * therapy, starting within two weeks of the stop @default 0.3
+   */
+  switchProbability?: number;
+
+  /** Dose, drawn once per episode @default 1 */
+  dose?: number | ValueGeneratorSetting;
+
+  /** Days between refills; no refill rows if unset */
+  refillIntervalDays?: number;
+}
+
+/**
+ * Attribute names of medication events. '{att}' stands for the drug
+ * attribute.
+ */
+export interface MedicationEventNames {
+  /** @default '{att}' */
+  start?: string;
+  /** @default '{att}_stop' */
+  stop?: string;
+  /** @default the start name */
+  refill?: string;
+  /** Value of stop rows @default 0 */
+  stopValue?: number | string | null;
+}
+
+/**
+ * A medication with its settings resolved
+ */
+export interface ResolvedMedication {
+  name: string;
+  attributes: string[];
+  probability: number;
+  episodes: (random: () => number) => number;
+  durationDays: (random: () => number) => number;
+  gapDays: (random: () => number) => number;
+  switchProbability: number;
+  dose: ValueGenerator;
+  refillIntervalDays?: number;
+  events: Required<MedicationEventNames>;
+}
+
+/**
+ * One episode of a medication
+ */
+export interface MedicationEpisode {
+  /** Drug attribute */
+  att: string;
+  start: Date;
+  /** Stop date, unless the episode is ongoing at the end of the range */
+  stop?: Date;
+  dose: number | string | null;
+  refills: Date[];
+}
+
+/**
+ * Rates of data-quality faults, as shares of rows. A row gets at most
+ * one value fault and at most one date fault.
+ */
+export interface FaultSpec {
+  /** Exact copies of rows @default 0 */
+  duplicates?: number;
+
+  /** Extra rows on the same day with a different value @default 0 */
+  conflicts?: number;
+
+  /** Values replaced with null @default 0 */
+  nulls?: number;
+
+  /** Values replaced with a sentinel string @default 0 */
+  sentinels?: number;
+
+  /** @default ['<5', '>90', 'see comment'] */
+  sentinelValues?: string[];
+
+  /** Numeric values made implausible (x10, x100 or negated) @default 0 */
+  outliers?: number;
+
+  /** Numeric values in the wrong unit @default 0 */
+  unitMixups?: number;
+
+  /**
+   * Factor converting each attribute (or pattern) to the wrong unit
+   * (e.g. { lab_bld_creatinine: 1 / 88.4 }) @default 1000
+   */
+  unitFactors?: {
+    [attributeName: string]: number;
+  };
+
+  /** Dates moved before the start of the date range @default 0 */
+  outOfRangeDates?: number;
+
+  /** Dates moved after the end of the date range @default 0 */
+  futureDates?: number;
+
+  /** rout_* rows removed @default 0 */
+  missingRoutRows?: number;
+
+  /** Attributes (or patterns) that can get faults @default every attribute */
+  attributes?: string[];
+}
+
+/**
+ * Fault rates with their defaults applied
+ */
+export interface ResolvedFaults {
+  duplicates: number;
+  conflicts: number;
+  nulls: number;
+  sentinels: number;
+  sentinelValues: string[];
+  outliers: number;
+  unitMixups: number;
+  unitFactors: Record<string, number>;
+  outOfRangeDates: number;
+  futureDates: number;
+  missingRoutRows: number;
+  attributes?: string[];
+}
+
+export type FaultType =
+  | 'duplicate'
+  | 'conflict'
+  | 'null'
+  | 'sentinel'
+  | 'outlier'
+  | 'unit-mixup'
+  | 'out-of-range-date'
+  | 'future-date'
+  | 'missing-rout-row';
+
+/**
+ * A fault injected into the generated data
+ */
+export interface InjectedFault {
+  type: FaultType;
+  table: string;
+  eid: number;
+
+  /** Attribute of the faulty row (EADV-shaped tables) */
+  att?: string;
+
+  /** Date of the faulty row, as written */
+  dt?: string;
+
+  /** Value of the faulty row */
+  val?: number | string | null;
+
+  /**
+   * What a changed row held before, or the removed rout_* row
+   */
+  original?: {
+    dt?: string;
+    val?: number | string | null;
+    row?: RoutRow;
+  };
+}
+
+/**
+ * Attributes collected together at each of an entity's visits
+ */
+export interface EncounterPanelSpec {
+  /** Label used in error messages (e.g. 'renal') */
+  name: string;
+
+  attributes: string[];
+
+  /**
+   * Probability that each attribute is ordered at a visit, keyed by
+   * attribute name @default 1
+   */
+  orderProbability?: {
+    [attributeName: string]: number;
+  };
+
+  /** Visits per entity @default observationsPerEntity */
+  visits?: ObservationCountSetting;
+
+  /** Range of the visit dates; unset fields use the global range */
+  dateRange?: {
+    start?: string | Date;
+    end?: string | Date;
+  };
+
+  /** Distribution of the visit dates @default dateDistribution */
+  dateDistribution?: DateDistributionSetting;
+}
+
+/**
+ * An encounter panel with its settings resolved
+ */
+export interface ResolvedEncounterPanel {
+  name: string;
+  attributes: string[];
+  orderProbability: Record<string, number>;
+  /** Draws one entity's number of visits (observationsPerEntity if unset) */
+  visits?: (random: () => number) => number;
+  dateRange: {
+    start: Date;
+    end: Date;
+  };
+  dateDistribution: DateDistributionSetting;
+}
+
+/**
+ * A sub-population of entities. Give either `count` (exact number of
+ * entities) or `proportion` (share of the entities not in a cohort with
+ * a count). Its settings
+ * replace the global ones for the attributes and variables they name.
+ */
+export interface CohortSpec {
+  /** Label reported for the cohort's entities */
+  name: string;
+  count?: number;
+  proportion?: number;
+  valueGenerators?: {
+    [attributeName: string]: ValueGeneratorSetting;
+  };
+  trajectories?: {
+    [attributeName: string]: TrajectorySpec;
+  };
+  bindTableValues?: {
+    [tableName: string]: {
+      [variableName: string]: ValueGeneratorSetting;
+    };
+  };
+}
+
+/**
+ * A cohort with its settings compiled
+ */
+export interface ResolvedCohort {
+  name: string;
+  count?: number;
+  proportion?: number;
+  valueGenerators: {
+    [attributeName: string]: ValueGenerator;
+  };
+  trajectories: {
+    [attributeName: string]: ResolvedTrajectory;
+  };
+  bindTableValues: {
+    [tableName: string]: {
+      [variableName: string]: ValueGenerator;
+    };
+  };
+}
+
+/**
+ * A set of codes (ICD-10, ICPC-2, ATC, local lab codes, ...) that
+ * wildcard attributes can expand to
+ */
+export interface CodeVocabulary {
+  /**
+   * Vocabulary name, for reference (e.g. 'icd10')
+   */
+  name: string;
+
+  /**
+   * Prefix added to each code to form the attribute name (e.g. 'icd_')
+   */
+  prefix?: string;
+
+  /**
+   * Codes in the vocabulary (e.g. 'C18.0', 'E11.9').
+   * Attribute names are lowercased with punctuation replaced by '_'.
+   */
+  codes: string[];
+}
+
+/**
+ * Extra information used when generating EADV rows,
+ * derived from the ruleblocks rather than the user options
+ */
+export interface GenerationHints {
+  /**
+   * Per-entity constraints, keyed by entity ID then by attribute name
+   * as extracted (before wildcard expansion)
+   */
+  pins?: Map<number, Record<string, AttributePin>>;
+
+  /**
+   * Fetch functions applied to each extracted attribute
+   */
+  fetchFunctions?: Map<string, Set<string>>;
+
+  /**
+   * Where-clauses applied to each extracted attribute
+   */
+  fetchFilters?: Map<string, string[]>;
+
+  /**
+   * Cohort of each entity that belongs to one
+   */
+  cohorts?: Map<number, ResolvedCohort>;
+
+  /**
+   * Demographics of each entity. Other rows are kept within each
+   * patient's lifespan.
+   */
+  patients?: Map<number, Patient>;
+
+  /**
+   * Emit the patients' demographic rows (with the eadv table's rows)
+   */
+  includeDemographics?: boolean;
+
+  /**
+   * Thresholds of each extracted attribute whose boundary values are
+   * mixed into the generated values (when threshold targeting is enabled)
+   */
+  thresholds?: Map<string, number[]>;
+}
+
+/**
+ * Whether a generated row passes a fetch where-clause
+ */
+export interface FilterExpectation {
+  eid: number;
+  att: string;
+  dt: string;
+  predicate: string;
+  passes: boolean;
+}
+
+/**
+ * Constraint on the rows generated for one entity and attribute.
+ * Used to make specific compute statement branches fire.
+ */
+export interface AttributePin {
+  /**
+   * Exact number of rows to generate (0 means no rows)
+   */
+  count?: number;
+
+  /**
+   * Value to use for every row
+   */
+  value?: number | string | null;
+
+  /**
+   * At least one row must be generated
+   */
+  present?: boolean;
+}
+
+/**
+ * Coverage of a single compute statement branch
+ */
+export interface BranchCoverage {
+  /**
+   * Position of the condition in the compute statement
+   */
+  index: number;
+
+  /**
+   * Condition predicate, or null for the default branch
+   */
+  predicate: string | null;
+  returnValue: string;
+
+  /**
+   * Entities for which this branch fired
+   */
+  entities: number[];
+
+  /**
+   * Whether firing can't be measured because the branch depends on a
+   * function the evaluator doesn't implement (entities is then empty)
+   */
+  unevaluable?: boolean;
+}
+
+/**
+ * Branch coverage achieved by the generated data
+ */
+export interface CoverageReport {
+  minEntitiesPerBranch: number;
+
+  /**
+   * Ruleblock name -> compute variable -> branch coverage
+   */
+  ruleblocks: {
+    [ruleblockName: string]: {
+      [variableName: string]: BranchCoverage[];
+    };
+  };
+
+  /**
+   * Branches that fired for fewer than minEntitiesPerBranch entities
+   */
+  unsatisfied: Array<{
+    ruleblock: string;
+    variable: string;
+    branch: number;
+    predicate: string | null;
+  }>;
+
+  /**
+   * Branches whose firing can't be measured because they depend on
+   * functions the evaluator doesn't implement (not listed in unsatisfied)
+   */
+  unevaluable: Array<{
+    ruleblock: string;
+    variable: string;
+    branch: number;
+    predicate: string | null;
+    functions: string[];
+  }>;
+}
+
+/**
+ * A derived rout_* variable written as null because it depends on
+ * functions the evaluator doesn't implement
+ */
+export interface UnevaluableRoutVariable {
+  table: string;
+  variable: string;
+
+  /**
+   * Unsupported functions the variable depends on
+   */
+  functions: string[];
+}
+
+/**
+ * Column of a generated table
+ */
+export interface TableColumn {
+  name: string;
+  type: 'integer' | 'number' | 'string' | 'date';
+}
+
+/**
+ * Schema of a generated EADV-shaped table
+ */
+export interface TableSchema {
+  name: string;
+  columns: TableColumn[];
+
+  /**
+   * Attributes fetched from this table (may include wildcards)
+   */
+  attributes: string[];
+
+  rowCount: number;
+}
+
+/**
+ * SQL dialect targeted by the SQL emitter
+ */
+export type SqlDialect = 'oracle' | 'mssql' | 'postgres' | 'sqlite';
+
+/**
+ * Options for emitting a SQL seed script
+ */
+export interface SqlEmitterOptions {
+  /**
+   * Target database
+   */
+  dialect: SqlDialect;
+
+  /**
+   * Format of the `dt` strings in the result (the mocker's dateFormat)
+   * @default 'iso'
+   */
+  dateFormat?: 'iso' | 'oracle' | 'mssql';
+
+  /**
+   * Rows per INSERT statement. Capped at 1000 for SQL Server and
+   * 500 for SQLite.
+   * @default 100
+   */
+  batchSize?: number;
+
+  /**
+   * Drop each table before creating it
+   * @default false
+   */
+  dropTables?: boolean;
+}
+
+/**
+ * Bulk-load file format
+ *
+ * - csv / tsv: RFC 4180 delimited text with a header row
+ * - jsonl: one JSON object per line
+ * - pgcopy: PostgreSQL `COPY ... FROM STDIN` text stream
+ * - sqlldr: Oracle SQL*Loader data file plus control file
+ * - bcp: SQL Server bcp character data file plus non-XML format file
+ */
+export type BulkFormat = 'csv' | 'tsv' | 'jsonl' | 'pgcopy' | 'sqlldr' | 'bcp';
+
+/**
+ * Options for bulk-load writers
+ */
+export interface BulkWriterOptions {
+  /**
+   * Format of the `dt` strings in the result (the mocker's dateFormat).
+   * Used to detect date columns and to declare the date mask in
+   * SQL*Loader control files.
+   * @default 'iso'
+   */
+  dateFormat?: 'iso' | 'oracle' | 'mssql';
+
+  /**
+   * Text written for null values in CSV/TSV files
+   * @default ''
+   */
+  nullToken?: string;
+
+  /**
+   * Write a header row in CSV/TSV files
+   * @default true
+   */
+  header?: boolean;
+}
+
+/**
+ * Node of a ruleblock dependency graph
+ */
+export interface GraphNode {
+  /**
+   * Unique ID, prefixed by kind (e.g. 'ruleblock:ckd', 'variable:ckd.egfr_last')
+   */
+  id: string;
+  kind: 'ruleblock' | 'attribute' | 'rout' | 'variable';
+  label: string;
+}
+
+/**
+ * Edge of a ruleblock dependency graph
+ *
+ * - fetches: ruleblock -> EADV attribute
+ * - binds: ruleblock -> rout_* variable
+ * - defines: ruleblock -> variable it assigns
+ * - references: variable -> variable it reads
+ * - produces: source ruleblock variable -> rout_* variable
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: 'fetches' | 'binds' | 'defines' | 'references' | 'produces';
+}
+
+/**
+ * Dependency graph of a batch of ruleblocks
+ */
+export interface DependencyGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+
+  /**
+   * Groups of ruleblocks whose bind statements depend on each other
+   */
+  cycles: string[][];
+
+  /**
+   * Binds to ruleblocks that are not in the batch (these rout_* tables
+   * must be mocked)
+   */
+  missingBindSources: Array<{
+    ruleblock: string;
+    table: string;
+    variable: string;
+  }>;
+
+  /**
+   * Variables referenced by a rule but never assigned in its ruleblock
+   */
+  undefinedVariables: Array<{
+    ruleblock: string;
+    variable: string;
+    referencedBy: string;
+  }>;
+}
+
+/**
+ * Result of mock data generation
+ */
+export interface MockDataResult {
+  /**
+   * Generated rows of the `eadv` table
+   */
+  eadv: EadvRow[];
+
+  /**
+   * Generated rows of every EADV-shaped source table, keyed by the table
+   * named in the fetch statements (`eadv`, `eadv_ext`, ...)
+   */
+  tables: {
+    [tableName: string]: EadvRow[];
+  };
+
+  /**
+   * Generated rout_* table rows (for bind dependencies)
+   */
+  routTables: {
+    [tableName: string]: RoutRow[];
+  };
+
+  /**
+   * Metadata about what was generated
+   */
+  metadata: {
+    entities: number[];
+    attributes: string[];
+    bindDependencies: string[];
+    /**
+     * Total rows across all EADV-shaped tables
+     */
+    totalRows: number;
+    /**
+     * Schema of each generated EADV-shaped table
+     */
+    tables: Record<string, TableSchema>;
+    /**
+     * Predicate thresholds found per attribute
+     */
+    thresholds: Record<string, number[]>;
+    /**
+     * Branch coverage report (only when branchCoverage is enabled)
+     */
+    branchCoverage?: CoverageReport;
+    /**
+     * Per-row outcome of each fetch where-clause
+     * (only when the ruleblocks contain where-clauses)
+     */
+    filterExpectations?: FilterExpectation[];
+    /**
+     * rout_* tables derived from in-batch ruleblocks
+     * (only when chainRuleblocks is enabled)
+     */
+    derivedRoutTables?: string[];
+    /**
+     * Derived rout_* variables written as null because they depend on
+     * functions the evaluator doesn't implement
+     * (only when chainRuleblocks is enabled)
+     */
+    unevaluableRoutVariables?: UnevaluableRoutVariable[];
+    /**
+     * Every fault injected into the rows (only when faults are configured)
+     */
+    faults?: InjectedFault[];
+    /**
+     * Concrete attribute names generated for each wildcard attribute
+     */
+    wildcardExpansions: Record<string, string[]>;
+    /**
+     * Cohort name of each entity, null for entities outside every cohort
+     * (only when cohorts are configured)
+     */
+    cohorts?: Record<number, string | null>;
+  };
+}
+
+/**
+ * Rows of one entity in one table, as yielded by the streaming API
+ */
+export interface MockDataChunk {
+  /**
+   * Table the rows belong to (`eadv`, `eadv_ext`, `rout_ckd`, ...)
+   */
+  table: string;
+
+  eid: number;
+
+  /**
+   * Cohort of the entity (only when cohorts are configured)
+   */
+  cohort?: string | null;
+
+  rows: EadvRow[] | RoutRow[];
+
+  /**
+   * Faults injected into the chunk's rows (only when faults are
+   * configured)
+   */
+  faults?: InjectedFault[];
+}
+
+/**
+ * Extracted dependencies from parsed ruleblocks
+ */
+export interface ExtractedDependencies {
+  /**
+   * Set of unique EADV attribute names needed
+   */
+  eadvAttributes: Set<string>;
+
+  /**
+   * Map of source table name -> attributes fetched from it
+   * (e.g. 'eadv' -> {'lab_bld_egfr'}, 'eadv_ext' -> {'icd_n18'})
+   */
+  tableAttributes: Map<string, Set<string>>;
+
+  /**
+   * Map of rout_table name -> Set of variable names
+   */
+  bindDependencies: Map<string, Set<string>>;
+
+  /**
+   * Map of rout_table name -> variable name -> values its source
+   * compute statement can return (only for source ruleblocks in the input)
+   */
+  bindDomains: Map<string, Map<string, (number | string | null)[]>>;
+
+  /**
+   * Map of attribute name -> numeric thresholds compared against it
+   * in compute statement predicates
+   */
+  thresholds: Map<string, number[]>;
+
+  /**
+   * Map of attribute name -> fetch functions that read it
+   * (e.g. 'lab_bld_egfr' -> {'last', 'count'})
+   */
+  fetchFunctions: Map<string, Set<string>>;
+
+  /**
+   * Map of attribute name -> where-clauses of the fetches that read it
+   * (e.g. 'lab_bld_egfr' -> ['dt > sysdate - 90'])
+   */
+  fetchFilters: Map<string, string[]>;
+}
+
+/**
+ * Internal resolved options with all defaults applied
+ */
+export interface ResolvedMockerOptions {
+  entityCount: number;
+  entityIdStart: number;
+  observationsPerEntity: number;
+  observationCounts: {
+    [attributeName: string]: (random: () => number) => number;
+  };
+  dateRange: {
+    start: Date;
+    end: Date;
+  };
+  dateFormat: 'iso' | 'oracle' | 'mssql';
+  dateDistribution: DateDistributionSetting;
+  attributeDates: ResolvedAttributeDates[];
   valueGenerators: {
     [attributeName: string]: ValueGenerator;
   };
   defaultValueGenerator: ValueGenerator;
   includeMockBindTables: boolean;
+  chainRuleblocks: boolean;
   bindTableValues: {
     [tableName: string]: {
       [variableName: string]: ValueGenerator;
     };
   };
+  targetThresholds: boolean;
+  thresholdTargetProbability: number;
+  branchCoverage: boolean;
+  minEntitiesPerBranch: number;
+  shapeByFetchFunction: boolean;
+  shapeByFetchFilter: boolean;
+  vocabularies: CodeVocabulary[];
+  wildcardExpansionsPerEntity: number | { min: number; max: number };
+  trajectories: {
+    [attributeName: string]: ResolvedTrajectory;
+  };
+  derivedAttributes: {
+    [attributeName: string]: ResolvedDerivedAttribute;
+  };
+  correlatedPanels: ResolvedCorrelatedPanel[];
+  demographics: ResolvedDemographics | null;
+  medications: ResolvedMedication[];
+  encounterPanels: ResolvedEncounterPanel[];
+  cohorts: ResolvedCohort[];
+  faults: ResolvedFaults | null;
   seed: number;
 }
@@ -0,0 +1,757 @@
+/**
+ * Predicate Parser
+ *
+ * Parses and evaluates the SQL-like predicates used in Picorules
+ * compute statement conditions (e.g. `egfr_last < 60 and acr > 30`).
+ */
+
+/**
+ * A value produced while evaluating an expression.
+ * Dates are kept as Date objects so date arithmetic works in days.
+ */
+export type ExpressionValue = number | string | Date | null;
+
+/**
+ * Comparison operators supported in predicates
+ */
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '=' | '!=';
+
+/**
+ * Parsed predicate expression tree
+ */
+export type Expression =
+  | { kind: 'literal'; value: number | string | null }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: Expression }
+  | {
+      kind: 'binary';
+      operator: '+' | '-' | '*' | '/' | 'and' | 'or' | ComparisonOperator;
+      left: Expression;
+      right: Expression;
+    }
+  | {
+      kind: 'between';
+      operand: Expression;
+      lower: Expression;
+      upper: Expression;
+      negated: boolean;
+    }
+  | { kind: 'in'; operand: Expression; values: Expression[]; negated: boolean }
+  | { kind: 'isNull'; operand: Expression; negated: boolean }
+  | { kind: 'call'; name: string; args: Expression[] };
+
+/**
+ * A simple `variable <op> number` comparison found in a predicate
+ */
+export interface Comparison {
+  variable: string;
+  operator: ComparisonOperator;
+  value: number;
+}
+
+/**
+ * Variables available while evaluating an expression
+ */
+export interface EvaluationScope {
+  variables: Record<string, ExpressionValue>;
+
+  /**
+   * Value used for `sysdate` in date arithmetic
+   * @default new Date()
+   */
+  sysdate?: Date;
+}
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator';
+  value: string;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Split a predicate into tokens.
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(text[i + 1] ?? ''))) {
+      let end = i;
+      while (end < text.length && /[0-9.]/.test(text[end])) end++;
+      tokens.push({ type: 'number', value: text.slice(i, end) });
+      i = end;
+    } else if (/[a-zA-Z_]/.test(ch)) {
+      let end = i;
+      while (end < text.length && /[a-zA-Z0-9_]/.test(text[end])) end++;
+      tokens.push({ type: 'identifier', value: text.slice(i, end).toLowerCase() });
+      i = end;
+    } else if (ch === "'") {
+      // SQL string literal, '' escapes a quote
+      let value = '';
+      let end = i + 1;
+      while (end < text.length) {
+        if (text[end] === "'") {
+          if (text[end + 1] === "'") {
+            value += "'";
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        value += text[end++];
+      }
+      if (end >= text.length) {
+        throw new Error(`Unterminated string literal in predicate: ${text}`);
+      }
+      tokens.push({ type: 'string', value });
+      i = end + 1;
+    } else {
+      const two = text.slice(i, i + 2);
+      if (two === '<=' || two === '>=' || two === '<>' || two === '!=' || two === '!?') {
+        tokens.push({ type: 'operator', value: two === '<>' ? '!=' : two });
+        i += 2;
+      } else if ('<>=+-*/(),?'.includes(ch)) {
+        tokens.push({ type: 'operator', value: ch });
+        i++;
+      } else {
+        throw new Error(`Unexpected character '${ch}' in predicate: ${text}`);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over a token list.
+ */
+class PredicateParser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly text: string
+  ) {}
+
+  parse(): Expression {
+    const expr = this.parseOr();
+    if (this.pos < this.tokens.length) {
+      throw new Error(
+        `Unexpected '${this.tokens[this.pos].value}' in predicate: ${this.text}`
+      );
+    }
+    return expr;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isKeyword(word: string, offset: number = 0): boolean {
+    const token = this.tokens[this.pos + offset];
+    return token?.type === 'identifier' && token.value === word;
+  }
+
+  private isOperator(op: string): boolean {
+    const token = this.peek();
+    return token?.type === 'operator' && token.value === op;
+  }
+
+  private expectOperator(op: string): void {
+    if (!this.isOperator(op)) {
+      throw new Error(`Expected '${op}' in predicate: ${this.text}`);
+    }
+    this.pos++;
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.isKeyword('or')) {
+      this.pos++;
+      left = { kind: 'binary', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.isKeyword('and')) {
+      this.pos++;
+      left = { kind: 'binary', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.isKeyword('not')) {
+      this.pos++;
+      return { kind: 'unary', operator: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (token?.type === 'operator' && ['<', '<=', '>', '>=', '=', '!='].includes(token.value)) {
+      this.pos++;
+      return {
+        kind: 'binary',
+        operator: token.value as ComparisonOperator,
+        left,
+        right: this.parseAdditive(),
+      };
+    }
+
+    // Picorules shorthand: `x?` is null, `x!?` is not null
+    if (this.isOperator('?') || this.isOperator('!?')) {
+      const isNegated = this.tokens[this.pos++].value === '!?';
+      return { kind: 'isNull', operand: left, negated: isNegated };
+    }
+
+    const negated = this.isKeyword('not') && (this.isKeyword('between', 1) || this.isKeyword('in', 1));
+    if (negated) this.pos++;
+
+    if (this.isKeyword('between')) {
+      this.pos++;
+      const lower = this.parseAdditive();
+      if (!this.isKeyword('and')) {
+        throw new Error(`Expected 'and' after between in predicate: ${this.text}`);
+      }
+      this.pos++;
+      const upper = this.parseAdditive();
+      return { kind: 'between', operand: left, lower, upper, negated };
+    }
+
+    if (this.isKeyword('in')) {
+      this.pos++;
+      this.expectOperator('(');
+      const values = [this.parseAdditive()];
+      while (this.isOperator(',')) {
+        this.pos++;
+        values.push(this.parseAdditive());
+      }
+      this.expectOperator(')');
+      return { kind: 'in', operand: left, values, negated };
+    }
+
+    if (this.isKeyword('is')) {
+      this.pos++;
+      let isNegated = false;
+      if (this.isKeyword('not')) {
+        this.pos++;
+        isNegated = true;
+      }
+      if (!this.isKeyword('null')) {
+        throw new Error(`Expected 'null' after is in predicate: ${this.text}`);
+      }
+      this.pos++;
+      return { kind: 'isNull', operand: left, negated: isNegated };
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const operator = this.tokens[this.pos++].value as '+' | '-';
+      left = { kind: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary();
+    while (this.isOperator('*') || this.isOperator('/')) {
+      const operator = this.tokens[this.pos++].value as '*' | '/';
+      left = { kind: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.isOperator('-')) {
+      this.pos++;
+      const operand = this.parseUnary();
+      // Fold negative number literals so comparisons stay simple
+      if (operand.kind === 'literal' && typeof operand.value === 'number') {
+        return { kind: 'literal', value: -operand.value };
+      }
+      return { kind: 'unary', operator: '-', operand };
+    }
+    if (this.isOperator('+')) {
+      this.pos++;
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+    if (!token) {
+      throw new Error(`Unexpected end of predicate: ${this.text}`);
+    }
+    this.pos++;
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'identifier':
+        if (token.value === 'null') {
+          return { kind: 'literal', value: null };
+        }
+        if (this.isOperator('(')) {
+          this.pos++;
+          const args: Expression[] = [];
+          if (!this.isOperator(')')) {
+            args.push(this.parseOr());
+            while (this.isOperator(',')) {
+              this.pos++;
+              args.push(this.parseOr());
+            }
+          }
+          this.expectOperator(')');
+          return { kind: 'call', name: token.value, args };
+        }
+        return { kind: 'variable', name: token.value };
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expectOperator(')');
+          return inner;
+        }
+        break;
+    }
+
+    throw new Error(`Unexpected '${token.value}' in predicate: ${this.text}`);
+  }
+}
+
+/**
+ * Parse a predicate string into an expression tree.
+ *
+ * @param predicate - Predicate text, e.g. `egfr_last < 60`
+ * @returns Parsed expression
+ * @throws Error if the predicate is not valid
+ */
+export function parsePredicate(predicate: string): Expression {
+  return new PredicateParser(tokenize(predicate), predicate).parse();
+}
+
+/**
+ * Parse a predicate, returning undefined instead of throwing.
+ *
+ * @param predicate - Predicate text
+ * @returns Parsed expression, or undefined if it cannot be parsed
+ */
+export function tryParsePredicate(predicate: string): Expression | undefined {
+  try {
+    return parsePredicate(predicate);
+  } catch {
+    return undefined;
+  }
+}
+
+const FLIPPED_OPERATORS: Record<ComparisonOperator, ComparisonOperator> = {
+  '<': '>',
+  '<=': '>=',
+  '>': '<',
+  '>=': '<=',
+  '=': '=',
+  '!=': '!=',
+};
+
+/**
+ * Collect every `variable <op> number` comparison in an expression.
+ * Literals on the left are flipped (`60 > egfr` becomes `egfr < 60`),
+ * `between` yields a lower and an upper bound, and `in` yields equalities.
+ *
+ * @param expr - Parsed expression
+ * @returns Array of simple comparisons
+ */
+export function collectComparisons(expr: Expression): Comparison[] {
+  const result: Comparison[] = [];
+
+  const numberOf = (e: Expression): number | undefined =>
+    e.kind === 'literal' && typeof e.value === 'number' ? e.value : undefined;
+
+  const visit = (e: Expression): void => {
+    switch (e.kind) {
+      case 'binary': {
+        if (e.operator in FLIPPED_OPERATORS) {
+          const operator = e.operator as ComparisonOperator;
+          const rightNum = numberOf(e.right);
+          const leftNum = numberOf(e.left);
+          if (e.left.kind === 'variable' && rightNum !== undefined) {
+            result.push({ variable: e.left.name, operator, value: rightNum });
+          } else if (e.right.kind === 'variable' && leftNum !== undefined) {
+            result.push({
+              variable: e.right.name,
+              operator: FLIPPED_OPERATORS[operator],
+              value: leftNum,
+            });
+          }
+        }
+        visit(e.left);
+        visit(e.right);
+        break;
+      }
+      case 'between': {
+        const lower = numberOf(e.lower);
+        const upper = numberOf(e.upper);
+        if (e.operand.kind === 'variable') {
+          if (lower !== undefined) {
+            result.push({ variable: e.operand.name, operator: '>=', value: lower });
+          }
+          if (upper !== undefined) {
+            result.push({ variable: e.operand.name, operator: '<=', value: upper });
+          }
+        }
+        break;
+      }
+      case 'in': {
+        if (e.operand.kind === 'variable') {
+          for (const v of e.values) {
+            const num = numberOf(v);
+            if (num !== undefined) {
+              result.push({ variable: e.operand.name, operator: '=', value: num });
+            }
+          }
+        }
+        break;
+      }
+      case 'unary':
+        visit(e.operand);
+        break;
+      case 'call':
+        e.args.forEach(visit);
+        break;
+      default:
+        break;
+    }
+  };
+
+  visit(expr);
+  return result;
+}
+
+/**
+ * Collect the names of all variables referenced by an expression.
+ *
+ * @param expr - Parsed expression
+ * @returns Set of variable names
+ */
+export function collectVariables(expr: Expression): Set<string> {
+  const names = new Set<string>();
+
+  const visit = (e: Expression): void => {
+    switch (e.kind) {
+      case 'variable':
+        if (e.name !== 'sysdate') names.add(e.name);
+        break;
+      case 'unary':
+        visit(e.operand);
+        break;
+      case 'binary':
+        visit(e.left);
+        visit(e.right);
+        break;
+      case 'between':
+        visit(e.operand);
+        visit(e.lower);
+        visit(e.upper);
+        break;
+      case 'in':
+        visit(e.operand);
+        e.values.forEach(visit);
+        break;
+      case 'isNull':
+        visit(e.operand);
+        break;
+      case 'call':
+        e.args.forEach(visit);
+        break;
+      default:
+        break;
+    }
+  };
+
+  visit(expr);
+  return names;
+}
+
+/** Functions {@link evaluateExpression} implements. */
+const SUPPORTED_FUNCTIONS = new Set([
+  'coalesce',
+  'nvl',
+  'greatest',
+  'least',
+  'abs',
+  'round',
+  'trunc',
+]);
+
+/**
+ * Collect the functions an expression calls that the evaluator doesn't
+ * implement. Calls to them evaluate to null (unknown).
+ *
+ * @param expr - Parsed expression
+ * @returns Names of the unsupported functions, in order of first use
+ */
+export function collectUnsupportedFunctions(expr: Expression): string[] {
+  const names = new Set<string>();
+
+  const visit = (e: Expression): void => {
+    switch (e.kind) {
+      case 'unary':
+        visit(e.operand);
+        break;
+      case 'binary':
+        visit(e.left);
+        visit(e.right);
+        break;
+      case 'between':
+        visit(e.operand);
+        visit(e.lower);
+        visit(e.upper);
+        break;
+      case 'in':
+        visit(e.operand);
+        e.values.forEach(visit);
+        break;
+      case 'isNull':
+        visit(e.operand);
+        break;
+      case 'call':
+        if (!SUPPORTED_FUNCTIONS.has(e.name)) names.add(e.name);
+        e.args.forEach(visit);
+        break;
+      default:
+        break;
+    }
+  };
+
+  visit(expr);
+  return [...names];
+}
+
+/**
+ * Coerce two operands to a comparable pair of numbers or strings.
+ */
+function comparable(
+  a: ExpressionValue,
+  b: ExpressionValue
+): [number, number] | [string, string] {
+  const toNum = (v: ExpressionValue): number =>
+    v instanceof Date ? v.getTime() : Number(v);
+
+  if (typeof a === 'string' && typeof b === 'string') {
+    return [a, b];
+  }
+  const na = toNum(a);
+  const nb = toNum(b);
+  if (Number.isNaN(na) || Number.isNaN(nb)) {
+    return [String(a), String(b)];
+  }
+  return [na, nb];
+}
+
+function compare(
+  operator: ComparisonOperator,
+  a: ExpressionValue,
+  b: ExpressionValue
+): boolean | null {
+  if (a === null || b === null) return null;
+  const [x, y] = comparable(a, b);
+  switch (operator) {
+    case '<':
+      return x < y;
+    case '<=':
+      return x <= y;
+    case '>':
+      return x > y;
+    case '>=':
+      return x >= y;
+    case '=':
+      return x === y;
+    case '!=':
+      return x !== y;
+  }
+}
+
+function arithmetic(
+  operator: '+' | '-' | '*' | '/',
+  a: ExpressionValue,
+  b: ExpressionValue
+): ExpressionValue {
+  if (a === null || b === null) return null;
+
+  // Date arithmetic works in days, as in Oracle
+  if (a instanceof Date && b instanceof Date && operator === '-') {
+    return (a.getTime() - b.getTime()) / MS_PER_DAY;
+  }
+  if (a instanceof Date && typeof b === 'number' && (operator === '+' || operator === '-')) {
+    const sign = operator === '+' ? 1 : -1;
+    return new Date(a.getTime() + sign * b * MS_PER_DAY);
+  }
+
+  const x = Number(a);
+  const y = Number(b);
+  if (Number.isNaN(x) || Number.isNaN(y)) return null;
+
+  switch (operator) {
+    case '+':
+      return x + y;
+    case '-':
+      return x - y;
+    case '*':
+      return x * y;
+    case '/':
+      return y === 0 ? null : x / y;
+  }
+}
+
+function callFunction(name: string, args: ExpressionValue[]): ExpressionValue {
+  const nonNull = args.filter((a): a is number | string | Date => a !== null);
+
+  switch (name) {
+    case 'coalesce':
+    case 'nvl':
+      return nonNull.length > 0 ? nonNull[0] : null;
+    case 'greatest':
+    case 'least': {
+      if (nonNull.length !== args.length || args.length === 0) return null;
+      const nums = nonNull.map((a) => (a instanceof Date ? a.getTime() : Number(a)));
+      return name === 'greatest' ? Math.max(...nums) : Math.min(...nums);
+    }
+    case 'abs':
+      return args[0] === null ? null : Math.abs(Number(args[0]));
+    case 'round': {
+      if (args[0] === null) return null;
+      const factor = Math.pow(10, args[1] === undefined ? 0 : Number(args[1]));
+      return Math.round(Number(args[0]) * factor) / factor;
+    }
+    case 'trunc':
+      return args[0] === null ? null : Math.trunc(Number(args[0]));
+    default:
+      // Unsupported functions are unknown; see collectUnsupportedFunctions.
+      return null;
+  }
+}
+
+/**
+ * Evaluate an expression against a set of variables.
+ *
+ * Follows SQL semantics: comparisons involving null yield null,
+ * and `and`/`or` use three-valued logic. Logical results are
+ * returned as 1 (true), 0 (false) or null (unknown).
+ *
+ * @param expr - Parsed expression
+ * @param scope - Variable values and sysdate
+ * @returns Evaluated value
+ */
+export function evaluateExpression(
+  expr: Expression,
+  scope: EvaluationScope
+): ExpressionValue {
+  const truth = (v: boolean | null): ExpressionValue =>
+    v === null ? null : v ? 1 : 0;
+  const asBool = (v: ExpressionValue): boolean | null =>
+    v === null ? null : Number(v) !== 0;
+
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+
+    case 'variable':
+      if (expr.name === 'sysdate') {
+        return scope.sysdate ?? new Date();
+      }
+      return scope.variables[expr.name] ?? null;
+
+    case 'unary': {
+      const v = evaluateExpression(expr.operand, scope);
+      if (expr.operator === 'not') {
+        const b = asBool(v);
+        return truth(b === null ? null : !b);
+      }
+      return v === null ? null : -Number(v);
+    }
+
+    case 'binary': {
+      if (expr.operator === 'and' || expr.operator === 'or') {
+        const l = asBool(evaluateExpression(expr.left, scope));
+        const r = asBool(evaluateExpression(expr.right, scope));
+        if (expr.operator === 'and') {
+          if (l === false || r === false) return 0;
+          return truth(l === null || r === null ? null : true);
+        }
+        if (l === true || r === true) return 1;
+        return truth(l === null || r === null ? null : false);
+      }
+
+      const left = evaluateExpression(expr.left, scope);
+      const right = evaluateExpression(expr.right, scope);
+      if (
+        expr.operator === '+' ||
+        expr.operator === '-' ||
+        expr.operator === '*' ||
+        expr.operator === '/'
+      ) {
+        return arithmetic(expr.operator, left, right);
+      }
+      return truth(compare(expr.operator, left, right));
+    }
+
+    case 'between': {
+      const v = evaluateExpression(expr.operand, scope);
+      const lo = compare('>=', v, evaluateExpression(expr.lower, scope));
+      const hi = compare('<=', v, evaluateExpression(expr.upper, scope));
+      if (lo === null || hi === null) return null;
+      return truth(expr.negated ? !(lo && hi) : lo && hi);
+    }
+
+    case 'in': {
+      const v = evaluateExpression(expr.operand, scope);
+      if (v === null) return null;
+      const found = expr.values.some(
+        (candidate) => compare('=', v, evaluateExpression(candidate, scope)) === true
+      );
+      return truth(expr.negated ? !found : found);
+    }
+
+    case 'isNull': {
+      const isNull = evaluateExpression(expr.operand, scope) === null;
+      return truth(expr.negated ? !isNull : isNull);
+    }
+
+    case 'call':
+      return callFunction(
+        expr.name,
+        expr.args.map((a) => evaluateExpression(a, scope))
+      );
+  }
+}
+
+/**
+ * Evaluate a predicate to a boolean. Unknown (null) results are false,
+ * matching how SQL CASE WHEN treats them.
+ *
+ * @param expr - Parsed predicate
+ * @param scope - Variable values and sysdate
+ * @returns True if the predicate holds
+ */
+export function evaluatePredicate(expr: Expression, scope: EvaluationScope): boolean {
+  const v = evaluateExpression(expr, scope);
+  return v !== null && Number(v) !== 0;
+}
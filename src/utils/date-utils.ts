@@ -5,7 +5,27 @@
  * Supports multiple distribution modes for realistic clinical patterns.
  */
 
-import { DateDistribution } from '../models/types';
+import { DateDistributionSetting, DateDistributionSpec } from '../models/types';
+import { gaussianRandom } from './random';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Decay strength of 'recent-weighted' dates (2.5 gives good clinical
+ * realism; higher values cluster more toward recent)
+ */
+const DEFAULT_RECENCY_LAMBDA = 2.5;
+
+/**
+ * Standard deviation of 'clustered' dates around an episode, as a share
+ * of the range (roughly 2-4 weeks over a year)
+ */
+const DEFAULT_CLUSTER_SPREAD = 0.05;
+
+/**
+ * Jitter of 'scheduled' dates, as a share of the interval
+ */
+const DEFAULT_SCHEDULE_JITTER = 0.1;
 
 /**
  * Generate an array of dates within a range using the specified distribution.
@@ -16,27 +36,53 @@ import { DateDistribution } from '../models/types';
  * @param startDate - Start of date range
  * @param endDate - End of date range
  * @param random - Random function for reproducibility
- * @param distribution - Distribution mode: 'uniform', 'recent-weighted', or 'clustered'
- * @returns Array of Date objects in descending order
+ * @param distribution - Distribution mode ('uniform', 'recent-weighted' or
+ *                       'clustered') or a spec with its parameters
+ * @returns Array of Date objects in descending order ('scheduled' can
+ *          return fewer than count)
  */
 export function generateDates(
   count: number,
   startDate: Date,
   endDate: Date,
   random: () => number,
-  distribution: DateDistribution = 'uniform'
+  distribution: DateDistributionSetting = 'uniform'
 ): Date[] {
   const startMs = startDate.getTime();
   const endMs = endDate.getTime();
+  const spec: DateDistributionSpec =
+    typeof distribution === 'string' ? { dist: distribution } : distribution;
 
   let dates: Date[];
 
-  switch (distribution) {
+  switch (spec.dist) {
     case 'recent-weighted':
-      dates = generateRecentWeightedDates(count, startMs, endMs, random);
+      dates = generateRecentWeightedDates(
+        count,
+        startMs,
+        endMs,
+        random,
+        spec.lambda ?? DEFAULT_RECENCY_LAMBDA
+      );
       break;
     case 'clustered':
-      dates = generateClusteredDates(count, startMs, endMs, random);
+      dates = generateClusteredDates(
+        count,
+        startMs,
+        endMs,
+        random,
+        spec.spread ?? DEFAULT_CLUSTER_SPREAD
+      );
+      break;
+    case 'scheduled':
+      dates = generateScheduledDates(
+        count,
+        startMs,
+        endMs,
+        random,
+        spec.intervalDays,
+        spec.jitterDays ?? spec.intervalDays * DEFAULT_SCHEDULE_JITTER
+      );
       break;
     case 'uniform':
     default:
@@ -50,6 +96,35 @@ export function generateDates(
   return dates;
 }
 
+/**
+ * Add dates spread evenly across a range until there are at least
+ * `count`, for rows that must exist even when a 'scheduled'
+ * distribution runs out of slots.
+ *
+ * @param dates - Dates generated so far
+ * @param count - Number of dates needed
+ * @param startDate - Start of date range
+ * @param endDate - End of date range
+ * @param random - Random function for reproducibility
+ * @returns The dates, topped up, in descending order
+ */
+export function topUpDates(
+  dates: Date[],
+  count: number,
+  startDate: Date,
+  endDate: Date,
+  random: () => number
+): Date[] {
+  if (dates.length >= count) return dates;
+  const extra = generateUniformDates(
+    count - dates.length,
+    startDate.getTime(),
+    endDate.getTime(),
+    random
+  );
+  return [...dates, ...extra].sort((a, b) => b.getTime() - a.getTime());
+}
+
 /**
  * Uniform distribution: evenly spread across the date range with jitter.
  */
@@ -90,15 +165,12 @@ function generateRecentWeightedDates(
   count: number,
   startMs: number,
   endMs: number,
-  random: () => number
+  random: () => number,
+  lambda: number
 ): Date[] {
   const dates: Date[] = [];
   const rangeMs = endMs - startMs;
 
-  // Lambda controls decay strength (2.5 gives good clinical realism)
-  // Higher values = more clustered toward recent
-  const lambda = 2.5;
-
   for (let i = 0; i < count; i++) {
     // Inverse power transform: maps uniform [0,1] to recent-weighted
     // u^(1/lambda) concentrates values toward 1 (recent end)
@@ -128,7 +200,8 @@ function generateClusteredDates(
   count: number,
   startMs: number,
   endMs: number,
-  random: () => number
+  random: () => number,
+  spread: number
 ): Date[] {
   const dates: Date[] = [];
   const rangeMs = endMs - startMs;
@@ -145,8 +218,8 @@ function generateClusteredDates(
     clusterCenters.push(center);
   }
 
-  // Cluster spread (standard deviation in ms) - roughly 2-4 weeks
-  const clusterSpread = rangeMs * 0.05; // 5% of range
+  // Cluster spread (standard deviation in ms)
+  const clusterSpread = rangeMs * spread;
 
   // Distribute observations across clusters
   for (let i = 0; i < count; i++) {
@@ -168,21 +241,55 @@ function generateClusteredDates(
 }
 
 /**
- * Generate a Gaussian-distributed random number (mean=0, stddev=1)
- * using the Box-Muller transform.
+ * Scheduled distribution: regular intervals with jitter.
+ *
+ * Simulates monitoring cadences such as monthly dialysis bloods or
+ * annual ACR. The most recent date falls at a random point in the last
+ * interval of the range; earlier dates step back one interval at a time
+ * until the count is reached or the schedule passes the start.
  */
-function gaussianRandom(random: () => number): number {
-  let u1 = random();
-  let u2 = random();
+function generateScheduledDates(
+  count: number,
+  startMs: number,
+  endMs: number,
+  random: () => number,
+  intervalDays: number,
+  jitterDays: number
+): Date[] {
+  const dates: Date[] = [];
+  if (count <= 0) return dates;
+  const intervalMs = intervalDays * MS_PER_DAY;
+  const jitterMs = jitterDays * MS_PER_DAY;
 
-  // Avoid log(0)
-  while (u1 === 0) u1 = random();
+  let slot = endMs - random() * Math.min(intervalMs, endMs - startMs);
+  for (let i = 0; i < count && slot >= startMs; i++) {
+    const jitter = (random() * 2 - 1) * jitterMs;
+    const ms = Math.max(startMs, Math.min(endMs, slot + jitter));
+    dates.push(new Date(ms));
+    slot -= intervalMs;
+  }
 
-  // Box-Muller transform
-  const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-  return z;
+  return dates;
 }
 
+/**
+ * Month abbreviations used in Oracle DD-MON-YYYY dates
+ */
+const ORACLE_MONTHS = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+
 /**
  * Format a date according to the specified format.
  *
@@ -201,22 +308,8 @@ export function formatDate(
 
     case 'oracle':
       // Oracle DATE format: DD-MON-YYYY (e.g., 15-JAN-2024)
-      const months = [
-        'JAN',
-        'FEB',
-        'MAR',
-        'APR',
-        'MAY',
-        'JUN',
-        'JUL',
-        'AUG',
-        'SEP',
-        'OCT',
-        'NOV',
-        'DEC',
-      ];
       const day = String(date.getDate()).padStart(2, '0');
-      const month = months[date.getMonth()];
+      const month = ORACLE_MONTHS[date.getMonth()];
       const year = date.getFullYear();
       return `${day}-${month}-${year}`;
 
@@ -245,3 +338,35 @@ export function parseDate(input: string | Date): Date {
   }
   return new Date(input);
 }
+
+/**
+ * Parse a date string produced by formatDate back into a Date.
+ *
+ * @param value - Formatted date string
+ * @param format - Format the string was produced with
+ * @returns Date object (invalid Date if the string doesn't match)
+ */
+export function parseFormattedDate(
+  value: string,
+  format: 'iso' | 'oracle' | 'mssql'
+): Date {
+  switch (format) {
+    case 'oracle': {
+      const match = /^(\d{2})-([A-Z]{3})-(\d{4})$/.exec(value);
+      if (!match) return new Date(NaN);
+      const month = ORACLE_MONTHS.indexOf(match[2]);
+      return new Date(Number(match[3]), month, Number(match[1]));
+    }
+
+    case 'mssql': {
+      const match = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})$/.exec(value);
+      if (!match) return new Date(NaN);
+      const [, y, mo, d, h, mi, se] = match.map(Number);
+      return new Date(y, mo - 1, d, h, mi, se);
+    }
+
+    case 'iso':
+    default:
+      return new Date(value);
+  }
+}
@@ -75,3 +75,173 @@ export function randomPick<T>(random: () => number, array: T[]): T {
   const index = Math.floor(random() * array.length);
   return array[index];
 }
+
+/**
+ * Generate a Gaussian-distributed random number (mean=0, stddev=1)
+ * using the Box-Muller transform.
+ *
+ * @param random - Random function (0-1)
+ * @returns Standard normal random number
+ */
+export function gaussianRandom(random: () => number): number {
+  let u1 = random();
+  let u2 = random();
+
+  // Avoid log(0)
+  while (u1 === 0) u1 = random();
+
+  // Box-Muller transform
+  const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  return z;
+}
+
+/**
+ * Generate a normally distributed random number.
+ *
+ * @param random - Random function (0-1)
+ * @param mean - Mean
+ * @param sd - Standard deviation
+ * @returns Random number from N(mean, sd²)
+ */
+export function randomNormal(random: () => number, mean: number, sd: number): number {
+  return mean + gaussianRandom(random) * sd;
+}
+
+/**
+ * Generate a normally distributed random number truncated to [min, max].
+ *
+ * Draws are rejected until one falls inside the range. If none does
+ * within `maxTries` draws (a range far out in a tail), the last draw is
+ * clamped to the range.
+ *
+ * @param random - Random function (0-1)
+ * @param mean - Mean of the untruncated distribution
+ * @param sd - Standard deviation of the untruncated distribution
+ * @param min - Lower bound (inclusive)
+ * @param max - Upper bound (inclusive)
+ * @param maxTries - Draws before falling back to clamping (default: 100)
+ * @returns Random number in [min, max]
+ */
+export function randomTruncatedNormal(
+  random: () => number,
+  mean: number,
+  sd: number,
+  min: number,
+  max: number,
+  maxTries: number = 100
+): number {
+  let value = mean;
+  for (let i = 0; i < maxTries; i++) {
+    value = randomNormal(random, mean, sd);
+    if (value >= min && value <= max) return value;
+  }
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Generate a log-normally distributed random number. The median is
+ * e^meanLog; larger sdLog gives a longer right tail.
+ *
+ * @param random - Random function (0-1)
+ * @param meanLog - Mean of the underlying normal (log of the median)
+ * @param sdLog - Standard deviation of the underlying normal
+ * @returns Positive random number
+ */
+export function randomLogNormal(random: () => number, meanLog: number, sdLog: number): number {
+  return Math.exp(randomNormal(random, meanLog, sdLog));
+}
+
+/**
+ * Generate a gamma-distributed random number using the Marsaglia-Tsang
+ * method (boosted for shape < 1).
+ *
+ * @param random - Random function (0-1)
+ * @param shape - Shape parameter k (> 0)
+ * @param scale - Scale parameter θ (> 0); the mean is k·θ
+ * @returns Positive random number
+ */
+export function randomGamma(random: () => number, shape: number, scale: number): number {
+  if (shape < 1) {
+    // Gamma(k) = Gamma(k + 1) · U^(1/k)
+    let u = random();
+    while (u === 0) u = random();
+    return randomGamma(random, shape + 1, scale) * Math.pow(u, 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = gaussianRandom(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v * scale;
+    }
+  }
+}
+
+/**
+ * Generate a beta-distributed random number in [0, 1].
+ *
+ * @param random - Random function (0-1)
+ * @param alpha - Shape parameter α (> 0)
+ * @param beta - Shape parameter β (> 0); the mean is α / (α + β)
+ * @returns Random number in [0, 1]
+ */
+export function randomBeta(random: () => number, alpha: number, beta: number): number {
+  const x = randomGamma(random, alpha, 1);
+  const y = randomGamma(random, beta, 1);
+  return x / (x + y);
+}
+
+/**
+ * Generate a Poisson-distributed random count.
+ *
+ * Uses Knuth's multiplication method for small means and a rounded
+ * normal approximation above 30, where Knuth's method gets slow.
+ *
+ * @param random - Random function (0-1)
+ * @param lambda - Mean count (>= 0)
+ * @returns Non-negative integer
+ */
+export function randomPoisson(random: () => number, lambda: number): number {
+  if (lambda <= 0) return 0;
+  if (lambda > 30) {
+    return Math.max(0, Math.round(randomNormal(random, lambda, Math.sqrt(lambda))));
+  }
+
+  const limit = Math.exp(-lambda);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
+
+/**
+ * Pick an index with probability proportional to its weight.
+ *
+ * @param random - Random function (0-1)
+ * @param weights - Non-negative weights, not all zero
+ * @returns Index into weights
+ */
+export function randomWeightedIndex(random: () => number, weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let r = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    r -= weights[i];
+    if (r < 0) return i;
+  }
+  // Floating-point remainder: fall back to the last weighted entry
+  for (let i = weights.length - 1; i >= 0; i--) {
+    if (weights[i] > 0) return i;
+  }
+  return weights.length - 1;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateDateDistribution,
+  resolveDateDistribution,
+  resolveAttributeDates,
+} from '../../src/generators/attribute-dates';
+import { GeneratorSpecError } from '../../src/generators/generator-spec';
+
+describe('attribute dates', () => {
+  const defaults = {
+    dateRange: { start: new Date('2023-01-01'), end: new Date('2024-12-31') },
+    dateDistribution: 'uniform' as const,
+  };
+
+  describe('validateDateDistribution', () => {
+    it('should accept names and specs', () => {
+      expect(validateDateDistribution('clustered', 'd')).toEqual([]);
+      expect(validateDateDistribution({ dist: 'clustered', spread: 0.02 }, 'd')).toEqual([]);
+      expect(validateDateDistribution({ dist: 'scheduled', intervalDays: 91 }, 'd')).toEqual([]);
+    });
+
+    it('should report invalid parameters with their paths', () => {
+      expect(validateDateDistribution('weekly', 'd').map((i) => i.path)).toEqual(['d']);
+      expect(validateDateDistribution('scheduled', 'd').map((i) => i.path)).toEqual(['d']);
+      expect(
+        validateDateDistribution({ dist: 'scheduled', jitterDays: -1 }, 'd').map((i) => i.path)
+      ).toEqual(['d.intervalDays', 'd.jitterDays']);
+      expect(validateDateDistribution({ dist: 'recent-weighted', lambda: 0 }, 'd')).toEqual([
+        { path: 'd.lambda', message: 'must be a number > 0' },
+      ]);
+    });
+
+    it('should throw from resolveDateDistribution', () => {
+      const resolve = () => resolveDateDistribution({ dist: 'poisson' } as never, 'dates');
+
+      expect(resolve).toThrow(GeneratorSpecError);
+    });
+  });
+
+  describe('resolveAttributeDates', () => {
+    it('should fill unset fields from the global settings', () => {
+      const [hba1c] = resolveAttributeDates(
+        {
+          lab_bld_hba1c: {
+            dateRange: { start: '2024-01-01' },
+            dateDistribution: { dist: 'scheduled', intervalDays: 91 },
+          },
+        },
+        defaults,
+        'attributeDates'
+      );
+
+      expect(hba1c).toEqual({
+        pattern: 'lab_bld_hba1c',
+        dateRange: { start: new Date('2024-01-01'), end: defaults.dateRange.end },
+        dateDistribution: { dist: 'scheduled', intervalDays: 91 },
+      });
+    });
+
+    it('should put exact names before patterns', () => {
+      const resolved = resolveAttributeDates(
+        {
+          'lab_bld_%': { dateDistribution: 'recent-weighted' },
+          lab_bld_acr: { dateDistribution: { dist: 'scheduled', intervalDays: 365 } },
+        },
+        defaults,
+        'attributeDates'
+      );
+
+      expect(resolved.map((r) => r.pattern)).toEqual(['lab_bld_acr', 'lab_bld_%']);
+      expect(resolved[1].dateDistribution).toBe('recent-weighted');
+    });
+
+    it('should report every problem with its path', () => {
+      let error: GeneratorSpecError | undefined;
+      try {
+        resolveAttributeDates(
+          {
+            lab_bld_egfr: { dateRange: { start: '2025-01-01', end: '2024-01-01' } },
+            lab_bld_hb: { dateRange: { start: 'soon' }, dateDistribution: { dist: 'monthly' } },
+          } as never,
+          defaults,
+          'attributeDates'
+        );
+      } catch (e) {
+        error = e as GeneratorSpecError;
+      }
+
+      expect(error?.issues.map((issue) => issue.path)).toEqual([
+        'attributeDates.lab_bld_egfr.dateRange.end',
+        'attributeDates.lab_bld_hb.dateRange.start',
+        'attributeDates.lab_bld_hb.dateDistribution.dist',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  writeBulkFiles,
+  writeDelimited,
+  writeJsonLines,
+  writePgCopy,
+  writeSqlLoaderData,
+  sqlLoaderControlFile,
+  writeBcpData,
+  bcpFormatFile,
+} from '../../src/emitters/bulk-writers';
+import { EadvRow, MockDataResult, TableColumn } from '../../src/models/types';
+
+describe('bulk-writers', () => {
+  const rows: EadvRow[] = [
+    { eid: 1001, att: 'lab_bld_egfr', dt: '2024-06-01', val: 45.5 },
+    { eid: 1002, att: 'note, "quoted"', dt: '2024-07-15', val: null },
+    { eid: 1003, att: 'tab\there', dt: '2024-08-01', val: 60 },
+  ];
+
+  const columns: TableColumn[] = [
+    { name: 'eid', type: 'integer' },
+    { name: 'att', type: 'string' },
+    { name: 'dt', type: 'date' },
+    { name: 'val', type: 'number' },
+  ];
+
+  const join = (lines: Iterable<string>) => Array.from(lines).join('');
+
+  describe('writeDelimited', () => {
+    it('should write RFC 4180 CSV with CRLF line endings', () => {
+      const csv = join(writeDelimited(rows.slice(0, 2), columns));
+
+      expect(csv).toBe(
+        'eid,att,dt,val\r\n' +
+          '1001,lab_bld_egfr,2024-06-01,45.5\r\n' +
+          '1002,"note, ""quoted""",2024-07-15,\r\n'
+      );
+    });
+
+    it('should use the null token and quote values that equal it', () => {
+      const row: EadvRow = { eid: 1, att: 'NULL', dt: '2024-01-01', val: null };
+
+      const tsv = join(writeDelimited([row], columns, '\t', { nullToken: 'NULL', header: false }));
+
+      expect(tsv).toBe('1\t"NULL"\t2024-01-01\tNULL\r\n');
+    });
+
+    it('should quote fields containing the delimiter', () => {
+      const tsv = join(writeDelimited([rows[2]], columns, '\t', { header: false }));
+
+      expect(tsv).toBe('1003\t"tab\there"\t2024-08-01\t60\r\n');
+    });
+  });
+
+  describe('writeJsonLines', () => {
+    it('should write one object per line', () => {
+      const lines = join(writeJsonLines(rows)).trim().split('\n');
+
+      expect(lines.map((line) => JSON.parse(line))).toEqual(rows);
+    });
+  });
+
+  describe('writePgCopy', () => {
+    it('should write a COPY FROM STDIN stream', () => {
+      const copy = join(writePgCopy('eadv', rows.slice(1), columns));
+
+      expect(copy).toBe(
+        'COPY eadv (eid, att, dt, val) FROM STDIN;\n' +
+          '1002\tnote, "quoted"\t2024-07-15\t\\N\n' +
+          '1003\ttab\\there\t2024-08-01\t60\n' +
+          '\\.\n'
+      );
+    });
+  });
+
+  describe('SQL*Loader', () => {
+    it('should write enclosed fields and empty nulls', () => {
+      const data = join(writeSqlLoaderData(rows.slice(0, 2), columns));
+
+      expect(data).toBe(
+        '1001,lab_bld_egfr,2024-06-01,45.5\n' + '1002,"note, ""quoted""",2024-07-15,\n'
+      );
+    });
+
+    it('should declare the date mask for the dateFormat', () => {
+      const ctl = sqlLoaderControlFile('eadv', columns, 'eadv.dat', 'oracle');
+
+      expect(ctl).toContain("INFILE 'eadv.dat'");
+      expect(ctl).toContain('INTO TABLE eadv');
+      expect(ctl).toContain('  dt DATE "DD-MON-YYYY"');
+      expect(ctl).toContain('  val DECIMAL EXTERNAL');
+    });
+  });
+
+  describe('bcp', () => {
+    it('should write tab-separated rows with empty nulls', () => {
+      const data = join(writeBcpData(rows.slice(1), columns));
+
+      expect(data).toBe(
+        '1002\tnote, "quoted"\t2024-07-15\t\r\n' + '1003\ttab here\t2024-08-01\t60\r\n'
+      );
+    });
+
+    it('should write a non-XML format file', () => {
+      const lines = bcpFormatFile(columns).trim().split('\n');
+
+      expect(lines[0]).toBe('14.0');
+      expect(lines[1]).toBe('4');
+      expect(lines[2].split('\t')).toEqual(['1', 'SQLCHAR', '0', '12', '"\\t"', '1', 'eid', '""']);
+      expect(lines[5].split('\t')[4]).toBe('"\\r\\n"');
+    });
+  });
+
+  describe('writeBulkFiles', () => {
+    const result: MockDataResult = {
+      eadv: rows,
+      tables: { eadv: rows },
+      routTables: { rout_ckd: [{ eid: 1001, ckd: 1 }] },
+      metadata: {
+        entities: [1001, 1002, 1003],
+        attributes: ['lab_bld_egfr'],
+        bindDependencies: ['rout_ckd'],
+        totalRows: 3,
+        tables: {},
+        thresholds: {},
+        wildcardExpansions: {},
+      },
+    };
+
+    it('should write a file per table', () => {
+      expect(Object.keys(writeBulkFiles(result, 'csv'))).toEqual(['eadv.csv', 'rout_ckd.csv']);
+    });
+
+    it('should write data and control files for SQL*Loader and bcp', () => {
+      expect(Object.keys(writeBulkFiles(result, 'sqlldr'))).toEqual([
+        'eadv.dat',
+        'eadv.ctl',
+        'rout_ckd.dat',
+        'rout_ckd.ctl',
+      ]);
+      expect(Object.keys(writeBulkFiles(result, 'bcp'))).toContain('eadv.fmt');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  orderRuleblocksByBinds,
+  isInBatchRoutTable,
+  deriveRoutTables,
+  findUnevaluableRoutVariables,
+} from '../../src/chain';
+import { evaluateRuleblock } from '../../src/evaluator';
+import { RuleType, ParsedRuleblock } from 'picorules-compiler-js-core';
+import { EadvRow } from '../../src/models/types';
+
+describe('chain', () => {
+  const ckd: ParsedRuleblock = {
+    name: 'ckd',
+    text: '',
+    isActive: true,
+    rules: [
+      {
+        ruleType: RuleType.FETCH_STATEMENT,
+        assignedVariable: 'egfr',
+        table: 'eadv',
+        attributeList: ['lab_bld_egfr'],
+        property: 'val',
+        functionName: 'last',
+        references: [],
+      },
+      {
+        ruleType: RuleType.COMPUTE_STATEMENT,
+        assignedVariable: 'has_ckd',
+        conditions: [{ predicate: 'egfr < 60', returnValue: '1' }, { returnValue: '0' }],
+        references: ['egfr'],
+      },
+    ],
+  };
+
+  const bindTo = (name: string, source: string): ParsedRuleblock => ({
+    name,
+    text: '',
+    isActive: true,
+    rules: [
+      {
+        ruleType: RuleType.BIND_STATEMENT,
+        assignedVariable: 'has_ckd',
+        sourceRuleblock: source,
+        sourceVariable: 'has_ckd',
+        property: 'val',
+      },
+    ],
+  });
+
+  describe('orderRuleblocksByBinds', () => {
+    it('should place source ruleblocks before the ruleblocks that bind to them', () => {
+      const monitoring = bindTo('monitoring', 'ckd');
+
+      const ordered = orderRuleblocksByBinds([monitoring, ckd]);
+
+      expect(ordered.map((rb) => rb.name)).toEqual(['ckd', 'monitoring']);
+    });
+
+    it('should keep input order for independent ruleblocks', () => {
+      const other = { ...ckd, name: 'other' };
+
+      const ordered = orderRuleblocksByBinds([other, ckd]);
+
+      expect(ordered.map((rb) => rb.name)).toEqual(['other', 'ckd']);
+    });
+
+    it('should ignore binds to ruleblocks outside the batch', () => {
+      const ordered = orderRuleblocksByBinds([bindTo('monitoring', 'external')]);
+
+      expect(ordered.map((rb) => rb.name)).toEqual(['monitoring']);
+    });
+
+    it('should throw on cycles', () => {
+      expect(() => orderRuleblocksByBinds([bindTo('a', 'b'), bindTo('b', 'a')])).toThrow(
+        /cycle/
+      );
+    });
+  });
+
+  describe('isInBatchRoutTable', () => {
+    it('should match rout tables to ruleblock names', () => {
+      expect(isInBatchRoutTable('rout_ckd', [ckd])).toBe(true);
+      expect(isInBatchRoutTable('rout_dm', [ckd])).toBe(false);
+    });
+  });
+
+  describe('deriveRoutTables', () => {
+    it('should evaluate source ruleblocks over the generated rows', () => {
+      const eadv: EadvRow[] = [
+        { eid: 1001, att: 'lab_bld_egfr', dt: '2024-06-01', val: 45 },
+        { eid: 1002, att: 'lab_bld_egfr', dt: '2024-06-01', val: 90 },
+      ];
+
+      const derived = deriveRoutTables(
+        [ckd, bindTo('monitoring', 'ckd')],
+        { eadv },
+        {},
+        [1001, 1002, 1003],
+        'iso',
+        new Date('2024-12-31')
+      );
+
+      expect(Object.keys(derived)).toEqual(['rout_ckd']);
+      expect(derived.rout_ckd).toEqual([
+        { eid: 1001, egfr: 45, has_ckd: 1 },
+        { eid: 1002, egfr: 90, has_ckd: 0 },
+        { eid: 1003, egfr: null, has_ckd: 0 },
+      ]);
+    });
+
+    it('should match binds written in another case', () => {
+      const eadv: EadvRow[] = [{ eid: 1001, att: 'lab_bld_egfr', dt: '2024-06-01', val: 45 }];
+      const monitoring: ParsedRuleblock = {
+        ...bindTo('monitoring', 'Ckd'),
+        rules: [{ ...bindTo('monitoring', 'Ckd').rules[0], sourceVariable: 'HAS_CKD' }],
+      };
+
+      const derived = deriveRoutTables(
+        [{ ...ckd, name: 'CKD' }, monitoring],
+        { eadv },
+        {},
+        [1001],
+        'iso',
+        new Date('2024-12-31')
+      );
+      const { variables } = evaluateRuleblock(monitoring, [], {
+        dateFormat: 'iso',
+        sysdate: new Date('2024-12-31'),
+        routRows: { rout_ckd: derived.rout_ckd[0] },
+      });
+
+      expect(Object.keys(derived)).toEqual(['rout_ckd']);
+      expect(variables.has_ckd).toBe(1);
+    });
+
+    it('should write variables that call unsupported functions as null', () => {
+      const eadv: EadvRow[] = [{ eid: 1001, att: 'lab_bld_egfr', dt: '2024-06-01', val: 45 }];
+      const floored: ParsedRuleblock = {
+        ...ckd,
+        rules: [
+          ...ckd.rules,
+          {
+            ruleType: RuleType.COMPUTE_STATEMENT,
+            assignedVariable: 'egfr_floor',
+            conditions: [{ returnValue: 'floor(egfr)' }],
+            references: ['egfr'],
+          },
+        ],
+      };
+      const ordered = [floored, bindTo('monitoring', 'ckd')];
+
+      const derived = deriveRoutTables(
+        ordered,
+        { eadv },
+        {},
+        [1001],
+        'iso',
+        new Date('2024-12-31')
+      );
+
+      expect(derived.rout_ckd).toEqual([{ eid: 1001, egfr: 45, has_ckd: 1, egfr_floor: null }]);
+      expect(findUnevaluableRoutVariables(ordered)).toEqual([
+        { table: 'rout_ckd', variable: 'egfr_floor', functions: ['floor'] },
+      ]);
+    });
+  });
+});
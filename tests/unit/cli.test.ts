@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCli, readRuleblockFiles } from '../../src/cli';
+
+describe('cli', () => {
+  let dir: string;
+
+  const run = (...args: string[]) => {
+    const out: string[] = [];
+    const err: string[] = [];
+    const code = runCli(args, {
+      stdout: (text) => out.push(text),
+      stderr: (text) => err.push(text),
+    });
+    return { code, stdout: out.join(''), stderr: err.join('') };
+  };
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eadv-mock-'));
+    fs.writeFileSync(
+      path.join(dir, 'ckd.prb'),
+      `
+        egfr_last => eadv.lab_bld_egfr.val.last();
+        has_ckd : {egfr_last < 60 => 1}, {=> 0};
+      `
+    );
+    fs.writeFileSync(
+      path.join(dir, 'monitoring.prb'),
+      `
+        ckd => rout_ckd.has_ckd.val.bind();
+        hb => eadv.lab_bld_hb.val.last();
+      `
+    );
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'not a ruleblock');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('readRuleblockFiles', () => {
+    it('should read .prb files from a directory, named after the file', () => {
+      const ruleblocks = readRuleblockFiles([dir]);
+
+      expect(ruleblocks.map((rb) => rb.name)).toEqual(['ckd', 'monitoring']);
+      expect(ruleblocks[0].isActive).toBe(true);
+    });
+  });
+
+  describe('attributes', () => {
+    it('should list attributes per table', () => {
+      const { code, stdout } = run('attributes', dir);
+
+      expect(code).toBe(0);
+      expect(stdout).toBe('eadv.lab_bld_egfr\neadv.lab_bld_hb\n');
+    });
+
+    it('should print JSON with --json', () => {
+      const { stdout } = run('attributes', path.join(dir, 'ckd.prb'), '--json');
+
+      expect(JSON.parse(stdout)).toEqual({ eadv: ['lab_bld_egfr'] });
+    });
+  });
+
+  describe('binds', () => {
+    it('should list bound rout variables', () => {
+      expect(run('binds', dir).stdout).toBe('rout_ckd.has_ckd\n');
+    });
+  });
+
+  describe('generate', () => {
+    it('should print a JSON dataset honouring the flags', () => {
+      const { code, stdout } = run('generate', dir, '--entity-count', '2', '--seed', '7');
+
+      const result = JSON.parse(stdout);
+      expect(code).toBe(0);
+      expect(result.metadata.entities).toEqual([1001, 1002]);
+    });
+
+    it('should read options from a config file, with flags taking precedence', () => {
+      const config = path.join(dir, 'config.json');
+      fs.writeFileSync(config, JSON.stringify({ entityCount: 4, entityIdStart: 500 }));
+
+      const { stdout } = run('generate', dir, '--config', config, '--entity-count', '1');
+
+      expect(JSON.parse(stdout).metadata.entities).toEqual([500]);
+    });
+
+    it('should emit SQL for a dialect', () => {
+      const { stdout } = run('generate', dir, '--format', 'sql', '--dialect', 'postgres');
+
+      expect(stdout).toContain('CREATE TABLE eadv (');
+    });
+
+    it('should write bulk files to a directory', () => {
+      const out = path.join(dir, 'out');
+
+      const { code } = run('generate', dir, '--format', 'csv', '--out', out);
+
+      expect(code).toBe(0);
+      expect(fs.readdirSync(out).sort()).toEqual(['eadv.csv', 'rout_ckd.csv']);
+    });
+
+    it('should print one table of a bulk format with --table', () => {
+      const { stdout } = run('generate', dir, '--format', 'tsv', '--table', 'eadv');
+
+      expect(stdout.startsWith('eid\tatt\tdt\tval\r\n')).toBe(true);
+    });
+  });
+
+  describe('errors', () => {
+    it('should fail on unknown commands and missing options', () => {
+      expect(run('explode', dir).code).toBe(1);
+      expect(run('generate', dir, '--format', 'sql').stderr).toContain('--dialect');
+      expect(run('generate', dir, '--format', 'csv').stderr).toContain('--out');
+    });
+
+    it('should reject unknown enum values and malformed config files', () => {
+      const list = path.join(dir, 'list.json');
+      const format = path.join(dir, 'format.json');
+      fs.writeFileSync(list, '[1, 2]');
+      fs.writeFileSync(format, JSON.stringify({ dateFormat: 'us' }));
+
+      expect(run('generate', dir, '--date-format', 'us').stderr).toContain(
+        "--date-format expects one of iso, oracle, mssql, got 'us'"
+      );
+      expect(run('generate', dir, '--date-distribution', 'weekly').code).toBe(1);
+      expect(run('generate', dir, '--config', list).stderr).toContain('JSON object');
+      expect(run('generate', dir, '--config', format).stderr).toContain('dateFormat');
+    });
+
+    it('should print usage with --help', () => {
+      const { code, stdout } = run('--help');
+
+      expect(code).toBe(0);
+      expect(stdout).toContain('Usage: eadv-mock');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { resolveCohorts, countCohortEntities, assignCohorts } from '../../src/generators/cohorts';
+import { GeneratorSpecError } from '../../src/generators/generator-spec';
+import { CohortSpec } from '../../src/models/types';
+
+describe('cohorts', () => {
+  const entities = Array.from({ length: 10 }, (_, i) => 1001 + i);
+
+  const sizes = (specs: CohortSpec[], ids = entities) => {
+    const assignment = assignCohorts(ids, resolveCohorts(specs, 'cohorts'));
+    const result: Record<string, number> = {};
+    for (const cohort of assignment.values()) {
+      result[cohort.name] = (result[cohort.name] ?? 0) + 1;
+    }
+    return result;
+  };
+
+  describe('assignCohorts', () => {
+    it('should split entities by proportion', () => {
+      expect(
+        sizes([
+          { name: 'ckd_stage_4', proportion: 0.3 },
+          { name: 'poor_diabetes', proportion: 0.2 },
+          { name: 'healthy', proportion: 0.5 },
+        ])
+      ).toEqual({ ckd_stage_4: 3, poor_diabetes: 2, healthy: 5 });
+    });
+
+    it('should round proportions so the sizes add up', () => {
+      expect(
+        sizes([
+          { name: 'a', proportion: 1 / 3 },
+          { name: 'b', proportion: 1 / 3 },
+          { name: 'c', proportion: 1 / 3 },
+        ])
+      ).toEqual({ a: 4, b: 3, c: 3 });
+    });
+
+    it('should give exact counts first and share the rest by proportion', () => {
+      expect(
+        sizes([
+          { name: 'edge', count: 4 },
+          { name: 'sick', proportion: 0.5 },
+          { name: 'well', proportion: 0.5 },
+        ])
+      ).toEqual({ edge: 4, sick: 3, well: 3 });
+    });
+
+    it('should assign consecutive blocks and leave the rest unassigned', () => {
+      const assignment = assignCohorts(
+        entities,
+        resolveCohorts(
+          [
+            { name: 'a', count: 2 },
+            { name: 'b', proportion: 0.25 },
+          ],
+          'cohorts'
+        )
+      );
+
+      expect(entities.map((eid) => assignment.get(eid)?.name ?? null)).toEqual([
+        'a',
+        'a',
+        'b',
+        'b',
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+      ]);
+    });
+
+    it('should count the entities needed by exact counts', () => {
+      const cohorts = resolveCohorts(
+        [
+          { name: 'a', count: 7 },
+          { name: 'b', count: 5 },
+          { name: 'c', proportion: 0.5 },
+        ],
+        'cohorts'
+      );
+
+      expect(countCohortEntities(cohorts)).toBe(12);
+    });
+  });
+
+  describe('resolveCohorts', () => {
+    it('should compile generator specs and trajectories', () => {
+      const [cohort] = resolveCohorts(
+        [
+          {
+            name: 'ckd_stage_4',
+            proportion: 1,
+            valueGenerators: { lab_bld_egfr: { dist: 'constant', value: 22 } },
+            trajectories: { lab_bld_acr: { baseline: 40, slope: 5 } },
+            bindTableValues: { rout_dm: { dm: { dist: 'constant', value: 1 } } },
+          },
+        ],
+        'cohorts'
+      );
+
+      expect(cohort.valueGenerators.lab_bld_egfr()).toBe(22);
+      expect(cohort.trajectories.lab_bld_acr.decimals).toBe(1);
+      expect(cohort.bindTableValues.rout_dm.dm()).toBe(1);
+    });
+
+    it('should report every problem with its path', () => {
+      let error: GeneratorSpecError | undefined;
+      try {
+        resolveCohorts(
+          [
+            { name: 'a', proportion: 0.8, valueGenerators: { x: { dist: 'gaussian' } as never } },
+            { name: 'a', proportion: 0.4 },
+            { name: 'b', count: 2, proportion: 0.1 },
+            { name: 'c', count: 1.5, trajectories: { y: { baseline: 1, noise: -1 } } },
+          ],
+          'cohorts'
+        );
+      } catch (e) {
+        error = e as GeneratorSpecError;
+      }
+
+      expect(error).toBeInstanceOf(GeneratorSpecError);
+      expect(error?.issues.map((issue) => issue.path)).toEqual([
+        'cohorts[0].valueGenerators.x.dist',
+        'cohorts[1].name',
+        'cohorts[2]',
+        'cohorts[3].count',
+        'cohorts[3].trajectories.y.noise',
+        'cohorts',
+      ]);
+    });
+  });
+});
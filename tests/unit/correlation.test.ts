@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ckdEpi2021,
+  bodyMassIndex,
+  resolveDerivedAttributes,
+  resolveCorrelatedPanels,
+  choleskyDecompose,
+  drawCorrelatedValues,
+  orderAttributesByDerivation,
+} from '../../src/generators/correlation';
+import { GeneratorSpecError } from '../../src/generators/generator-spec';
+import { createSeededRandom } from '../../src/utils/random';
+import { CorrelatedPanelSpec } from '../../src/models/types';
+
+describe('correlated attributes', () => {
+  describe('formulas', () => {
+    it('should compute CKD-EPI 2021 eGFR', () => {
+      // Creatinine 1.0 mg/dL, age 60
+      expect(ckdEpi2021(88.4, 60, false)).toBeCloseTo(86.2, 1);
+      expect(ckdEpi2021(88.4, 60, true)).toBeCloseTo(64.5, 1);
+      // Higher creatinine, lower eGFR
+      expect(ckdEpi2021(480, 60, false)).toBeLessThan(15);
+    });
+
+    it('should compute BMI from kg and cm', () => {
+      expect(bodyMassIndex(80, 180)).toBeCloseTo(24.69, 2);
+    });
+  });
+
+  describe('resolveDerivedAttributes', () => {
+    it('should derive BMI with the default sources', () => {
+      const { obs_bmi } = resolveDerivedAttributes({ obs_bmi: { formula: 'bmi' } }, 'derived');
+
+      expect(obs_bmi.from).toEqual(['obs_weight', 'obs_height']);
+      expect(obs_bmi.derive({ obs_weight: 80, obs_height: 180 }, Math.random)).toBe(24.7);
+      expect(obs_bmi.derive({ obs_weight: null, obs_height: 180 }, Math.random)).toBeNull();
+    });
+
+    it('should draw CKD-EPI age and sex once per entity', () => {
+      const { lab_bld_egfr } = resolveDerivedAttributes(
+        { lab_bld_egfr: { formula: 'ckd-epi-2021', age: 60, femaleProbability: 1 } },
+        'derived'
+      );
+      const inputs = lab_bld_egfr.entityInputs!(createSeededRandom(1));
+
+      expect(inputs).toEqual({ age: 60, female: 1 });
+      expect(
+        lab_bld_egfr.derive({ ...inputs, lab_bld_creatinine: 88.4 }, Math.random)
+      ).toBe(64);
+    });
+
+    it('should report invalid specs and cycles with their paths', () => {
+      let error: GeneratorSpecError | undefined;
+      try {
+        resolveDerivedAttributes(
+          {
+            a: { from: ['b'], derive: () => 1 },
+            b: { from: ['a'], derive: () => 2 },
+            c: { formula: 'ckd-epi-2021', femaleProbability: 2, decimals: -1 },
+          },
+          'derivedAttributes'
+        );
+      } catch (e) {
+        error = e as GeneratorSpecError;
+      }
+
+      expect(error).toBeInstanceOf(GeneratorSpecError);
+      expect(error?.issues.map((issue) => issue.path)).toEqual([
+        'derivedAttributes.c.decimals',
+        'derivedAttributes.c.femaleProbability',
+        'derivedAttributes.a.from',
+        'derivedAttributes.b.from',
+      ]);
+    });
+  });
+
+  describe('orderAttributesByDerivation', () => {
+    it('should place sources before the attributes derived from them', () => {
+      const derived = resolveDerivedAttributes(
+        { obs_bmi: { formula: 'bmi' }, lab_bld_egfr: { formula: 'ckd-epi-2021' } },
+        'derived'
+      );
+
+      expect(
+        orderAttributesByDerivation(
+          ['obs_bmi', 'lab_bld_egfr', 'obs_height', 'lab_bld_creatinine', 'obs_weight'],
+          derived
+        )
+      ).toEqual(['obs_weight', 'obs_height', 'obs_bmi', 'lab_bld_creatinine', 'lab_bld_egfr']);
+    });
+  });
+
+  describe('correlated panels', () => {
+    const panelSpec: CorrelatedPanelSpec = {
+      attributes: {
+        lab_bld_hba1c: { mean: 7, sd: 1.5, min: 4, max: 15 },
+        lab_bld_glucose: { mean: 8, sd: 2.5, min: 2 },
+      },
+      correlation: [
+        [1, 0.8],
+        [0.8, 1],
+      ],
+    };
+
+    it('should factorise a correlation matrix', () => {
+      const lower = choleskyDecompose([
+        [1, 0.5],
+        [0.5, 1],
+      ])!;
+
+      expect(lower[0]).toEqual([1, 0]);
+      expect(lower[1][0]).toBeCloseTo(0.5, 10);
+      expect(lower[1][1]).toBeCloseTo(Math.sqrt(0.75), 10);
+      expect(
+        choleskyDecompose([
+          [1, 1],
+          [1, 1],
+        ])
+      ).toBeUndefined();
+    });
+
+    it('should draw values with the target correlation', () => {
+      const [panel] = resolveCorrelatedPanels([panelSpec], 'correlatedPanels');
+      const random = createSeededRandom(12345);
+      const draws = Array.from({ length: 2000 }, () => drawCorrelatedValues(panel, random));
+
+      const xs = draws.map((d) => d[0]);
+      const ys = draws.map((d) => d[1]);
+      const mean = (v: number[]) => v.reduce((a, b) => a + b, 0) / v.length;
+      const mx = mean(xs);
+      const my = mean(ys);
+      let sxy = 0;
+      let sxx = 0;
+      let syy = 0;
+      for (let i = 0; i < xs.length; i++) {
+        sxy += (xs[i] - mx) * (ys[i] - my);
+        sxx += (xs[i] - mx) ** 2;
+        syy += (ys[i] - my) ** 2;
+      }
+
+      expect(sxy / Math.sqrt(sxx * syy)).toBeGreaterThan(0.7);
+      expect(mx).toBeCloseTo(7, 0);
+      expect(xs.every((x) => x >= 4 && x <= 15)).toBe(true);
+      expect(ys.every((y) => y >= 2)).toBe(true);
+    });
+
+    it('should report invalid matrices with their paths', () => {
+      let error: GeneratorSpecError | undefined;
+      try {
+        resolveCorrelatedPanels(
+          [
+            {
+              attributes: { a: { mean: 0, sd: 1 }, b: { mean: 0, sd: -1 } },
+              correlation: [
+                [1, 0.5],
+                [0.4, 0.9],
+              ],
+            },
+            {
+              attributes: { c: { mean: 0, sd: 1 }, d: { mean: 0, sd: 1 } },
+              correlation: [[1]],
+            },
+          ],
+          'correlatedPanels'
+        );
+      } catch (e) {
+        error = e as GeneratorSpecError;
+      }
+
+      expect(error?.issues.map((issue) => issue.path)).toEqual([
+        'correlatedPanels[0].attributes.b.sd',
+        'correlatedPanels[0].correlation[1][0]',
+        'correlatedPanels[0].correlation[1][1]',
+        'correlatedPanels[1].correlation',
+      ]);
+    });
+
+    it('should reject attributes that are derived or already in a panel', () => {
+      expect(() =>
+        resolveCorrelatedPanels([panelSpec, panelSpec], 'correlatedPanels', ['lab_bld_hba1c'])
+      ).toThrow('correlatedPanels[0].attributes.lab_bld_hba1c: is already derived');
+    });
+
+    it('should reject matrices that are not positive definite', () => {
+      expect(() =>
+        resolveCorrelatedPanels(
+          [
+            {
+              attributes: { a: { mean: 0, sd: 1 }, b: { mean: 0, sd: 1 }, c: { mean: 0, sd: 1 } },
+              correlation: [
+                [1, 0.9, -0.9],
+                [0.9, 1, 0.9],
+                [-0.9, 0.9, 1],
+              ],
+            },
+          ],
+          'correlatedPanels'
+        )
+      ).toThrow('correlatedPanels[0].correlation: must be positive definite');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { planBranchCoverage, measureBranchCoverage } from '../../src/coverage';
+import { createSeededRandom } from '../../src/utils/random';
+import { RuleType, ParsedRuleblock } from 'picorules-compiler-js-core';
+
+describe('coverage', () => {
+  const sysdate = new Date('2024-12-31');
+
+  const ruleblock: ParsedRuleblock = {
+    name: 'ckd',
+    text: '',
+    isActive: true,
+    rules: [
+      {
+        ruleType: RuleType.FETCH_STATEMENT,
+        assignedVariable: 'egfr',
+        table: 'eadv',
+        attributeList: ['lab_bld_egfr'],
+        property: 'val',
+        functionName: 'last',
+        references: [],
+      },
+      {
+        ruleType: RuleType.COMPUTE_STATEMENT,
+        assignedVariable: 'stage',
+        conditions: [
+          { predicate: 'egfr < 30', returnValue: '4' },
+          { predicate: 'floor(egfr) < 60', returnValue: '3' },
+          { returnValue: '0' },
+        ],
+        references: ['egfr'],
+      },
+    ],
+  };
+
+  describe('unsupported functions', () => {
+    it('should only plan the branches that can be evaluated', () => {
+      const plan = planBranchCoverage([ruleblock], 1, 1, sysdate, createSeededRandom(1));
+
+      expect(plan.entityCount).toBe(1);
+      expect(plan.attributePins.get(1)?.lab_bld_egfr).toBeDefined();
+    });
+
+    it('should report unevaluable branches instead of unsatisfied ones', () => {
+      const tables = {
+        eadv: [
+          { eid: 1, att: 'lab_bld_egfr', dt: '2024-06-01', val: 20 },
+          { eid: 2, att: 'lab_bld_egfr', dt: '2024-06-01', val: 50 },
+        ],
+      };
+
+      const report = measureBranchCoverage([ruleblock], tables, {}, [1, 2], 'iso', sysdate, 1);
+
+      expect(report.ruleblocks.ckd.stage.map((b) => b.entities)).toEqual([[1], [], []]);
+      expect(report.ruleblocks.ckd.stage.map((b) => b.unevaluable)).toEqual([
+        undefined,
+        true,
+        true,
+      ]);
+      expect(report.unsatisfied).toEqual([]);
+      expect(report.unevaluable).toEqual([
+        {
+          ruleblock: 'ckd',
+          variable: 'stage',
+          branch: 1,
+          predicate: 'floor(egfr) < 60',
+          functions: ['floor'],
+        },
+        { ruleblock: 'ckd', variable: 'stage', branch: 2, predicate: null, functions: ['floor'] },
+      ]);
+    });
+  });
+});
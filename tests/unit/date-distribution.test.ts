@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateDates } from '../../src/utils/date-utils';
+import { generateDates, topUpDates } from '../../src/utils/date-utils';
 import { createSeededRandom } from '../../src/utils/random';
 
 describe('date distributions', () => {
@@ -145,6 +145,104 @@ describe('date distributions', () => {
     });
   });
 
+  describe('distribution parameters', () => {
+    it('should match the named distributions with default parameters', () => {
+      const named = generateDates(10, startDate, endDate, createSeededRandom(7), 'recent-weighted');
+      const spec = generateDates(10, startDate, endDate, createSeededRandom(7), {
+        dist: 'recent-weighted',
+        lambda: 2.5,
+      });
+
+      expect(spec).toEqual(named);
+    });
+
+    it('should weight recent dates more with a higher lambda', () => {
+      const median = (lambda: number) => {
+        const dates = generateDates(101, startDate, endDate, createSeededRandom(12345), {
+          dist: 'recent-weighted',
+          lambda,
+        });
+        return dates[50].getTime();
+      };
+
+      expect(median(6)).toBeGreaterThan(median(1.5));
+    });
+
+    it('should tighten clusters with a smaller spread', () => {
+      const span = (spread: number) => {
+        const times = generateDates(3, startDate, endDate, createSeededRandom(12345), {
+          dist: 'clustered',
+          spread,
+        }).map((d) => d.getTime());
+        return Math.max(...times) - Math.min(...times);
+      };
+
+      expect(span(0.005)).toBeLessThan(span(0.05));
+    });
+  });
+
+  describe('scheduled distribution', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+
+    it('should space dates at the interval', () => {
+      const dates = generateDates(4, startDate, endDate, createSeededRandom(12345), {
+        dist: 'scheduled',
+        intervalDays: 30,
+        jitterDays: 0,
+      });
+
+      expect(dates).toHaveLength(4);
+      expect(endDate.getTime() - dates[0].getTime()).toBeLessThanOrEqual(30 * DAY);
+      for (let i = 1; i < dates.length; i++) {
+        expect(dates[i - 1].getTime() - dates[i].getTime()).toBe(30 * DAY);
+      }
+    });
+
+    it('should keep jittered dates near their slots', () => {
+      const dates = generateDates(12, startDate, endDate, createSeededRandom(12345), {
+        dist: 'scheduled',
+        intervalDays: 30,
+        jitterDays: 3,
+      });
+
+      for (let i = 1; i < dates.length; i++) {
+        const gap = (dates[i - 1].getTime() - dates[i].getTime()) / DAY;
+        expect(gap).toBeGreaterThanOrEqual(24);
+        expect(gap).toBeLessThanOrEqual(36);
+      }
+    });
+
+    it('should stop at the start of the range', () => {
+      const dates = generateDates(10, startDate, endDate, createSeededRandom(12345), {
+        dist: 'scheduled',
+        intervalDays: 91,
+      });
+
+      // Four three-monthly dates fit in a year
+      expect(dates.length).toBeGreaterThanOrEqual(4);
+      expect(dates.length).toBeLessThanOrEqual(5);
+      expect(dates.every((d) => d >= startDate && d <= endDate)).toBe(true);
+    });
+  });
+
+  describe('topUpDates', () => {
+    it('should add dates in the range until there are enough', () => {
+      const random = createSeededRandom(12345);
+      const annual = generateDates(2, startDate, endDate, random, {
+        dist: 'scheduled',
+        intervalDays: 365,
+      });
+
+      const dates = topUpDates(annual, 2, startDate, endDate, random);
+
+      expect(annual).toHaveLength(1);
+      expect(dates).toHaveLength(2);
+      expect(dates).toContain(annual[0]);
+      expect(dates.every((d) => d >= startDate && d <= endDate)).toBe(true);
+      expect(dates[0].getTime()).toBeGreaterThanOrEqual(dates[1].getTime());
+    });
+  });
+
   describe('distribution consistency with seed', () => {
     it('should produce same dates with same seed', () => {
       const random1 = createSeededRandom(99999);
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveDemographics,
+  drawPatient,
+  drawPatients,
+  ageAt,
+  lifespanRange,
+  patientObservations,
+} from '../../src/generators/demographics';
+import { GeneratorSpecError } from '../../src/generators/generator-spec';
+import { createSeededRandom } from '../../src/utils/random';
+
+describe('demographics', () => {
+  const dateRange = { start: new Date('2023-01-01'), end: new Date('2024-12-31') };
+
+  describe('resolveDemographics', () => {
+    it('should be off when false', () => {
+      expect(resolveDemographics(false, 'demographics')).toBeNull();
+    });
+
+    it('should apply the defaults', () => {
+      const demographics = resolveDemographics(true, 'demographics')!;
+
+      expect(demographics.attributes).toEqual({
+        dob: 'dmg_dob',
+        sex: 'dmg_gender',
+        indigenous: 'dmg_indigenous',
+        dod: 'dmg_dod',
+      });
+      expect(demographics.femaleProbability).toBe(0.5);
+      expect(demographics.minimumAge).toBe(0);
+      expect(demographics.codes).toEqual({ male: 1, female: 2, indigenous: 1, nonIndigenous: 0 });
+    });
+
+    it('should report every problem with its path', () => {
+      try {
+        resolveDemographics(
+          {
+            attributes: { dob: '' },
+            femaleProbability: 2,
+            minimumAge: -1,
+            age: { dist: 'normal', mean: 50 } as never,
+          },
+          'demographics'
+        );
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(GeneratorSpecError);
+        expect((error as GeneratorSpecError).issues.map((i) => i.path)).toEqual([
+          'demographics.attributes.dob',
+          'demographics.femaleProbability',
+          'demographics.minimumAge',
+          'demographics.age.sd',
+        ]);
+      }
+    });
+  });
+
+  describe('drawPatient', () => {
+    it('should draw ages from the age distribution', () => {
+      const demographics = resolveDemographics({ age: 70, deathProbability: 0 }, 'd')!;
+      const patient = drawPatient(demographics, dateRange, createSeededRandom(12345));
+
+      expect(ageAt(patient, dateRange.end)).toBe(70);
+      expect(patient.dod).toBeUndefined();
+    });
+
+    it('should not be younger than the minimum age', () => {
+      const demographics = resolveDemographics({ age: 2, minimumAge: 18 }, 'd')!;
+      const patient = drawPatient(demographics, dateRange, createSeededRandom(12345));
+
+      expect(ageAt(patient, dateRange.end)).toBe(18);
+    });
+
+    it('should place deaths within the range and after the minimum age', () => {
+      const demographics = resolveDemographics(
+        { age: 18, minimumAge: 18, deathProbability: 1 },
+        'd'
+      )!;
+      const patients = drawPatients(
+        [1, 2, 3, 4, 5, 6, 7, 8],
+        demographics,
+        dateRange,
+        createSeededRandom(12345)
+      );
+
+      for (const patient of patients.values()) {
+        expect(patient.dod).toBeDefined();
+        expect(patient.dod!.getTime()).toBeLessThanOrEqual(dateRange.end.getTime());
+        expect(patient.dod!.getTime()).toBeGreaterThanOrEqual(dateRange.start.getTime());
+        expect(ageAt(patient, patient.dod!)).toBeGreaterThanOrEqual(18);
+      }
+    });
+
+    it('should draw sex and Indigenous status with their probabilities', () => {
+      const demographics = resolveDemographics(
+        { femaleProbability: 0.3, indigenousProbability: 0.1 },
+        'd'
+      )!;
+      const patients = Array.from(
+        drawPatients(
+          Array.from({ length: 1000 }, (_, i) => i),
+          demographics,
+          dateRange,
+          createSeededRandom(12345)
+        ).values()
+      );
+
+      const female = patients.filter((p) => p.female).length;
+      const indigenous = patients.filter((p) => p.indigenous).length;
+      expect(female).toBeGreaterThan(250);
+      expect(female).toBeLessThan(350);
+      expect(indigenous).toBeGreaterThan(70);
+      expect(indigenous).toBeLessThan(130);
+    });
+  });
+
+  describe('lifespanRange', () => {
+    const patient = {
+      dob: new Date('2005-06-01'),
+      female: true,
+      indigenous: false,
+      dod: new Date('2024-03-01'),
+    };
+
+    it('should narrow the range to the minimum age and death', () => {
+      expect(lifespanRange(patient, 18, dateRange)).toEqual({
+        start: new Date(patient.dob.getTime() + 18 * 365.25 * 24 * 60 * 60 * 1000),
+        end: patient.dod,
+      });
+      expect(lifespanRange({ ...patient, dod: undefined }, 0, dateRange)).toEqual(dateRange);
+    });
+
+    it('should be undefined when nothing is left', () => {
+      expect(lifespanRange(patient, 40, dateRange)).toBeUndefined();
+    });
+  });
+
+  describe('patientObservations', () => {
+    it('should record the demographics under the configured names', () => {
+      const demographics = resolveDemographics(
+        { attributes: { sex: 'dmg_sex' }, codes: { female: 'F' } },
+        'd'
+      )!;
+      const patient = {
+        dob: new Date('1960-05-01'),
+        female: true,
+        indigenous: true,
+        dod: new Date('2024-03-01'),
+      };
+
+      expect(patientObservations(demographics, patient)).toEqual([
+        { att: 'dmg_dob', dt: patient.dob, val: null },
+        { att: 'dmg_sex', dt: patient.dob, val: 'F' },
+        { att: 'dmg_indigenous', dt: patient.dob, val: 1 },
+        { att: 'dmg_dod', dt: patient.dod, val: null },
+      ]);
+    });
+  });
+});
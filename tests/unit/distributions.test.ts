@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSeededRandom,
+  randomTruncatedNormal,
+  randomGamma,
+  randomBeta,
+  randomPoisson,
+  randomWeightedIndex,
+} from '../../src/utils/random';
+import {
+  clinicalValueGenerators,
+  createNormalGenerator,
+  createTruncatedNormalGenerator,
+  createLogNormalGenerator,
+  createGammaGenerator,
+  createBetaGenerator,
+  createPoissonGenerator,
+  createWeightedGenerator,
+  createMixtureGenerator,
+  createBoundedGenerator,
+} from '../../src/generators/value-generators';
+import { GeneratorContext, ValueGenerator } from '../../src/models/types';
+
+describe('distributions', () => {
+  const draw = (n: number, sample: (random: () => number) => number) => {
+    const random = createSeededRandom(12345);
+    return Array.from({ length: n }, () => sample(random));
+  };
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const median = (values: number[]) => [...values].sort((a, b) => a - b)[values.length >> 1];
+  const sample = (generator: ValueGenerator, n = 2000) =>
+    draw(n, (random) => generator(random) as number);
+
+  describe('sampling helpers', () => {
+    it('should keep truncated normal draws inside the bounds', () => {
+      const values = draw(2000, (random) => randomTruncatedNormal(random, 0, 1, -0.5, 2));
+
+      expect(Math.min(...values)).toBeGreaterThanOrEqual(-0.5);
+      expect(Math.max(...values)).toBeLessThanOrEqual(2);
+      expect(new Set(values.filter((v) => v === -0.5 || v === 2)).size).toBe(0);
+    });
+
+    it('should clamp when the range is unreachable', () => {
+      expect(draw(3, (random) => randomTruncatedNormal(random, 0, 1, 50, 60))).toEqual([
+        50, 50, 50,
+      ]);
+    });
+
+    it('should match the gamma mean for shapes above and below 1', () => {
+      expect(mean(draw(4000, (random) => randomGamma(random, 3, 2)))).toBeCloseTo(6, 0);
+      expect(mean(draw(4000, (random) => randomGamma(random, 0.5, 2)))).toBeCloseTo(1, 0);
+    });
+
+    it('should draw beta values in [0, 1] around the mean', () => {
+      const values = draw(4000, (random) => randomBeta(random, 2, 6));
+
+      expect(values.every((v) => v >= 0 && v <= 1)).toBe(true);
+      expect(mean(values)).toBeCloseTo(0.25, 1);
+    });
+
+    it('should draw Poisson counts with the given mean', () => {
+      const small = draw(4000, (random) => randomPoisson(random, 3));
+      const large = draw(4000, (random) => randomPoisson(random, 50));
+
+      expect(small.every((v) => Number.isInteger(v) && v >= 0)).toBe(true);
+      expect(mean(small)).toBeCloseTo(3, 0);
+      expect(Math.abs(mean(large) - 50)).toBeLessThan(1);
+      expect(draw(3, (random) => randomPoisson(random, 0))).toEqual([0, 0, 0]);
+    });
+
+    it('should pick indices by weight and never a zero weight', () => {
+      const picks = draw(4000, (random) => randomWeightedIndex(random, [1, 0, 3]));
+
+      expect(picks).not.toContain(1);
+      expect(picks.filter((i) => i === 2).length / picks.length).toBeCloseTo(0.75, 1);
+    });
+  });
+
+  describe('generator factories', () => {
+    it('should round normal values to the requested decimals', () => {
+      const values = sample(createNormalGenerator(10, 2, 1));
+
+      expect(values.every((v) => Number.isInteger(Math.round(v * 10)))).toBe(true);
+      expect(mean(values)).toBeCloseTo(10, 0);
+    });
+
+    it('should truncate without piling values at the bounds', () => {
+      const values = sample(createTruncatedNormalGenerator(100, 40, 80, 120, 0));
+
+      expect(values.every((v) => v >= 80 && v <= 120)).toBe(true);
+      expect(values.filter((v) => v === 80).length).toBeLessThan(100);
+    });
+
+    it('should produce a right-skewed log-normal around the median', () => {
+      const values = sample(createLogNormalGenerator(3, 1, 2));
+
+      expect(values.every((v) => v > 0)).toBe(true);
+      expect(median(values)).toBeGreaterThan(2.5);
+      expect(median(values)).toBeLessThan(3.5);
+      expect(mean(values)).toBeGreaterThan(median(values));
+    });
+
+    it('should build gamma, beta and Poisson generators', () => {
+      expect(mean(sample(createGammaGenerator(2, 5)))).toBeCloseTo(10, 0);
+      expect(sample(createBetaGenerator(2, 2, 90, 100)).every((v) => v >= 90 && v <= 100)).toBe(
+        true
+      );
+      expect(mean(sample(createPoissonGenerator(4)))).toBeCloseTo(4, 0);
+    });
+
+    it('should pick weighted values', () => {
+      const generator = createWeightedGenerator(['a', 'b'], [1, 9]);
+      const random = createSeededRandom(12345);
+      const values = Array.from({ length: 2000 }, () => generator(random));
+
+      expect(values.filter((v) => v === 'b').length).toBeGreaterThan(1700);
+    });
+
+    it('should draw each value from one mixture component', () => {
+      const values = sample(
+        createMixtureGenerator([
+          { weight: 1, generator: () => 1 },
+          { weight: 3, generator: () => 2 },
+        ])
+      );
+
+      expect(values.filter((v) => v === 1).length / values.length).toBeCloseTo(0.25, 1);
+    });
+
+    it('should redraw out-of-range values when bounded', () => {
+      const values = sample(createBoundedGenerator(createNormalGenerator(0, 10), -1, 1));
+
+      expect(values.every((v) => v >= -1 && v <= 1)).toBe(true);
+    });
+
+    it('should pass the generation context through wrapped generators', () => {
+      const context: GeneratorContext = {
+        eid: 1001,
+        att: 'lab_bld_egfr',
+        index: 0,
+        history: {},
+        scratch: {},
+      };
+      const eid: ValueGenerator = (_random, ctx) => ctx?.eid ?? null;
+      const generator = createBoundedGenerator(
+        createMixtureGenerator([{ weight: 1, generator: eid }]),
+        0,
+        5000
+      );
+
+      expect(generator(createSeededRandom(1), context)).toBe(1001);
+    });
+
+    it('should be deterministic for a seed', () => {
+      const generator = createLogNormalGenerator(3, 1);
+
+      expect(sample(generator, 20)).toEqual(sample(generator, 20));
+    });
+  });
+
+  describe('clinicalValueGenerators', () => {
+    it('should skew ACR and CRP to the right within range', () => {
+      for (const att of ['lab_ua_acr', 'lab_bld_crp']) {
+        const values = sample(clinicalValueGenerators[att]);
+
+        expect(values.every((v) => v >= 0 && v <= 300)).toBe(true);
+        expect(mean(values)).toBeGreaterThan(median(values));
+      }
+    });
+
+    it('should give eGFR a CKD minority', () => {
+      const values = sample(clinicalValueGenerators.lab_bld_egfr);
+      const ckd = values.filter((v) => v < 60).length / values.length;
+
+      expect(ckd).toBeGreaterThan(0.15);
+      expect(ckd).toBeLessThan(0.45);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { resolveEncounterPanels, selectOrderedVisits } from '../../src/generators/encounters';
+import { GeneratorSpecError } from '../../src/generators/generator-spec';
+import { createSeededRandom } from '../../src/utils/random';
+
+describe('encounters', () => {
+  const defaults = {
+    dateRange: { start: new Date('2023-01-01'), end: new Date('2024-12-31') },
+    dateDistribution: 'uniform' as const,
+  };
+
+  describe('resolveEncounterPanels', () => {
+    it('should fill unset fields from the global settings', () => {
+      const [renal] = resolveEncounterPanels(
+        [
+          {
+            name: 'renal',
+            attributes: ['lab_bld_creatinine', 'lab_bld_egfr'],
+            visits: { min: 2, max: 2 },
+            dateRange: { start: '2024-01-01' },
+          },
+        ],
+        defaults,
+        'encounterPanels'
+      );
+
+      expect(renal.attributes).toEqual(['lab_bld_creatinine', 'lab_bld_egfr']);
+      expect(renal.orderProbability).toEqual({});
+      expect(renal.visits?.(Math.random)).toBe(2);
+      expect(renal.dateRange).toEqual({
+        start: new Date('2024-01-01'),
+        end: defaults.dateRange.end,
+      });
+      expect(renal.dateDistribution).toBe('uniform');
+    });
+
+    it('should leave the visit count unset when not configured', () => {
+      const [renal] = resolveEncounterPanels(
+        [{ name: 'renal', attributes: ['lab_bld_egfr'] }],
+        defaults,
+        'encounterPanels'
+      );
+
+      expect(renal.visits).toBeUndefined();
+    });
+
+    it('should report every problem with its path', () => {
+      try {
+        resolveEncounterPanels(
+          [
+            {
+              name: 'renal',
+              attributes: ['lab_bld_egfr', 'lab_bld_urea'],
+              orderProbability: { lab_bld_urea: 1.5, lab_bld_hb: 0.5 },
+              visits: -1,
+            },
+            {
+              name: 'diabetes',
+              attributes: ['lab_bld_egfr'],
+              dateDistribution: { dist: 'scheduled', intervalDays: 0 },
+            },
+            { name: 'empty', attributes: [] },
+          ],
+          defaults,
+          'encounterPanels'
+        );
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(GeneratorSpecError);
+        expect((error as GeneratorSpecError).issues.map((i) => i.path)).toEqual([
+          'encounterPanels[0].orderProbability.lab_bld_urea',
+          'encounterPanels[0].orderProbability.lab_bld_hb',
+          'encounterPanels[0].visits',
+          'encounterPanels[1].attributes[0]',
+          'encounterPanels[1].dateDistribution.intervalDays',
+          'encounterPanels[2].attributes',
+        ]);
+      }
+    });
+  });
+
+  describe('selectOrderedVisits', () => {
+    const visits = Array.from({ length: 200 }, (_, i) => new Date(2024, 0, 1 + i));
+    const panel = resolveEncounterPanels(
+      [
+        {
+          name: 'renal',
+          attributes: ['lab_bld_egfr', 'lab_bld_urea'],
+          orderProbability: { lab_bld_urea: 0.25 },
+        },
+      ],
+      defaults,
+      'encounterPanels'
+    )[0];
+
+    it('should keep every visit by default', () => {
+      expect(selectOrderedVisits(panel, 'lab_bld_egfr', visits, () => 0.99)).toEqual(visits);
+    });
+
+    it('should keep visits with the order probability', () => {
+      const ordered = selectOrderedVisits(
+        panel,
+        'lab_bld_urea',
+        visits,
+        createSeededRandom(12345)
+      );
+
+      expect(ordered.length).toBeGreaterThan(20);
+      expect(ordered.length).toBeLessThan(80);
+      expect(ordered.every((dt) => visits.includes(dt))).toBe(true);
+    });
+  });
+});
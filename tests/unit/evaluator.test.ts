@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateFetch,
+  evaluateRuleblock,
+  findUnevaluableComputes,
+  groupRowsByEntity,
+  groupTableRowsByEntity,
+} from '../../src/evaluator';
+import { RuleType, ParsedRuleblock, ParsedFetchStatement } from 'picorules-compiler-js-core';
+import { EadvRow } from '../../src/models/types';
+
+describe('evaluator', () => {
+  const context = { dateFormat: 'iso' as const, sysdate: new Date('2024-12-31') };
+
+  const rows: EadvRow[] = [
+    { eid: 1001, att: 'lab_bld_egfr', dt: '2024-03-01', val: 70 },
+    { eid: 1001, att: 'lab_bld_egfr', dt: '2024-09-01', val: 45 },
+    { eid: 1001, att: 'lab_bld_egfr', dt: '2024-06-01', val: 55 },
+  ];
+
+  const fetch = (functionName: string, property = 'val'): ParsedFetchStatement => ({
+    ruleType: RuleType.FETCH_STATEMENT,
+    assignedVariable: 'egfr',
+    table: 'eadv',
+    attributeList: ['lab_bld_egfr'],
+    property,
+    functionName,
+    references: [],
+  });
+
+  describe('evaluateFetch', () => {
+    it('should evaluate last and first by date', () => {
+      expect(evaluateFetch(fetch('last'), rows, context).egfr).toBe(45);
+      expect(evaluateFetch(fetch('first'), rows, context).egfr).toBe(70);
+    });
+
+    it('should evaluate aggregates', () => {
+      expect(evaluateFetch(fetch('min'), rows, context).egfr).toBe(45);
+      expect(evaluateFetch(fetch('max'), rows, context).egfr).toBe(70);
+      expect(evaluateFetch(fetch('count'), rows, context).egfr).toBe(3);
+      expect(evaluateFetch(fetch('exists'), [], context).egfr).toBe(0);
+    });
+
+    it('should assign _val and _dt for lastdv', () => {
+      const result = evaluateFetch(fetch('lastdv'), rows, context);
+
+      expect(result.egfr_val).toBe(45);
+      expect(result.egfr_dt).toEqual(new Date('2024-09-01'));
+    });
+
+    it('should compute a negative slope for declining values', () => {
+      const slope = evaluateFetch(fetch('regr_slope'), rows, context).egfr as number;
+
+      expect(slope).toBeLessThan(0);
+    });
+
+    it('should return null when there are no rows', () => {
+      expect(evaluateFetch(fetch('last'), [], context).egfr).toBeNull();
+    });
+  });
+
+  describe('evaluateRuleblock', () => {
+    const ruleblock: ParsedRuleblock = {
+      name: 'ckd',
+      text: '',
+      isActive: true,
+      rules: [
+        fetch('last'),
+        {
+          ruleType: RuleType.BIND_STATEMENT,
+          assignedVariable: 'dm',
+          sourceRuleblock: 'dm',
+          sourceVariable: 'dm',
+          property: 'val',
+          references: [],
+        },
+        {
+          ruleType: RuleType.COMPUTE_STATEMENT,
+          assignedVariable: 'has_ckd',
+          conditions: [
+            { predicate: 'egfr < 60 and dm = 1', returnValue: '2' },
+            { predicate: 'egfr < 60', returnValue: '1' },
+            { returnValue: '0' },
+          ],
+          references: ['egfr', 'dm'],
+        },
+      ],
+    };
+
+    it('should fire the first matching branch', () => {
+      const result = evaluateRuleblock(ruleblock, rows, context);
+
+      expect(result.variables.has_ckd).toBe(1);
+      expect(result.branches.has_ckd).toBe(1);
+    });
+
+    it('should read bound variables from rout rows', () => {
+      const result = evaluateRuleblock(ruleblock, rows, {
+        ...context,
+        routRows: { rout_dm: { eid: 1001, dm: 1 } },
+      });
+
+      expect(result.branches.has_ckd).toBe(0);
+      expect(result.variables.has_ckd).toBe(2);
+    });
+
+    it('should not read eadv rows for an entity without rows in the fetched table', () => {
+      const grouped = groupTableRowsByEntity({
+        eadv: rows,
+        eadv_ext: [{ eid: 1002, att: 'lab_bld_egfr', dt: '2024-01-01', val: 90 }],
+      });
+      const ext: ParsedRuleblock = {
+        ...ruleblock,
+        rules: [{ ...fetch('last'), table: 'eadv_ext' }],
+      };
+
+      const result = evaluateRuleblock(ext, rows, { ...context, tableRows: grouped.get(1001) });
+
+      expect(grouped.get(1001)?.eadv_ext).toEqual([]);
+      expect(result.variables.egfr).toBeNull();
+    });
+
+    it('should fall through to the default branch', () => {
+      const result = evaluateRuleblock(ruleblock, [], context);
+
+      expect(result.branches.has_ckd).toBe(2);
+      expect(result.variables.has_ckd).toBe(0);
+    });
+  });
+
+  describe('findUnevaluableComputes', () => {
+    const ruleblock: ParsedRuleblock = {
+      name: 'ckd',
+      text: '',
+      isActive: true,
+      rules: [
+        fetch('last'),
+        {
+          ruleType: RuleType.COMPUTE_STATEMENT,
+          assignedVariable: 'stage',
+          conditions: [
+            { predicate: 'egfr < 30', returnValue: '4' },
+            { predicate: 'floor(egfr) < 60', returnValue: '3' },
+            { returnValue: '0' },
+          ],
+          references: ['egfr'],
+        },
+        {
+          ruleType: RuleType.COMPUTE_STATEMENT,
+          assignedVariable: 'flag',
+          conditions: [{ predicate: 'stage > 0', returnValue: '1' }, { returnValue: '0' }],
+          references: ['stage'],
+        },
+      ],
+    };
+
+    it('should follow unsupported functions through referenced variables', () => {
+      const unevaluable = findUnevaluableComputes(ruleblock);
+
+      expect(unevaluable.get('stage')).toEqual({ fromBranch: 1, functions: ['floor'] });
+      expect(unevaluable.get('flag')).toEqual({ fromBranch: 0, functions: ['floor'] });
+    });
+
+    it('should read unevaluable variables as null without guessing their branch', () => {
+      const unevaluable = findUnevaluableComputes(ruleblock);
+
+      const lowRows = [{ ...rows[0], val: 20 }];
+      const low = evaluateRuleblock(ruleblock, lowRows, { ...context, unevaluable });
+      const mid = evaluateRuleblock(ruleblock, rows, { ...context, unevaluable });
+
+      expect(low.branches.stage).toBe(0);
+      expect(low.variables.stage).toBeNull();
+      expect(mid.branches.stage).toBe(-1);
+      expect(mid.branches.flag).toBe(-1);
+    });
+  });
+
+  describe('groupRowsByEntity', () => {
+    it('should group rows by eid', () => {
+      const grouped = groupRowsByEntity([
+        ...rows,
+        { eid: 1002, att: 'lab_bld_egfr', dt: '2024-01-01', val: 90 },
+      ]);
+
+      expect(grouped.get(1001)?.length).toBe(3);
+      expect(grouped.get(1002)?.length).toBe(1);
+    });
+  });
+});
@@ -2,9 +2,16 @@ import { describe, it, expect } from 'vitest';
 import {
   extractDependencies,
   extractAttributeList,
+  extractThresholds,
+  extractBindDomains,
   isWildcardAttribute,
   filterConcreteAttributes,
+  matchesAttributePattern,
+  vocabularyAttributeName,
+  findVocabularyAttributes,
+  expandWildcardAttributeDistinct,
 } from '../../src/extractor';
+import { createSeededRandom } from '../../src/utils/random';
 import { RuleType, ParsedRuleblock } from 'picorules-compiler-js-core';
 
 describe('extractor', () => {
@@ -36,6 +43,43 @@ describe('extractor', () => {
       expect(result.bindDependencies.size).toBe(0);
     });
 
+    it('should group attributes by source table', () => {
+      const ruleblocks: ParsedRuleblock[] = [
+        {
+          name: 'test',
+          text: '',
+          isActive: true,
+          rules: [
+            {
+              ruleType: RuleType.FETCH_STATEMENT,
+              assignedVariable: 'egfr_last',
+              table: 'eadv',
+              attributeList: ['lab_bld_egfr'],
+              property: 'val',
+              functionName: 'last',
+              references: [],
+            },
+            {
+              ruleType: RuleType.FETCH_STATEMENT,
+              assignedVariable: 'ckd_dx',
+              table: 'eadv_ext',
+              attributeList: ['icd_n18'],
+              property: 'dt',
+              functionName: 'min',
+              references: [],
+            },
+          ],
+        },
+      ];
+
+      const result = extractDependencies(ruleblocks);
+
+      expect(Array.from(result.tableAttributes.keys())).toEqual(['eadv', 'eadv_ext']);
+      expect(Array.from(result.tableAttributes.get('eadv')!)).toEqual(['lab_bld_egfr']);
+      expect(Array.from(result.tableAttributes.get('eadv_ext')!)).toEqual(['icd_n18']);
+      expect(result.eadvAttributes.size).toBe(2);
+    });
+
     it('should extract multiple attributes from multi-attribute fetch', () => {
       const ruleblocks: ParsedRuleblock[] = [
         {
@@ -126,6 +170,7 @@ describe('extractor', () => {
 
       const result = extractDependencies(ruleblocks);
 
+      expect(result.fetchFunctions.get('lab_bld_egfr')).toEqual(new Set(['last']));
       expect(result.eadvAttributes.size).toBe(2);
       expect(result.eadvAttributes.has('lab_bld_egfr')).toBe(true);
       expect(result.eadvAttributes.has('lab_bld_haemoglobin')).toBe(true);
@@ -158,6 +203,143 @@ describe('extractor', () => {
     });
   });
 
+  describe('fetch filters', () => {
+    it('should capture where-clauses per attribute', () => {
+      const ruleblocks: ParsedRuleblock[] = [
+        {
+          name: 'test',
+          text: '',
+          isActive: true,
+          rules: [
+            {
+              ruleType: RuleType.FETCH_STATEMENT,
+              assignedVariable: 'egfr_recent',
+              table: 'eadv',
+              attributeList: ['lab_bld_egfr'],
+              property: 'val',
+              functionName: 'last',
+              predicate: 'dt > sysdate - 90',
+              references: [],
+            },
+            {
+              ruleType: RuleType.FETCH_STATEMENT,
+              assignedVariable: 'egfr_last',
+              table: 'eadv',
+              attributeList: ['lab_bld_egfr'],
+              property: 'val',
+              functionName: 'last',
+              references: [],
+            },
+          ],
+        },
+      ];
+
+      const result = extractDependencies(ruleblocks);
+
+      expect(result.fetchFilters.get('lab_bld_egfr')).toEqual(['dt > sysdate - 90']);
+    });
+  });
+
+  describe('extractThresholds', () => {
+    it('should trace compute thresholds back to fetched attributes', () => {
+      const ruleblocks: ParsedRuleblock[] = [
+        {
+          name: 'ckd',
+          text: '',
+          isActive: true,
+          rules: [
+            {
+              ruleType: RuleType.FETCH_STATEMENT,
+              assignedVariable: 'egfr_last',
+              table: 'eadv',
+              attributeList: ['lab_bld_egfr'],
+              property: 'val',
+              functionName: 'last',
+              references: [],
+            },
+            {
+              ruleType: RuleType.COMPUTE_STATEMENT,
+              assignedVariable: 'ckd_stage',
+              conditions: [
+                { predicate: 'egfr_last < 15', returnValue: '5' },
+                { predicate: 'egfr_last between 15 and 29', returnValue: '4' },
+                { predicate: 'egfr_last < 60', returnValue: '3' },
+                { returnValue: '0' },
+              ],
+              references: ['egfr_last'],
+            },
+          ],
+        },
+      ];
+
+      const result = extractThresholds(ruleblocks);
+
+      expect(result.get('lab_bld_egfr')).toEqual([15, 29, 60]);
+    });
+
+    it('should ignore thresholds on non-value fetches', () => {
+      const ruleblocks: ParsedRuleblock[] = [
+        {
+          name: 'test',
+          text: '',
+          isActive: true,
+          rules: [
+            {
+              ruleType: RuleType.FETCH_STATEMENT,
+              assignedVariable: 'egfr_n',
+              table: 'eadv',
+              attributeList: ['lab_bld_egfr'],
+              property: 'val',
+              functionName: 'count',
+              references: [],
+            },
+            {
+              ruleType: RuleType.COMPUTE_STATEMENT,
+              assignedVariable: 'enough',
+              conditions: [{ predicate: 'egfr_n >= 2', returnValue: '1' }],
+              references: ['egfr_n'],
+            },
+          ],
+        },
+      ];
+
+      const result = extractThresholds(ruleblocks);
+
+      expect(result.size).toBe(0);
+    });
+
+    it('should resolve the _val suffix of lastdv variables', () => {
+      const ruleblocks: ParsedRuleblock[] = [
+        {
+          name: 'test',
+          text: '',
+          isActive: true,
+          rules: [
+            {
+              ruleType: RuleType.FETCH_STATEMENT,
+              assignedVariable: 'hba1c',
+              table: 'eadv',
+              attributeList: ['lab_bld_hba1c'],
+              property: 'val',
+              functionName: 'lastdv',
+              references: [],
+            },
+            {
+              ruleType: RuleType.COMPUTE_STATEMENT,
+              assignedVariable: 'poor_control',
+              conditions: [{ predicate: 'hba1c_val > 8.5', returnValue: '1' }],
+              references: ['hba1c_val'],
+            },
+          ],
+        },
+      ];
+
+      const result = extractThresholds(ruleblocks);
+
+      expect(result.get('lab_bld_hba1c')).toEqual([8.5]);
+    });
+  });
+
   describe('extractAttributeList', () => {
     it('should return flat array of attributes', () => {
       const ruleblocks: ParsedRuleblock[] = [
@@ -222,4 +404,133 @@ describe('extractor', () => {
       expect(result).not.toContain('lab_%');
     });
   });
+
+  describe('matchesAttributePattern', () => {
+    it('should match SQL LIKE patterns', () => {
+      expect(matchesAttributePattern('icd_c18%', 'icd_c18_0')).toBe(true);
+      expect(matchesAttributePattern('icd_c18%', 'icd_c19_0')).toBe(false);
+      expect(matchesAttributePattern('lab_bld_egfr', 'lab_bld_egfr')).toBe(true);
+    });
+  });
+
+  describe('vocabularies', () => {
+    const vocabularies = [
+      { name: 'icd10', prefix: 'icd_', codes: ['C18.0', 'C18.2', 'C18.7', 'E11.9'] },
+    ];
+
+    it('should normalise codes to attribute names', () => {
+      expect(vocabularyAttributeName('C18.0', 'icd_')).toBe('icd_c18_0');
+    });
+
+    it('should find vocabulary attributes matching a wildcard', () => {
+      expect(findVocabularyAttributes('icd_c18%', vocabularies)).toEqual([
+        'icd_c18_0',
+        'icd_c18_2',
+        'icd_c18_7',
+      ]);
+    });
+
+    it('should expand to distinct vocabulary codes', () => {
+      const random = createSeededRandom(12345);
+      const matches = findVocabularyAttributes('icd_c18%', vocabularies);
+
+      const expanded = expandWildcardAttributeDistinct('icd_c18%', 2, matches, random);
+
+      expect(expanded.length).toBe(2);
+      expect(new Set(expanded).size).toBe(2);
+      expanded.forEach((att) => expect(matches).toContain(att));
+    });
+
+    it('should not return more codes than the vocabulary has', () => {
+      const random = createSeededRandom(12345);
+      const matches = findVocabularyAttributes('icd_e11%', vocabularies);
+
+      expect(expandWildcardAttributeDistinct('icd_e11%', 5, matches, random)).toEqual([
+        'icd_e11_9',
+      ]);
+    });
+
+    it('should fall back to distinct random suffixes', () => {
+      const random = createSeededRandom(12345);
+
+      const expanded = expandWildcardAttributeDistinct('lab_%', 3, [], random);
+
+      expect(new Set(expanded).size).toBe(3);
+      expanded.forEach((att) => expect(att.startsWith('lab_')).toBe(true));
+    });
+  });
+
+  describe('extractBindDomains', () => {
+    const source: ParsedRuleblock = {
+      name: 'ckd',
+      text: '',
+      isActive: true,
+      rules: [
+        {
+          ruleType: RuleType.COMPUTE_STATEMENT,
+          assignedVariable: 'ckd_stage',
+          conditions: [
+            { predicate: 'egfr < 15', returnValue: '5' },
+            { predicate: 'egfr < 30', returnValue: '4' },
+            { predicate: 'egfr < 60', returnValue: '3' },
+          ],
+          references: ['egfr'],
+        },
+        {
+          ruleType: RuleType.COMPUTE_STATEMENT,
+          assignedVariable: 'ckd_label',
+          conditions: [
+            { predicate: 'ckd_stage >= 3', returnValue: "'ckd'" },
+            { returnValue: "'none'" },
+          ],
+          references: ['ckd_stage'],
+        },
+        {
+          ruleType: RuleType.COMPUTE_STATEMENT,
+          assignedVariable: 'egfr_x2',
+          conditions: [{ returnValue: 'egfr * 2' }],
+          references: ['egfr'],
+        },
+      ],
+    };
+
+    const consumer = (variable: string): ParsedRuleblock => ({
+      name: 'monitoring',
+      text: '',
+      isActive: true,
+      rules: [
+        {
+          ruleType: RuleType.BIND_STATEMENT,
+          assignedVariable: variable,
+          sourceRuleblock: 'ckd',
+          sourceVariable: variable,
+          property: 'val',
+        },
+      ],
+    });
+
+    it('should read literal return values and add null without a default', () => {
+      const domains = extractBindDomains([source, consumer('ckd_stage')]);
+
+      expect(domains.get('rout_ckd')?.get('ckd_stage')).toEqual([5, 4, 3, null]);
+    });
+
+    it('should read text labels', () => {
+      const domains = extractBindDomains([source, consumer('ckd_label')]);
+
+      expect(domains.get('rout_ckd')?.get('ckd_label')).toEqual(['ckd', 'none']);
+    });
+
+    it('should skip variables computed from expressions', () => {
+      const domains = extractBindDomains([source, consumer('egfr_x2')]);
+
+      expect(domains.size).toBe(0);
+    });
+
+    it('should skip source ruleblocks outside the input', () => {
+      const domains = extractBindDomains([consumer('ckd_stage')]);
+
+      expect(domains.size).toBe(0);
+    });
+  });
 });
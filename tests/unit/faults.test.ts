@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { resolveFaults, injectEadvFaults, injectRoutFaults } from '../../src/generators/faults';
+import { GeneratorSpecError } from '../../src/generators/generator-spec';
+import { createSeededRandom } from '../../src/utils/random';
+import { EadvRow } from '../../src/models/types';
+
+describe('faults', () => {
+  const dateRange = { start: new Date('2024-01-01'), end: new Date('2024-12-31') };
+  const rows: EadvRow[] = Array.from({ length: 200 }, (_, i) => ({
+    eid: 1001 + (i % 10),
+    att: i % 2 === 0 ? 'lab_bld_creatinine' : 'lab_bld_hba1c',
+    dt: '2024-06-01',
+    val: i % 2 === 0 ? 120 : 7.4,
+  }));
+
+  const inject = (spec: Parameters<typeof resolveFaults>[0]) =>
+    injectEadvFaults(
+      'eadv',
+      rows,
+      resolveFaults(spec, 'faults'),
+      dateRange,
+      'iso',
+      createSeededRandom(12345)
+    );
+
+  describe('resolveFaults', () => {
+    it('should default every rate to 0', () => {
+      const faults = resolveFaults({}, 'faults');
+
+      expect(faults.duplicates).toBe(0);
+      expect(faults.missingRoutRows).toBe(0);
+      expect(faults.sentinelValues).toEqual(['<5', '>90', 'see comment']);
+    });
+
+    it('should report every problem with its path', () => {
+      try {
+        resolveFaults(
+          {
+            duplicates: 1.5,
+            nulls: 0.6,
+            sentinels: 0.6,
+            sentinelValues: [],
+            unitFactors: { lab_bld_creatinine: 0 },
+          },
+          'faults'
+        );
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(GeneratorSpecError);
+        expect((error as GeneratorSpecError).issues.map((i) => i.path)).toEqual([
+          'faults.duplicates',
+          'faults',
+          'faults.sentinelValues',
+          'faults.unitFactors.lab_bld_creatinine',
+        ]);
+      }
+    });
+  });
+
+  describe('injectEadvFaults', () => {
+    it('should leave the rows alone when every rate is 0', () => {
+      const result = inject({});
+
+      expect(result.rows).toEqual(rows);
+      expect(result.faults).toEqual([]);
+    });
+
+    it('should log every changed value with the original', () => {
+      const result = inject({ nulls: 0.1, sentinels: 0.1, outliers: 0.1, unitMixups: 0.1 });
+
+      expect(result.rows).toHaveLength(rows.length);
+      expect(result.faults.length).toBeGreaterThan(40);
+      for (const fault of result.faults) {
+        expect(fault.original?.val).toBe(fault.att === 'lab_bld_creatinine' ? 120 : 7.4);
+        const changed = result.rows.filter(
+          (row) => row.eid === fault.eid && row.att === fault.att && row.val === fault.val
+        );
+        expect(changed.length).toBeGreaterThan(0);
+      }
+      const types = new Set(result.faults.map((fault) => fault.type));
+      expect(types).toEqual(new Set(['null', 'sentinel', 'outlier', 'unit-mixup']));
+      const sentinels = result.faults.filter((fault) => fault.type === 'sentinel');
+      const sentinelValues = ['<5', '>90', 'see comment'];
+      expect(sentinels.every((fault) => sentinelValues.includes(fault.val as string))).toBe(true);
+    });
+
+    it('should convert units with the attribute factor', () => {
+      const result = inject({ unitMixups: 1, unitFactors: { lab_bld_creatinine: 1 / 88.4 } });
+
+      const creatinine = result.faults.filter((fault) => fault.att === 'lab_bld_creatinine');
+      const hba1c = result.faults.filter((fault) => fault.att === 'lab_bld_hba1c');
+      expect(creatinine.every((fault) => fault.val === 1.35747)).toBe(true);
+      expect(hba1c.every((fault) => fault.val === 7400)).toBe(true);
+    });
+
+    it('should move dates outside the range', () => {
+      const result = inject({ outOfRangeDates: 0.5, futureDates: 0.5 });
+
+      expect(result.faults).toHaveLength(rows.length);
+      for (const fault of result.faults) {
+        expect(fault.original?.dt).toBe('2024-06-01');
+        if (fault.type === 'future-date') {
+          expect(fault.dt! > '2024-12-31').toBe(true);
+        } else {
+          expect(fault.type).toBe('out-of-range-date');
+          expect(fault.dt! < '2024-01-01').toBe(true);
+        }
+      }
+    });
+
+    it('should add duplicates and same-day conflicts after the original row', () => {
+      const result = inject({ duplicates: 0.2, conflicts: 0.2 });
+
+      const duplicates = result.faults.filter((fault) => fault.type === 'duplicate');
+      const conflicts = result.faults.filter((fault) => fault.type === 'conflict');
+      expect(duplicates.length).toBeGreaterThan(0);
+      expect(conflicts.length).toBeGreaterThan(0);
+      expect(result.rows).toHaveLength(rows.length + duplicates.length + conflicts.length);
+      for (const conflict of conflicts) {
+        expect(conflict.dt).toBe('2024-06-01');
+        expect(conflict.val).not.toBe(conflict.att === 'lab_bld_creatinine' ? 120 : 7.4);
+      }
+    });
+
+    it('should only touch the listed attributes', () => {
+      const result = inject({ nulls: 1, attributes: ['lab_bld_hb%'] });
+
+      expect(result.faults).toHaveLength(100);
+      expect(result.faults.every((fault) => fault.att === 'lab_bld_hba1c')).toBe(true);
+    });
+
+    it('should inject the same faults entity by entity', () => {
+      const faults = resolveFaults({ nulls: 0.1, duplicates: 0.1, futureDates: 0.1 }, 'faults');
+      const whole = injectEadvFaults(
+        'eadv',
+        rows,
+        faults,
+        dateRange,
+        'iso',
+        createSeededRandom(1)
+      );
+
+      const random = createSeededRandom(1);
+      const chunked = [0, 50, 100, 150].map((start) =>
+        injectEadvFaults('eadv', rows.slice(start, start + 50), faults, dateRange, 'iso', random)
+      );
+
+      expect(chunked.flatMap((chunk) => chunk.rows)).toEqual(whole.rows);
+      expect(chunked.flatMap((chunk) => chunk.faults)).toEqual(whole.faults);
+    });
+  });
+
+  describe('injectRoutFaults', () => {
+    it('should remove rows and log them', () => {
+      const routRows = Array.from({ length: 100 }, (_, i) => ({ eid: 1001 + i, ckd_stage: 3 }));
+      const faults = resolveFaults({ missingRoutRows: 0.2 }, 'faults');
+
+      const result = injectRoutFaults('rout_ckd', routRows, faults, createSeededRandom(12345));
+
+      expect(result.faults.length).toBeGreaterThan(5);
+      expect(result.rows).toHaveLength(100 - result.faults.length);
+      for (const fault of result.faults) {
+        expect(fault).toMatchObject({ type: 'missing-rout-row', table: 'rout_ckd' });
+        expect(result.rows.some((row) => row.eid === fault.eid)).toBe(false);
+        expect(fault.original?.row).toEqual({ eid: fault.eid, ckd_stage: 3 });
+      }
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  shapeFilteredObservations,
+  collectFilterExpectations,
+} from '../../src/generators/filter-shaper';
+import { parsePredicate } from '../../src/predicates';
+import { createRangeGenerator } from '../../src/generators/value-generators';
+import { createSeededRandom } from '../../src/utils/random';
+
+describe('filter shaper', () => {
+  const dateRange = { start: new Date('2024-01-01'), end: new Date('2024-12-31') };
+  const sysdate = dateRange.end;
+  const windowStart = new Date('2024-12-31').getTime() - 90 * 24 * 60 * 60 * 1000;
+  const draw = createRangeGenerator(-10, 100);
+
+  describe('shapeFilteredObservations', () => {
+    it('should put rows inside and outside a relative date window', () => {
+      const random = createSeededRandom(12345);
+      // All rows start outside the 90 day window
+      const dates = [new Date('2024-06-01'), new Date('2024-04-01'), new Date('2024-02-01')];
+
+      const result = shapeFilteredObservations(
+        'lab_bld_egfr',
+        [parsePredicate('dt > sysdate - 90')],
+        dates,
+        [50, 60, 70],
+        0,
+        dateRange,
+        sysdate,
+        random,
+        draw
+      );
+
+      const inside = result.dates.filter((d) => d.getTime() > windowStart);
+      expect(inside.length).toBeGreaterThan(0);
+      expect(inside.length).toBeLessThan(3);
+    });
+
+    it('should put values on both sides of a value filter', () => {
+      const random = createSeededRandom(12345);
+      const dates = [new Date('2024-06-01'), new Date('2024-04-01')];
+
+      const result = shapeFilteredObservations(
+        'lab_bld_egfr',
+        [parsePredicate('val > 0')],
+        dates,
+        [50, 60],
+        0,
+        dateRange,
+        sysdate,
+        random,
+        draw
+      );
+
+      expect(result.values.some((v) => (v as number) > 0)).toBe(true);
+      expect(result.values.some((v) => (v as number) <= 0)).toBe(true);
+    });
+
+    it('should only use boundary values the generator can produce', () => {
+      const random = createSeededRandom(12345);
+      const dates = [new Date('2024-06-01'), new Date('2024-04-01'), new Date('2024-02-01')];
+      const egfr = createRangeGenerator(15, 120);
+
+      const result = shapeFilteredObservations(
+        'lab_bld_egfr',
+        [parsePredicate('val > 0'), parsePredicate('val < 60')],
+        dates,
+        [50, 60, 70],
+        0,
+        dateRange,
+        sysdate,
+        random,
+        () => egfr(random)
+      );
+
+      expect(result.values.every((v) => (v as number) >= 15)).toBe(true);
+      expect(result.values).toContain(59);
+    });
+
+    it('should keep dates within the range for value filters', () => {
+      const random = createSeededRandom(12345);
+      const dates = Array.from({ length: 20 }, (_, i) => new Date(Date.UTC(2024, 0, 1 + i * 10)));
+      const narrow = { start: new Date('2024-01-01'), end: new Date('2024-09-30') };
+
+      for (const predicate of ['val > 0', 'val > 1000']) {
+        const result = shapeFilteredObservations(
+          'lab_bld_egfr',
+          [parsePredicate(predicate)],
+          dates,
+          dates.map(() => 50),
+          0,
+          narrow,
+          sysdate,
+          random,
+          draw
+        );
+
+        for (const dt of result.dates) {
+          expect(dt.getTime()).toBeGreaterThanOrEqual(narrow.start.getTime());
+          expect(dt.getTime()).toBeLessThanOrEqual(narrow.end.getTime());
+        }
+      }
+    });
+
+    it('should keep dates in descending order', () => {
+      const random = createSeededRandom(12345);
+      const dates = [new Date('2024-06-01'), new Date('2024-04-01'), new Date('2024-02-01')];
+
+      const result = shapeFilteredObservations(
+        'lab_bld_egfr',
+        [parsePredicate('dt > sysdate - 90')],
+        dates,
+        [50, 60, 70],
+        1,
+        dateRange,
+        sysdate,
+        random,
+        draw
+      );
+
+      for (let i = 1; i < result.dates.length; i++) {
+        expect(result.dates[i - 1].getTime()).toBeGreaterThanOrEqual(result.dates[i].getTime());
+      }
+    });
+  });
+
+  describe('collectFilterExpectations', () => {
+    it('should record whether each row passes each filter', () => {
+      const expectations = collectFilterExpectations(
+        [
+          { eid: 1001, att: 'lab_bld_egfr', dt: '2024-12-01', val: 50 },
+          { eid: 1001, att: 'lab_bld_egfr', dt: '2024-03-01', val: 50 },
+          { eid: 1001, att: 'lab_bld_hb', dt: '2024-03-01', val: 50 },
+        ],
+        new Map([['lab_bld_egfr', ['dt > sysdate - 90']]]),
+        'iso',
+        sysdate
+      );
+
+      expect(expectations).toEqual([
+        { eid: 1001, att: 'lab_bld_egfr', dt: '2024-12-01', predicate: 'dt > sysdate - 90', passes: true },
+        { eid: 1001, att: 'lab_bld_egfr', dt: '2024-03-01', predicate: 'dt > sysdate - 90', passes: false },
+      ]);
+    });
+  });
+});
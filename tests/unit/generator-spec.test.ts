@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileGeneratorSpec,
+  validateGeneratorSpec,
+  resolveValueGenerator,
+  resolveValueGenerators,
+  GeneratorSpecError,
+} from '../../src/generators/generator-spec';
+import { createSeededRandom } from '../../src/utils/random';
+import { GeneratorSpec } from '../../src/models/types';
+
+describe('generator specs', () => {
+  const sample = (spec: GeneratorSpec, n = 200) => {
+    const generator = compileGeneratorSpec(spec);
+    const random = createSeededRandom(12345);
+    return Array.from({ length: n }, () => generator(random));
+  };
+
+  describe('compileGeneratorSpec', () => {
+    it('should generate uniform integers in range', () => {
+      const values = sample({ dist: 'uniform', min: 10, max: 20 }) as number[];
+
+      expect(values.every((v) => Number.isInteger(v) && v >= 10 && v <= 20)).toBe(true);
+      expect(new Set(values).size).toBe(11);
+    });
+
+    it('should generate truncated, rounded normal values', () => {
+      const values = sample(
+        { dist: 'normal', mean: 65, sd: 20, min: 5, max: 130, decimals: 0 },
+        1000
+      ) as number[];
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+
+      expect(values.every((v) => Number.isInteger(v) && v >= 5 && v <= 130)).toBe(true);
+      expect(mean).toBeGreaterThan(60);
+      expect(mean).toBeLessThan(70);
+    });
+
+    it('should keep skewed distributions within their bounds', () => {
+      const acr = sample({ dist: 'lognormal', median: 1.5, sdLog: 1.4, max: 300 }) as number[];
+      const counts = sample({ dist: 'poisson', lambda: 2 }) as number[];
+      const beta = sample({ dist: 'beta', alpha: 2, beta: 5, min: 90, max: 100 }) as number[];
+
+      expect(acr.every((v) => v >= 0 && v <= 300)).toBe(true);
+      expect(counts.every((v) => Number.isInteger(v) && v >= 0)).toBe(true);
+      expect(beta.every((v) => v >= 90 && v <= 100)).toBe(true);
+    });
+
+    it('should honour discrete weights', () => {
+      const values = sample(
+        { dist: 'discrete', values: ['a', 'b', null], weights: [9, 1, 0] },
+        1000
+      );
+
+      expect(values).not.toContain(null);
+      expect(values.filter((v) => v === 'a').length).toBeGreaterThan(850);
+    });
+
+    it('should return constants', () => {
+      expect(sample({ dist: 'constant', value: 'N18.4' }, 3)).toEqual(['N18.4', 'N18.4', 'N18.4']);
+    });
+
+    it('should count or cycle in sequences', () => {
+      expect(sample({ dist: 'sequence', start: 10, step: 5 }, 3)).toEqual([10, 15, 20]);
+      expect(sample({ dist: 'sequence', values: [1, 2] }, 5)).toEqual([1, 2, 1, 2, 1]);
+    });
+
+    it('should return nulls at the given rate', () => {
+      const values = sample(
+        { dist: 'nullable', nullProbability: 0.3, of: { dist: 'constant', value: 1 } },
+        1000
+      );
+      const nulls = values.filter((v) => v === null).length;
+
+      expect(nulls).toBeGreaterThan(230);
+      expect(nulls).toBeLessThan(370);
+    });
+
+    it('should draw from composite components by weight', () => {
+      const values = sample(
+        {
+          dist: 'composite',
+          components: [
+            { weight: 3, generator: { dist: 'uniform', min: 90, max: 120 } },
+            { weight: 1, generator: { dist: 'uniform', min: 5, max: 29 } },
+          ],
+        },
+        1000
+      ) as number[];
+      const low = values.filter((v) => v < 30).length;
+
+      expect(values.every((v) => v < 30 || v >= 90)).toBe(true);
+      expect(low).toBeGreaterThan(180);
+      expect(low).toBeLessThan(320);
+    });
+
+    it('should be deterministic for a seed', () => {
+      const spec: GeneratorSpec = { dist: 'normal', mean: 7, sd: 1.5 };
+
+      expect(sample(spec, 20)).toEqual(sample(spec, 20));
+    });
+  });
+
+  describe('validateGeneratorSpec', () => {
+    it('should accept valid specs', () => {
+      expect(validateGeneratorSpec({ dist: 'uniform', min: 0, max: 1, decimals: 2 })).toEqual([]);
+    });
+
+    it('should report every problem with its path', () => {
+      const issues = validateGeneratorSpec(
+        {
+          dist: 'composite',
+          components: [
+            { weight: -1, generator: { dist: 'normal', mean: 65, sd: -2 } },
+            { generator: { dist: 'uniform', min: 10, max: 5, decimals: 1.5 } },
+            { generator: { dist: 'gaussian' } },
+          ],
+        },
+        'valueGenerators.lab_bld_egfr'
+      );
+
+      expect(issues.map((issue) => issue.path)).toEqual([
+        'valueGenerators.lab_bld_egfr.components[0].weight',
+        'valueGenerators.lab_bld_egfr.components[0].generator.sd',
+        'valueGenerators.lab_bld_egfr.components[1].generator.max',
+        'valueGenerators.lab_bld_egfr.components[1].generator.decimals',
+        'valueGenerators.lab_bld_egfr.components[2].generator.dist',
+      ]);
+    });
+
+    it('should require positive shape parameters', () => {
+      expect(validateGeneratorSpec({ dist: 'gamma', shape: 0, scale: 2 })).toEqual([
+        { path: 'spec.shape', message: 'must be > 0' },
+      ]);
+    });
+
+    it('should check discrete weights against values', () => {
+      const issues = validateGeneratorSpec({ dist: 'discrete', values: [1, 2], weights: [1] });
+
+      expect(issues).toEqual([
+        { path: 'spec.weights', message: 'must have one weight per value (2)' },
+      ]);
+    });
+
+    it('should reject missing fields and non-objects', () => {
+      expect(validateGeneratorSpec({ dist: 'nullable' }).map((i) => i.path)).toEqual([
+        'spec.nullProbability',
+        'spec.of',
+      ]);
+      expect(validateGeneratorSpec(42)).toHaveLength(1);
+    });
+  });
+
+  describe('resolveValueGenerators', () => {
+    it('should keep functions and compile specs', () => {
+      const fn = () => 1;
+
+      const resolved = resolveValueGenerators(
+        { a: fn, b: { dist: 'constant', value: 2 } },
+        'valueGenerators'
+      );
+
+      expect(resolved.a).toBe(fn);
+      expect(resolved.b()).toBe(2);
+      expect(resolveValueGenerator(fn)).toBe(fn);
+    });
+
+    it('should throw a GeneratorSpecError listing every invalid spec', () => {
+      const resolve = () =>
+        resolveValueGenerators(
+          {
+            lab_bld_egfr: { dist: 'normal', mean: 65 } as GeneratorSpec,
+            lab_bld_hba1c: { dist: 'uniform', min: 4 } as GeneratorSpec,
+          },
+          'valueGenerators'
+        );
+
+      expect(resolve).toThrow(GeneratorSpecError);
+      expect(resolve).toThrow(
+        'Invalid generator spec:\n' +
+          '  valueGenerators.lab_bld_egfr.sd: is required\n' +
+          '  valueGenerators.lab_bld_hba1c.max: is required'
+      );
+    });
+  });
+});
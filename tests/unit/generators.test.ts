@@ -9,9 +9,19 @@ import {
   createRangeGenerator,
   createDiscreteGenerator,
   createNullableGenerator,
+  createThresholdGenerator,
+  getBoundaryValues,
 } from '../../src/generators/value-generators';
+import { resolveDemographics } from '../../src/generators/demographics';
+import { resolveTrajectory } from '../../src/generators/trajectory';
+import {
+  ckdEpi2021,
+  resolveCorrelatedPanels,
+  resolveDerivedAttributes,
+} from '../../src/generators/correlation';
+import { resolveMedications, resolveMedicationEvents } from '../../src/generators/medications';
 import { createSeededRandom } from '../../src/utils/random';
-import { ResolvedMockerOptions } from '../../src/models/types';
+import { EadvRow, Patient, ResolvedMockerOptions } from '../../src/models/types';
 
 describe('generators', () => {
   describe('generateEntityIds', () => {
@@ -39,16 +49,35 @@ describe('generators', () => {
       entityCount: 3,
       entityIdStart: 1001,
       observationsPerEntity: 2,
+      observationCounts: {},
       dateRange: {
         start: new Date('2024-01-01'),
         end: new Date('2024-12-31'),
       },
       dateFormat: 'iso',
       dateDistribution: 'uniform',
+      attributeDates: [],
       valueGenerators: {},
       defaultValueGenerator: () => 50,
       includeMockBindTables: true,
+      chainRuleblocks: false,
       bindTableValues: {},
+      targetThresholds: false,
+      thresholdTargetProbability: 0.5,
+      branchCoverage: false,
+      minEntitiesPerBranch: 1,
+      shapeByFetchFunction: true,
+      shapeByFetchFilter: true,
+      vocabularies: [],
+      wildcardExpansionsPerEntity: 1,
+      trajectories: {},
+      derivedAttributes: {},
+      correlatedPanels: [],
+      demographics: null,
+      medications: [],
+      encounterPanels: [],
+      cohorts: [],
+      faults: null,
       seed: 12345,
     };
 
@@ -90,6 +119,497 @@ describe('generators', () => {
       expect(rows.every((row) => row.val === 42)).toBe(true);
     });
 
+    it('should not reshape values from configured generators for fetch functions', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        observationsPerEntity: 5,
+        valueGenerators: { lab_bld_egfr: () => 1 },
+      };
+      const cohort = {
+        name: 'anaemic',
+        valueGenerators: { lab_bld_hb: () => 90 },
+        trajectories: {},
+        bindTableValues: {},
+      };
+      const fetchFunctions = new Map([
+        ['lab_bld_egfr', new Set(['max', 'regr_slope'])],
+        ['lab_bld_hb', new Set(['min'])],
+      ]);
+
+      const rows = generateEadvRows(
+        new Set(['lab_bld_egfr', 'lab_bld_hb']),
+        [1001, 1002],
+        options,
+        createSeededRandom(12345),
+        { fetchFunctions, cohorts: new Map([[1001, cohort]]) }
+      );
+
+      const values = (match: (row: EadvRow) => boolean) =>
+        new Set(rows.filter(match).map((row) => row.val));
+      expect(values((row) => row.att === 'lab_bld_egfr')).toEqual(new Set([1]));
+      expect(values((row) => row.att === 'lab_bld_hb' && row.eid === 1001)).toEqual(
+        new Set([90])
+      );
+      expect(values((row) => row.att === 'lab_bld_hb' && row.eid === 1002).size).toBeGreaterThan(1);
+    });
+
+    it('should pass the generation context to custom generators', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        valueGenerators: {
+          lab_bld_creatinine: (random = Math.random, context) => {
+            context!.scratch.baseline ??= 100 + Math.round(random() * 50);
+            return (context!.scratch.baseline as number) + context!.index;
+          },
+          lab_bld_egfr: (_random, context) => {
+            const creatinine = context!.history.lab_bld_creatinine ?? [];
+            const earlier = context!.history.lab_bld_egfr ?? [];
+            return `${context!.eid}:${context!.att}:${creatinine.length}:${earlier.length}`;
+          },
+        },
+      };
+      const attributes = new Set(['lab_bld_creatinine', 'lab_bld_egfr']);
+      const random = createSeededRandom(12345);
+
+      const rows = generateEadvRows(attributes, [1001, 1002], options, random);
+
+      const creatinine = rows.filter((row) => row.att === 'lab_bld_creatinine');
+      expect(creatinine[1].val).toBe((creatinine[0].val as number) + 1);
+      expect(rows.filter((row) => row.att === 'lab_bld_egfr').map((row) => row.val)).toEqual([
+        '1001:lab_bld_egfr:2:0',
+        '1001:lab_bld_egfr:2:1',
+        '1002:lab_bld_egfr:2:0',
+        '1002:lab_bld_egfr:2:1',
+      ]);
+    });
+
+    it('should give each observation its own date in the context', () => {
+      const seen: string[] = [];
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        valueGenerators: {
+          lab_bld_egfr: (_random, context) => {
+            seen.push(context!.dt!.toISOString().slice(0, 10));
+            return 1;
+          },
+        },
+      };
+
+      const rows = generateEadvRows(
+        new Set(['lab_bld_egfr']),
+        [1001],
+        options,
+        createSeededRandom(12345)
+      );
+
+      expect(seen).toEqual(rows.map((row) => row.dt));
+    });
+
+    it('should draw per-attribute observation counts per entity', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        observationCounts: {
+          lab_bld_egfr: (random) => (random() < 0.5 ? 0 : 4),
+          lab_bld_hba1c: () => 0,
+        },
+      };
+      const entities = [1001, 1002, 1003, 1004, 1005, 1006];
+      const random = createSeededRandom(12345);
+
+      const rows = generateEadvRows(
+        new Set(['lab_bld_egfr', 'lab_bld_hba1c', 'lab_bld_acr']),
+        entities,
+        options,
+        random
+      );
+
+      const egfrCounts = entities.map(
+        (eid) => rows.filter((row) => row.eid === eid && row.att === 'lab_bld_egfr').length
+      );
+      expect(new Set(egfrCounts)).toEqual(new Set([0, 4]));
+      expect(rows.some((row) => row.att === 'lab_bld_hba1c')).toBe(false);
+      expect(rows.filter((row) => row.att === 'lab_bld_acr')).toHaveLength(12);
+    });
+
+    it('should use each attribute\'s own date range and distribution', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        observationsPerEntity: 4,
+        attributeDates: [
+          {
+            pattern: 'lab_bld_%',
+            dateRange: { start: new Date('2020-01-01'), end: new Date('2020-12-31') },
+            dateDistribution: { dist: 'scheduled', intervalDays: 30, jitterDays: 0 },
+          },
+        ],
+      };
+      const random = createSeededRandom(12345);
+
+      const rows = generateEadvRows(
+        new Set(['lab_bld_egfr', 'obs_weight']),
+        [1001],
+        options,
+        random
+      );
+
+      const egfr = rows.filter((row) => row.att === 'lab_bld_egfr').map((row) => row.dt);
+      expect(egfr).toHaveLength(4);
+      expect(egfr.every((dt) => dt.startsWith('2020-'))).toBe(true);
+      expect(
+        rows.filter((row) => row.att === 'obs_weight').every((row) => !row.dt.startsWith('2020-'))
+      ).toBe(true);
+    });
+
+    it('should keep pinned and regr_slope rows an annual schedule has no room for', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        dateDistribution: { dist: 'scheduled', intervalDays: 365 },
+      };
+      const random = createSeededRandom(12345);
+
+      const rows = generateEadvRows(
+        new Set(['lab_bld_egfr', 'lab_bld_acr']),
+        [1001, 1002],
+        options,
+        random,
+        {
+          pins: new Map([[1001, { lab_bld_acr: { count: 2 } }]]),
+          fetchFunctions: new Map([['lab_bld_egfr', new Set(['regr_slope'])]]),
+        }
+      );
+
+      const count = (eid: number, att: string) =>
+        rows.filter((row) => row.eid === eid && row.att === att).length;
+      expect(count(1001, 'lab_bld_acr')).toBe(2);
+      expect(count(1002, 'lab_bld_acr')).toBe(1);
+      expect(count(1001, 'lab_bld_egfr')).toBe(2);
+      expect(count(1002, 'lab_bld_egfr')).toBe(2);
+    });
+
+    it('should target thresholds for wildcards, cohorts and trajectories', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        observationsPerEntity: 20,
+        thresholdTargetProbability: 0.5,
+        trajectories: { lab_bld_hb: resolveTrajectory({ baseline: 130 }, 't') },
+      };
+      const cohort = {
+        name: 'ckd',
+        valueGenerators: { lab_bld_egfr: () => 25 },
+        trajectories: {},
+        bindTableValues: {},
+      };
+      const random = createSeededRandom(12345);
+
+      const rows = generateEadvRows(
+        new Set(['lab_bld_egfr', 'icd_n18%', 'lab_bld_hb']),
+        [1001],
+        options,
+        random,
+        {
+          cohorts: new Map([[1001, cohort]]),
+          thresholds: new Map([
+            ['lab_bld_egfr', [60]],
+            ['icd_n18%', [1]],
+            ['lab_bld_hb', [100]],
+          ]),
+        }
+      );
+
+      const values = (match: (att: string) => boolean) =>
+        new Set(rows.filter((row) => match(row.att)).map((row) => row.val));
+      expect(values((att) => att === 'lab_bld_egfr')).toEqual(new Set([25, 59, 60, 61]));
+      expect(values((att) => att.startsWith('icd_n18'))).toEqual(new Set([50, 0, 1, 2]));
+      expect(values((att) => att === 'lab_bld_hb')).toEqual(new Set([130, 99, 100, 101]));
+    });
+
+    it('should give encounter panel attributes the visits they were ordered at', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        encounterPanels: [
+          {
+            name: 'renal',
+            attributes: ['lab_bld_creatinine', 'lab_bld_egfr', 'lab_bld_urea'],
+            orderProbability: { lab_bld_urea: 0.5 },
+            visits: () => 6,
+            dateRange: defaultOptions.dateRange,
+            dateDistribution: 'uniform',
+          },
+        ],
+      };
+      const random = createSeededRandom(12345);
+
+      const rows = generateEadvRows(
+        new Set(['lab_bld_creatinine', 'lab_bld_egfr', 'lab_bld_urea']),
+        [1001, 1002],
+        options,
+        random
+      );
+
+      for (const eid of [1001, 1002]) {
+        const datesOf = (att: string) =>
+          rows.filter((row) => row.eid === eid && row.att === att).map((row) => row.dt);
+        const visits = datesOf('lab_bld_creatinine');
+        expect(visits).toHaveLength(6);
+        expect(datesOf('lab_bld_egfr')).toEqual(visits);
+        expect(datesOf('lab_bld_urea').every((dt) => visits.includes(dt))).toBe(true);
+      }
+      const urea = rows.filter((row) => row.att === 'lab_bld_urea');
+      expect(urea.length).toBeGreaterThan(0);
+      expect(urea.length).toBeLessThan(12);
+    });
+
+    it('should keep panel dates shared when a member has a where-clause', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        correlatedPanels: resolveCorrelatedPanels(
+          [
+            {
+              attributes: {
+                lab_bld_hba1c: { mean: 7, sd: 1.5 },
+                lab_bld_glucose: { mean: 8, sd: 2.5 },
+              },
+              correlation: [
+                [1, 0.8],
+                [0.8, 1],
+              ],
+            },
+          ],
+          'correlatedPanels'
+        ),
+        encounterPanels: [
+          {
+            name: 'renal',
+            attributes: ['lab_bld_creatinine', 'lab_bld_egfr'],
+            orderProbability: {},
+            visits: () => 4,
+            dateRange: defaultOptions.dateRange,
+            dateDistribution: 'uniform',
+          },
+        ],
+      };
+      const fetchFilters = new Map([
+        ['lab_bld_hba1c', ['dt > sysdate - 90']],
+        ['lab_bld_egfr', ['dt > sysdate - 90']],
+      ]);
+
+      const rows = generateEadvRows(
+        new Set(['lab_bld_hba1c', 'lab_bld_glucose', 'lab_bld_creatinine', 'lab_bld_egfr']),
+        [1001, 1002],
+        options,
+        createSeededRandom(12345),
+        { fetchFilters }
+      );
+
+      for (const eid of [1001, 1002]) {
+        const datesOf = (att: string) =>
+          rows.filter((row) => row.eid === eid && row.att === att).map((row) => row.dt);
+        expect(datesOf('lab_bld_hba1c')).toEqual(datesOf('lab_bld_glucose'));
+        expect(datesOf('lab_bld_egfr')).toEqual(datesOf('lab_bld_creatinine'));
+      }
+    });
+
+    it('should emit demographics and keep observations within the lifespan', () => {
+      const demographics = resolveDemographics(true, 'demographics')!;
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        dateRange: { start: new Date('2020-01-01'), end: new Date('2024-12-31') },
+        observationsPerEntity: 20,
+        demographics,
+      };
+      const patients = new Map<number, Patient>([
+        [1001, { dob: new Date('1950-03-01'), female: true, indigenous: false }],
+        [
+          1002,
+          {
+            dob: new Date('1960-07-01'),
+            female: false,
+            indigenous: true,
+            dod: new Date('2022-06-30'),
+          },
+        ],
+      ]);
+      const random = createSeededRandom(12345);
+
+      const rows = generateEadvRows(
+        new Set(['lab_bld_egfr', 'dmg_dob']),
+        [1001, 1002],
+        options,
+        random,
+        { patients, includeDemographics: true }
+      );
+
+      expect(rows.filter((row) => row.eid === 1001 && row.att.startsWith('dmg_'))).toEqual([
+        { eid: 1001, att: 'dmg_dob', dt: '1950-03-01', val: null },
+        { eid: 1001, att: 'dmg_gender', dt: '1950-03-01', val: 2 },
+        { eid: 1001, att: 'dmg_indigenous', dt: '1950-03-01', val: 0 },
+      ]);
+      expect(rows.filter((row) => row.att === 'dmg_dod')).toEqual([
+        { eid: 1002, att: 'dmg_dod', dt: '2022-06-30', val: null },
+      ]);
+      const egfr = rows.filter((row) => row.eid === 1002 && row.att === 'lab_bld_egfr');
+      expect(egfr).toHaveLength(20);
+      expect(egfr.every((row) => row.dt <= '2022-06-30')).toBe(true);
+    });
+
+    it('should derive eGFR with the patient\'s age and sex', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        dateRange: { start: new Date('2024-01-01'), end: new Date('2024-06-30') },
+        derivedAttributes: resolveDerivedAttributes(
+          { lab_bld_egfr: { formula: 'ckd-epi-2021' } },
+          'derivedAttributes'
+        ),
+        demographics: resolveDemographics(true, 'demographics'),
+      };
+      const patients = new Map<number, Patient>([
+        [1001, { dob: new Date('1943-12-01'), female: true, indigenous: false }],
+      ]);
+
+      const rows = generateEadvRows(
+        new Set(['lab_bld_creatinine', 'lab_bld_egfr']),
+        [1001],
+        options,
+        createSeededRandom(12345),
+        { patients }
+      );
+
+      const creatinine = rows.filter((row) => row.att === 'lab_bld_creatinine');
+      const egfr = rows.filter((row) => row.att === 'lab_bld_egfr');
+      expect(rows.some((row) => row.att.startsWith('dmg_'))).toBe(false);
+      egfr.forEach((row, i) => {
+        expect(row.val).toBe(Math.round(ckdEpi2021(creatinine[i].val as number, 80, true)));
+      });
+    });
+
+    it('should derive sources that are not fetched through their own derivation', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        derivedAttributes: resolveDerivedAttributes(
+          {
+            lab_bld_doubled: {
+              from: ['lab_bld_creatinine'],
+              derive: ({ lab_bld_creatinine }) => (lab_bld_creatinine as number) * 2,
+            },
+            lab_bld_plus_one: {
+              from: ['lab_bld_doubled'],
+              derive: ({ lab_bld_doubled }) => (lab_bld_doubled as number) + 1,
+            },
+          },
+          'derivedAttributes'
+        ),
+      };
+
+      const rows = generateEadvRows(
+        new Set(['lab_bld_plus_one']),
+        [1001],
+        options,
+        createSeededRandom(12345)
+      );
+
+      expect(rows.map((row) => row.att)).toEqual(['lab_bld_plus_one', 'lab_bld_plus_one']);
+      expect(rows.every((row) => row.val === 101)).toBe(true);
+    });
+
+    it('should not shape derived or trajectory values for where-clauses', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        derivedAttributes: resolveDerivedAttributes(
+          {
+            lab_bld_doubled: {
+              from: ['lab_bld_creatinine'],
+              derive: ({ lab_bld_creatinine }) => (lab_bld_creatinine as number) * 2,
+            },
+          },
+          'derivedAttributes'
+        ),
+        trajectories: { lab_bld_hb: resolveTrajectory({ baseline: 130 }, 't') },
+      };
+      const attributes = new Set(['lab_bld_creatinine', 'lab_bld_doubled', 'lab_bld_hb']);
+      const fetchFilters = new Map([
+        ['lab_bld_doubled', ['val < 50', 'dt > sysdate - 90']],
+        ['lab_bld_hb', ['val > 200', 'dt > sysdate - 90']],
+      ]);
+
+      const rows = generateEadvRows(attributes, [1001, 1002], options, createSeededRandom(1), {
+        fetchFilters,
+      });
+      const unfiltered = generateEadvRows(
+        attributes,
+        [1001, 1002],
+        options,
+        createSeededRandom(1)
+      );
+
+      expect(rows).toEqual(unfiltered);
+    });
+
+    it('should let a cohort generator replace a derivation', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        derivedAttributes: resolveDerivedAttributes(
+          { lab_bld_egfr: { formula: 'ckd-epi-2021' } },
+          'derivedAttributes'
+        ),
+      };
+      const cohort = {
+        name: 'ckd_stage_4',
+        valueGenerators: { lab_bld_egfr: () => 20 },
+        trajectories: {},
+        bindTableValues: {},
+      };
+
+      const rows = generateEadvRows(
+        new Set(['lab_bld_creatinine', 'lab_bld_egfr']),
+        [1001, 1002],
+        options,
+        createSeededRandom(12345),
+        { cohorts: new Map([[1001, cohort]]) }
+      );
+
+      const egfr = (eid: number) =>
+        rows.filter((row) => row.eid === eid && row.att === 'lab_bld_egfr').map((row) => row.val);
+      expect(egfr(1001)).toEqual([20, 20]);
+      expect(egfr(1002).every((val) => val !== 20)).toBe(true);
+    });
+
+    it('should write medication episodes for the fetched event attributes', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        medications: resolveMedications(
+          [
+            {
+              name: 'acei',
+              attributes: ['rx_c09aa02', 'rx_c09aa05'],
+              probability: 1,
+              episodes: { min: 1, max: 3 },
+              dose: 10,
+            },
+          ],
+          resolveMedicationEvents({}, 'medicationEvents'),
+          'medications'
+        ),
+      };
+      const random = createSeededRandom(12345);
+
+      const rows = generateEadvRows(
+        new Set(['rx_c09a%', 'lab_bld_egfr']),
+        [1001, 1002, 1003],
+        options,
+        random
+      );
+
+      const starts = rows.filter((row) => /^rx_c09aa0[25]$/.test(row.att));
+      const stops = rows.filter((row) => /^rx_c09aa0[25]_stop$/.test(row.att));
+      expect(new Set(starts.map((row) => row.eid))).toEqual(new Set([1001, 1002, 1003]));
+      expect(starts.every((row) => row.val === 10)).toBe(true);
+      expect(stops.every((row) => row.val === 0)).toBe(true);
+      expect(rows.filter((row) => row.att.startsWith('rx_'))).toHaveLength(
+        starts.length + stops.length
+      );
+      expect(rows.filter((row) => row.att === 'lab_bld_egfr')).toHaveLength(6);
+    });
+
     it('should expand wildcard attributes to concrete names', () => {
       const attributes = new Set(['lab_bld_egfr', 'lab_%']);
       const entities = [1001];
@@ -108,6 +628,28 @@ describe('generators', () => {
       expect(expandedRows[0].att.startsWith('lab_')).toBe(true);
     });
 
+    it('should expand wildcards to vocabulary codes per entity', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        observationsPerEntity: 1,
+        vocabularies: [
+          { name: 'icd10', prefix: 'icd_', codes: ['C18.0', 'C18.2', 'C18.7', 'C19'] },
+        ],
+        wildcardExpansionsPerEntity: 2,
+      };
+      const attributes = new Set(['icd_c18%']);
+      const entities = [1001, 1002, 1003];
+      const random = createSeededRandom(12345);
+
+      const rows = generateEadvRows(attributes, entities, options, random);
+
+      for (const eid of entities) {
+        const atts = rows.filter((row) => row.eid === eid).map((row) => row.att);
+        expect(new Set(atts).size).toBe(2);
+        atts.forEach((att) => expect(['icd_c18_0', 'icd_c18_2', 'icd_c18_7']).toContain(att));
+      }
+    });
+
     it('should generate dates in descending order', () => {
       const attributes = new Set(['lab_bld_egfr']);
       const entities = [1001];
@@ -128,16 +670,35 @@ describe('generators', () => {
       entityCount: 3,
       entityIdStart: 1001,
       observationsPerEntity: 2,
+      observationCounts: {},
       dateRange: {
         start: new Date('2024-01-01'),
         end: new Date('2024-12-31'),
       },
       dateFormat: 'iso',
       dateDistribution: 'uniform',
+      attributeDates: [],
       valueGenerators: {},
       defaultValueGenerator: () => 50,
       includeMockBindTables: true,
+      chainRuleblocks: false,
       bindTableValues: {},
+      targetThresholds: false,
+      thresholdTargetProbability: 0.5,
+      branchCoverage: false,
+      minEntitiesPerBranch: 1,
+      shapeByFetchFunction: true,
+      shapeByFetchFilter: true,
+      vocabularies: [],
+      wildcardExpansionsPerEntity: 1,
+      trajectories: {},
+      derivedAttributes: {},
+      correlatedPanels: [],
+      demographics: null,
+      medications: [],
+      encounterPanels: [],
+      cohorts: [],
+      faults: null,
       seed: 12345,
     };
 
@@ -181,6 +742,55 @@ describe('generators', () => {
       expect(result['rout_ckd'][0].ckd).toBe(99);
     });
 
+    it('should pass the entity and earlier variables to bind generators', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        bindTableValues: {
+          rout_ckd: {
+            ckd: (_random, context) => context!.eid,
+            stage: (_random, context) => Number(context!.history.ckd[0].val) + 1,
+          },
+        },
+      };
+      const bindDeps = new Map([['rout_ckd', new Set(['ckd', 'stage'])]]);
+
+      const result = generateRoutTables(bindDeps, [1001], options, createSeededRandom(12345));
+
+      expect(result['rout_ckd'][0]).toEqual({ eid: 1001, ckd: 1001, stage: 1002 });
+    });
+
+    it('should draw values from inferred domains', () => {
+      const bindDeps = new Map([['rout_ckd', new Set(['ckd_stage'])]]);
+      const domains = new Map([['rout_ckd', new Map([['ckd_stage', [1, 2, 3, 4, 5]]])]]);
+      const entities = [1001, 1002, 1003, 1004, 1005];
+      const random = createSeededRandom(12345);
+
+      const result = generateRoutTables(
+        bindDeps,
+        entities,
+        defaultOptions,
+        random,
+        undefined,
+        domains
+      );
+
+      result['rout_ckd'].forEach((row) => expect([1, 2, 3, 4, 5]).toContain(row.ckd_stage));
+    });
+
+    it('should prefer bindTableValues over inferred domains', () => {
+      const options: ResolvedMockerOptions = {
+        ...defaultOptions,
+        bindTableValues: { rout_ckd: { ckd_stage: () => 99 } },
+      };
+      const bindDeps = new Map([['rout_ckd', new Set(['ckd_stage'])]]);
+      const domains = new Map([['rout_ckd', new Map([['ckd_stage', [1, 2]]])]]);
+      const random = createSeededRandom(12345);
+
+      const result = generateRoutTables(bindDeps, [1001], options, random, undefined, domains);
+
+      expect(result['rout_ckd'][0].ckd_stage).toBe(99);
+    });
+
     it('should handle multiple tables', () => {
       const bindDeps = new Map([
         ['rout_ckd', new Set(['ckd'])],
@@ -287,5 +897,38 @@ describe('generators', () => {
         }
       });
     });
+
+    describe('getBoundaryValues', () => {
+      it('should step by one for integer thresholds', () => {
+        expect(getBoundaryValues(60)).toEqual([59, 60, 61]);
+      });
+
+      it('should step by the threshold precision for decimals', () => {
+        expect(getBoundaryValues(6.5)).toEqual([6.4, 6.5, 6.6]);
+      });
+    });
+
+    describe('createThresholdGenerator', () => {
+      it('should produce boundary values and base values', () => {
+        const gen = createThresholdGenerator([60], () => 100, 0.5);
+        const random = createSeededRandom(12345);
+
+        const results = new Set();
+        for (let i = 0; i < 200; i++) {
+          results.add(gen(random));
+        }
+
+        expect(results).toEqual(new Set([59, 60, 61, 100]));
+      });
+
+      it('should always use the base generator when probability is 0', () => {
+        const gen = createThresholdGenerator([60], () => 100, 0);
+        const random = createSeededRandom(12345);
+
+        for (let i = 0; i < 50; i++) {
+          expect(gen(random)).toBe(100);
+        }
+      });
+    });
   });
 });
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDependencyGraph,
+  dependencyGraphToJson,
+  dependencyGraphToDot,
+} from '../../src/graph';
+import { RuleType, ParsedRuleblock } from 'picorules-compiler-js-core';
+
+describe('graph', () => {
+  const ckd: ParsedRuleblock = {
+    name: 'ckd',
+    text: '',
+    isActive: true,
+    rules: [
+      {
+        ruleType: RuleType.FETCH_STATEMENT,
+        assignedVariable: 'egfr_last',
+        table: 'eadv',
+        attributeList: ['lab_bld_egfr'],
+        property: 'val',
+        functionName: 'last',
+        references: [],
+      },
+      {
+        ruleType: RuleType.COMPUTE_STATEMENT,
+        assignedVariable: 'has_ckd',
+        conditions: [{ predicate: 'egfr_last < 60', returnValue: '1' }, { returnValue: '0' }],
+        references: ['egfr_last'],
+      },
+    ],
+  };
+
+  const monitoring: ParsedRuleblock = {
+    name: 'monitoring',
+    text: '',
+    isActive: true,
+    rules: [
+      {
+        ruleType: RuleType.BIND_STATEMENT,
+        assignedVariable: 'ckd',
+        sourceRuleblock: 'ckd',
+        sourceVariable: 'has_ckd',
+        property: 'val',
+      },
+      {
+        ruleType: RuleType.BIND_STATEMENT,
+        assignedVariable: 'dm',
+        sourceRuleblock: 'dm',
+        sourceVariable: 'has_dm',
+        property: 'val',
+      },
+      {
+        ruleType: RuleType.COMPUTE_STATEMENT,
+        assignedVariable: 'review',
+        conditions: [{ predicate: 'ckd = 1 and hba1c > 8', returnValue: '1' }],
+        references: ['ckd', 'hba1c'],
+      },
+    ],
+  };
+
+  const bindOnly = (name: string, source: string): ParsedRuleblock => ({
+    name,
+    text: '',
+    isActive: true,
+    rules: [
+      {
+        ruleType: RuleType.BIND_STATEMENT,
+        assignedVariable: 'x',
+        sourceRuleblock: source,
+        sourceVariable: 'x',
+        property: 'val',
+      },
+    ],
+  });
+
+  describe('buildDependencyGraph', () => {
+    it('should link ruleblocks to fetched attributes and bound variables', () => {
+      const graph = buildDependencyGraph([ckd, monitoring]);
+
+      expect(graph.edges).toContainEqual({
+        from: 'ruleblock:ckd',
+        to: 'attribute:lab_bld_egfr',
+        kind: 'fetches',
+      });
+      expect(graph.edges).toContainEqual({
+        from: 'ruleblock:monitoring',
+        to: 'rout:rout_ckd.has_ckd',
+        kind: 'binds',
+      });
+      expect(graph.edges).toContainEqual({
+        from: 'variable:ckd.has_ckd',
+        to: 'rout:rout_ckd.has_ckd',
+        kind: 'produces',
+      });
+    });
+
+    it('should link variables to the variables they reference', () => {
+      const graph = buildDependencyGraph([ckd]);
+
+      expect(graph.edges).toContainEqual({
+        from: 'variable:ckd.has_ckd',
+        to: 'variable:ckd.egfr_last',
+        kind: 'references',
+      });
+    });
+
+    it('should flag binds to ruleblocks outside the batch', () => {
+      const graph = buildDependencyGraph([ckd, monitoring]);
+
+      expect(graph.missingBindSources).toEqual([
+        { ruleblock: 'monitoring', table: 'rout_dm', variable: 'has_dm' },
+      ]);
+    });
+
+    it('should flag referenced but undefined variables', () => {
+      const graph = buildDependencyGraph([ckd, monitoring]);
+
+      expect(graph.undefinedVariables).toEqual([
+        { ruleblock: 'monitoring', variable: 'hba1c', referencedBy: 'review' },
+      ]);
+    });
+
+    it('should flag cycles between ruleblocks', () => {
+      const graph = buildDependencyGraph([bindOnly('a', 'b'), bindOnly('b', 'a'), ckd]);
+
+      expect(graph.cycles).toEqual([['a', 'b']]);
+    });
+
+    it('should report no cycles for an acyclic batch', () => {
+      expect(buildDependencyGraph([ckd, monitoring]).cycles).toEqual([]);
+    });
+  });
+
+  describe('export', () => {
+    it('should export JSON that round-trips', () => {
+      const graph = buildDependencyGraph([ckd, monitoring]);
+
+      expect(JSON.parse(dependencyGraphToJson(graph))).toEqual(graph);
+    });
+
+    it('should export DOT with flagged nodes in red', () => {
+      const dot = dependencyGraphToDot(buildDependencyGraph([ckd, monitoring]));
+
+      expect(dot.startsWith('digraph dependencies {')).toBe(true);
+      expect(dot).toContain('"ruleblock:ckd" -> "attribute:lab_bld_egfr" [label="fetches"];');
+      expect(dot).toContain(
+        '"rout:rout_dm.has_dm" [label="rout_dm.has_dm", shape=cylinder, color=red, fontcolor=red];'
+      );
+    });
+  });
+});
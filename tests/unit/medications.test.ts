@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveMedications,
+  resolveMedicationEvents,
+  generateMedicationEpisodes,
+  medicationEventAttributes,
+  medicationObservations,
+} from '../../src/generators/medications';
+import { GeneratorSpecError } from '../../src/generators/generator-spec';
+import { createSeededRandom } from '../../src/utils/random';
+
+describe('medications', () => {
+  const events = resolveMedicationEvents({}, 'medicationEvents');
+  const range = { start: new Date('2020-01-01'), end: new Date('2024-12-31') };
+  const DAY = 24 * 60 * 60 * 1000;
+
+  describe('resolveMedicationEvents', () => {
+    it('should apply the defaults', () => {
+      expect(events).toEqual({
+        start: '{att}',
+        stop: '{att}_stop',
+        refill: '{att}',
+        stopValue: 0,
+      });
+      expect(resolveMedicationEvents({ start: '{att}_start' }, 'e').refill).toBe('{att}_start');
+    });
+
+    it('should require the drug placeholder', () => {
+      expect(() => resolveMedicationEvents({ stop: 'rx_stop' }, 'medicationEvents')).toThrow(
+        "medicationEvents.stop: must contain '{att}'"
+      );
+    });
+  });
+
+  describe('resolveMedications', () => {
+    it('should report every problem with its path', () => {
+      try {
+        resolveMedications(
+          [
+            {
+              name: 'acei',
+              attributes: ['rx_c09aa02'],
+              probability: 1.5,
+              durationDays: { min: 90, max: 30 },
+              refillIntervalDays: 0,
+            },
+            {
+              name: 'arb',
+              attributes: ['rx_c09aa02'],
+              dose: { dist: 'uniform', min: 5 } as never,
+            },
+          ],
+          events,
+          'medications'
+        );
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(GeneratorSpecError);
+        expect((error as GeneratorSpecError).issues.map((i) => i.path)).toEqual([
+          'medications[0].probability',
+          'medications[0].refillIntervalDays',
+          'medications[0].durationDays.max',
+          'medications[1].attributes[0]',
+          'medications[1].dose.max',
+        ]);
+      }
+    });
+  });
+
+  describe('generateMedicationEpisodes', () => {
+    it('should draw nothing for entities not on the therapy', () => {
+      const [medication] = resolveMedications(
+        [{ name: 'acei', attributes: ['rx_c09aa02'], probability: 0 }],
+        events,
+        'medications'
+      );
+
+      expect(generateMedicationEpisodes(medication, range, createSeededRandom(1))).toEqual([]);
+    });
+
+    it('should draw ordered episodes with refills inside each episode', () => {
+      const [medication] = resolveMedications(
+        [
+          {
+            name: 'acei',
+            attributes: ['rx_c09aa02', 'rx_c09aa05'],
+            probability: 1,
+            episodes: 5,
+            durationDays: { min: 60, max: 200 },
+            gapDays: 30,
+            dose: { dist: 'discrete', values: [5, 10, 20] },
+            refillIntervalDays: 28,
+          },
+        ],
+        events,
+        'medications'
+      );
+      const random = createSeededRandom(12345);
+
+      for (let entity = 0; entity < 20; entity++) {
+        const episodes = generateMedicationEpisodes(medication, range, random);
+
+        expect(episodes.length).toBeGreaterThan(0);
+        expect(episodes.length).toBeLessThanOrEqual(5);
+        episodes.forEach((episode, i) => {
+          const stop = episode.stop?.getTime() ?? range.end.getTime();
+          expect(medication.attributes).toContain(episode.att);
+          expect([5, 10, 20]).toContain(episode.dose);
+          expect(episode.start.getTime()).toBeLessThanOrEqual(range.end.getTime());
+          expect(episode.refills.every((dt) => dt.getTime() < stop)).toBe(true);
+          if (i > 0) {
+            expect(episode.start.getTime()).toBeGreaterThanOrEqual(
+              episodes[i - 1].stop!.getTime()
+            );
+          }
+        });
+        // Only the last episode can still be running
+        expect(episodes.slice(0, -1).every((episode) => episode.stop)).toBe(true);
+      }
+    });
+
+    it('should switch drug shortly after the stop', () => {
+      const [medication] = resolveMedications(
+        [
+          {
+            name: 'acei',
+            attributes: ['rx_c09aa02', 'rx_c09aa05'],
+            probability: 1,
+            episodes: 2,
+            durationDays: 10,
+            switchProbability: 1,
+          },
+        ],
+        events,
+        'medications'
+      );
+
+      const [first, second] = generateMedicationEpisodes(
+        medication,
+        range,
+        createSeededRandom(12345)
+      );
+
+      expect(second.att).not.toBe(first.att);
+      expect(second.start.getTime() - first.stop!.getTime()).toBeLessThanOrEqual(14 * DAY);
+    });
+  });
+
+  describe('medicationObservations', () => {
+    it('should write the events with the configured names', () => {
+      const [medication] = resolveMedications(
+        [{ name: 'sglt2i', attributes: ['rx_a10bk01'] }],
+        resolveMedicationEvents({ start: '{att}_start', stopValue: null }, 'e'),
+        'medications'
+      );
+      const episodes = [
+        {
+          att: 'rx_a10bk01',
+          start: new Date('2024-01-01'),
+          stop: new Date('2024-03-01'),
+          dose: 10,
+          refills: [new Date('2024-02-01')],
+        },
+        { att: 'rx_a10bk01', start: new Date('2024-06-01'), dose: 10, refills: [] },
+      ];
+
+      expect(medicationEventAttributes(medication)).toEqual([
+        'rx_a10bk01_start',
+        'rx_a10bk01_stop',
+      ]);
+      expect(medicationObservations(medication, episodes)).toEqual([
+        { att: 'rx_a10bk01_start', dt: new Date('2024-01-01'), val: 10 },
+        { att: 'rx_a10bk01_start', dt: new Date('2024-02-01'), val: 10 },
+        { att: 'rx_a10bk01_stop', dt: new Date('2024-03-01'), val: null },
+        { att: 'rx_a10bk01_start', dt: new Date('2024-06-01'), val: 10 },
+      ]);
+    });
+  });
+});
@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { generateMockData, generateMockDataFromParsed } from '../../src/mocker';
+import {
+  generateMockData,
+  generateMockDataFromParsed,
+  streamMockData,
+} from '../../src/mocker';
+import { ckdEpi2021 } from '../../src/generators/correlation';
 import { RuleType, ParsedRuleblock } from 'picorules-compiler-js-core';
 
 describe('mocker', () => {
@@ -59,6 +64,50 @@ describe('mocker', () => {
       expect(result.eadv.every((row) => row.val === 42)).toBe(true);
     });
 
+    it('should compile generator specs', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'test',
+            text: 'x => eadv.lab_bld_egfr.val.last();',
+            isActive: true,
+          },
+        ],
+        options: {
+          entityCount: 2,
+          valueGenerators: {
+            lab_bld_egfr: { dist: 'normal', mean: 65, sd: 20, min: 5, max: 130, decimals: 0 },
+          },
+          seed: 12345,
+        },
+      });
+
+      const values = result.eadv.map((row) => row.val as number);
+      expect(values.every((v) => Number.isInteger(v) && v >= 5 && v <= 130)).toBe(true);
+    });
+
+    it('should reject invalid generator specs with their path', () => {
+      const generate = () =>
+        generateMockData({
+          ruleblocks: [
+            {
+              name: 'test',
+              text: 'x => eadv.lab_bld_egfr.val.last();',
+              isActive: true,
+            },
+          ],
+          options: {
+            bindTableValues: {
+              rout_ckd: { ckd_stage: { dist: 'discrete', values: [] } },
+            },
+          },
+        });
+
+      expect(generate).toThrow(
+        'bindTableValues.rout_ckd.ckd_stage.values: must be a non-empty array'
+      );
+    });
+
     it('should generate reproducible data with seed', () => {
       const options = {
         entityCount: 3,
@@ -214,6 +263,758 @@ describe('mocker', () => {
     });
   });
 
+  describe('threshold targeting', () => {
+    it('should report thresholds in metadata', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'ckd',
+            text: `
+              egfr_last => eadv.lab_bld_egfr.val.last();
+              has_ckd : {egfr_last < 60 => 1}, {=> 0};
+            `,
+            isActive: true,
+          },
+        ],
+        options: { seed: 12345 },
+      });
+
+      expect(result.metadata.thresholds).toEqual({ lab_bld_egfr: [60] });
+    });
+
+    it('should generate boundary values when enabled', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'ckd',
+            text: `
+              egfr_last => eadv.lab_bld_egfr.val.last();
+              has_ckd : {egfr_last < 60 => 1}, {=> 0};
+            `,
+            isActive: true,
+          },
+        ],
+        options: {
+          entityCount: 20,
+          seed: 12345,
+          targetThresholds: true,
+          valueGenerators: { lab_bld_egfr: () => 100 },
+        },
+      });
+
+      const values = new Set(result.eadv.map((row) => row.val));
+      expect(values).toContain(59);
+      expect(values).toContain(60);
+      expect(values).toContain(61);
+      expect(values).toContain(100);
+    });
+
+    it('should give each boundary value to an entity, even in a cohort', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'ckd',
+            text: `
+              egfr_last => eadv.lab_bld_egfr.val.last();
+              has_ckd : {egfr_last < 60 => 1}, {=> 0};
+            `,
+            isActive: true,
+          },
+        ],
+        options: {
+          entityCount: 1,
+          seed: 12345,
+          targetThresholds: true,
+          thresholdTargetProbability: 0,
+          cohorts: [
+            {
+              name: 'healthy',
+              proportion: 1,
+              valueGenerators: { lab_bld_egfr: { dist: 'constant', value: 100 } },
+            },
+          ],
+        },
+      });
+
+      expect(result.metadata.entities).toHaveLength(3);
+      const last = result.metadata.entities.map(
+        (eid) => result.eadv.find((row) => row.eid === eid)?.val
+      );
+      expect(last).toEqual([59, 60, 61]);
+    });
+  });
+
+  describe('branch coverage', () => {
+    const ruleblocks = [
+      {
+        name: 'ckd',
+        text: `
+          egfr_last => eadv.lab_bld_egfr.val.last();
+          ckd_stage : {egfr_last < 15 => 5}, {egfr_last < 30 => 4}, {egfr_last < 60 => 3}, {=> 0};
+        `,
+        isActive: true,
+      },
+    ];
+
+    it('should cover every branch including the default', () => {
+      const result = generateMockData({
+        ruleblocks,
+        options: { entityCount: 1, seed: 12345, branchCoverage: true },
+      });
+
+      const coverage = result.metadata.branchCoverage!;
+      const branches = coverage.ruleblocks.ckd.ckd_stage;
+      expect(branches.length).toBe(4);
+      expect(branches.every((b) => b.entities.length >= 1)).toBe(true);
+      expect(coverage.unsatisfied).toEqual([]);
+      expect(result.metadata.entities.length).toBeGreaterThanOrEqual(4);
+    });
+
+    it('should cover each branch for at least minEntitiesPerBranch entities', () => {
+      const result = generateMockData({
+        ruleblocks,
+        options: { seed: 12345, branchCoverage: true, minEntitiesPerBranch: 3 },
+      });
+
+      const branches = result.metadata.branchCoverage!.ruleblocks.ckd.ckd_stage;
+      expect(branches.every((b) => b.entities.length >= 3)).toBe(true);
+    });
+
+    it('should report branches it cannot satisfy', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'odd',
+            text: `
+              egfr_last => eadv.lab_bld_egfr.val.last();
+              flag : {egfr_last < 60 => 1}, {egfr_last < 50 => 2}, {=> 0};
+            `,
+            isActive: true,
+          },
+        ],
+        options: { seed: 12345, branchCoverage: true },
+      });
+
+      expect(result.metadata.branchCoverage!.unsatisfied).toEqual([
+        { ruleblock: 'odd', variable: 'flag', branch: 1, predicate: 'egfr_last < 50' },
+      ]);
+    });
+
+    it('should not report coverage when disabled', () => {
+      const result = generateMockData({ ruleblocks, options: { seed: 12345 } });
+
+      expect(result.metadata.branchCoverage).toBeUndefined();
+    });
+  });
+
+  describe('fetch function shaping', () => {
+    it('should vary row counts across entities for count()', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'test',
+            text: 'n => eadv.lab_bld_egfr.val.count();',
+            isActive: true,
+          },
+        ],
+        options: { entityCount: 20, seed: 12345 },
+      });
+
+      const counts = new Set(
+        result.metadata.entities.map(
+          (eid) => result.eadv.filter((row) => row.eid === eid).length
+        )
+      );
+      expect(counts.size).toBeGreaterThan(1);
+    });
+
+    it('should keep fixed counts when shaping is disabled', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'test',
+            text: 'n => eadv.lab_bld_egfr.val.count();',
+            isActive: true,
+          },
+        ],
+        options: { entityCount: 5, seed: 12345, shapeByFetchFunction: false },
+      });
+
+      expect(result.eadv.length).toBe(15);
+    });
+  });
+
+  describe('fetch filters', () => {
+    it('should report rows on both sides of a where-clause', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'test',
+            text: 'egfr => eadv.lab_bld_egfr.val.last().where(dt > sysdate - 90);',
+            isActive: true,
+          },
+        ],
+        options: {
+          entityCount: 4,
+          seed: 12345,
+          dateRange: { start: '2024-01-01', end: '2024-12-31' },
+        },
+      });
+
+      const expectations = result.metadata.filterExpectations!;
+      expect(expectations.length).toBe(result.eadv.length);
+      expect(expectations.some((e) => e.passes)).toBe(true);
+      expect(expectations.some((e) => !e.passes)).toBe(true);
+    });
+
+    it('should omit filter expectations without where-clauses', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'test',
+            text: 'egfr => eadv.lab_bld_egfr.val.last();',
+            isActive: true,
+          },
+        ],
+        options: { seed: 12345 },
+      });
+
+      expect(result.metadata.filterExpectations).toBeUndefined();
+    });
+  });
+
+  describe('chained ruleblocks', () => {
+    const ruleblocks = [
+      {
+        name: 'monitoring',
+        text: `
+          ckd => rout_ckd.has_ckd.val.bind();
+          dm => rout_dm.has_dm.val.bind();
+          needs_review : {ckd = 1 and dm = 1 => 1}, {=> 0};
+        `,
+        isActive: true,
+      },
+      {
+        name: 'ckd',
+        text: `
+          egfr_last => eadv.lab_bld_egfr.val.last();
+          has_ckd : {egfr_last < 60 => 1}, {=> 0};
+        `,
+        isActive: true,
+      },
+    ];
+
+    it('should derive in-batch rout tables from the generated rows', () => {
+      const result = generateMockData({
+        ruleblocks,
+        options: { entityCount: 10, seed: 12345, chainRuleblocks: true },
+      });
+
+      for (const row of result.routTables['rout_ckd']) {
+        const last = result.eadv
+          .filter((r) => r.eid === row.eid && r.att === 'lab_bld_egfr')
+          .sort((a, b) => b.dt.localeCompare(a.dt))[0];
+        expect(row.has_ckd).toBe((last.val as number) < 60 ? 1 : 0);
+      }
+      expect(result.metadata.derivedRoutTables).toEqual(['rout_ckd']);
+    });
+
+    it('should still mock rout tables of out-of-batch ruleblocks', () => {
+      const result = generateMockData({
+        ruleblocks,
+        options: { entityCount: 10, seed: 12345, chainRuleblocks: true },
+      });
+
+      expect(result.routTables['rout_dm'].length).toBe(10);
+    });
+
+    it('should throw when binds form a cycle', () => {
+      expect(() =>
+        generateMockData({
+          ruleblocks: [
+            { name: 'a', text: 'x => rout_b.y.val.bind();', isActive: true },
+            { name: 'b', text: 'y => rout_a.x.val.bind();', isActive: true },
+          ],
+          options: { chainRuleblocks: true },
+        })
+      ).toThrow(/cycle/);
+    });
+  });
+
+  describe('streaming', () => {
+    const ruleblocks = [
+      {
+        name: 'ckd',
+        text: `
+          egfr_last => eadv.lab_bld_egfr.val.last();
+          egfr_n => eadv.lab_bld_egfr.val.count();
+          ckd_dx => eadv_ext.icd_n18.dt.min();
+          dm => rout_dm.has_dm.val.bind();
+          has_ckd : {egfr_last < 60 => 1}, {=> 0};
+        `,
+        isActive: true,
+      },
+    ];
+
+    const collect = (options: Record<string, unknown>) => {
+      const tables: Record<string, unknown[]> = {};
+      for (const chunk of streamMockData({ ruleblocks, options })) {
+        (tables[chunk.table] ??= []).push(...chunk.rows);
+      }
+      return tables;
+    };
+
+    it('should yield the same rows as generateMockData for the same seed', () => {
+      const options = { entityCount: 20, seed: 4242 };
+      const result = generateMockData({ ruleblocks, options });
+
+      expect(collect(options)).toEqual({ ...result.tables, ...result.routTables });
+    });
+
+    it('should match with branch coverage and threshold targeting', () => {
+      const options = { entityCount: 5, seed: 99, branchCoverage: true, targetThresholds: true };
+      const result = generateMockData({ ruleblocks, options });
+
+      expect(collect(options)).toEqual({ ...result.tables, ...result.routTables });
+    });
+
+    it('should inject the same faults as generateMockData', () => {
+      const options = {
+        entityCount: 10,
+        seed: 7,
+        faults: { duplicates: 0.2, nulls: 0.1, futureDates: 0.1, missingRoutRows: 0.3 },
+      };
+      const result = generateMockData({ ruleblocks, options });
+      const chunks = Array.from(streamMockData({ ruleblocks, options }));
+
+      expect(collect(options)).toEqual({ ...result.tables, ...result.routTables });
+      expect(chunks.flatMap((chunk) => chunk.faults ?? [])).toEqual(result.metadata.faults);
+    });
+
+    it('should yield one entity per chunk', () => {
+      const chunks = Array.from(streamMockData({ ruleblocks, options: { entityCount: 3 } }));
+      const eadvChunks = chunks.filter((chunk) => chunk.table === 'eadv');
+
+      expect(eadvChunks.map((chunk) => chunk.eid)).toEqual([1001, 1002, 1003]);
+      eadvChunks.forEach((chunk) =>
+        chunk.rows.forEach((row) => expect(row.eid).toBe(chunk.eid))
+      );
+    });
+
+    it('should reject chain mode', () => {
+      expect(() =>
+        Array.from(streamMockData({ ruleblocks, options: { chainRuleblocks: true } }))
+      ).toThrow(/not supported/);
+    });
+  });
+
+  describe('source tables', () => {
+    it('should generate rows separately for each fetched table', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'ckd',
+            text: `
+              egfr_last => eadv.lab_bld_egfr.val.last();
+              ckd_dx => eadv_ext.icd_n18.dt.min();
+            `,
+            isActive: true,
+          },
+        ],
+        options: { entityCount: 3, seed: 12345 },
+      });
+
+      expect(Object.keys(result.tables).sort()).toEqual(['eadv', 'eadv_ext']);
+      expect(result.eadv).toBe(result.tables.eadv);
+      expect(result.tables.eadv.every((row) => row.att === 'lab_bld_egfr')).toBe(true);
+      expect(result.tables.eadv_ext.every((row) => row.att === 'icd_n18')).toBe(true);
+      expect(result.metadata.totalRows).toBe(
+        result.tables.eadv.length + result.tables.eadv_ext.length
+      );
+      expect(result.metadata.tables.eadv_ext.attributes).toEqual(['icd_n18']);
+      expect(result.metadata.tables.eadv_ext.rowCount).toBe(result.tables.eadv_ext.length);
+    });
+  });
+
+  describe('trajectories', () => {
+    it('should generate each entity along its trajectory', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'ckd',
+            text: 'egfr_slope => eadv.lab_bld_egfr.val.regr_slope();',
+            isActive: true,
+          },
+        ],
+        options: {
+          entityCount: 4,
+          observationsPerEntity: 6,
+          dateRange: { start: '2023-01-01', end: '2024-12-31' },
+          trajectories: {
+            lab_bld_egfr: { baseline: 70, slope: -8, decimals: 1 },
+          },
+          seed: 12345,
+        },
+      });
+
+      for (const eid of result.metadata.entities) {
+        const rows = result.eadv
+          .filter((row) => row.eid === eid)
+          .sort((a, b) => a.dt.localeCompare(b.dt));
+        for (let i = 1; i < rows.length; i++) {
+          expect(rows[i].val as number).toBeLessThanOrEqual(rows[i - 1].val as number);
+        }
+      }
+    });
+  });
+
+  describe('correlated attributes', () => {
+    it('should derive eGFR from creatinine on the same dates', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'ckd',
+            text: `
+              egfr_last => eadv.lab_bld_egfr.val.last();
+              cr_last => eadv.lab_bld_creatinine.val.last();
+            `,
+            isActive: true,
+          },
+        ],
+        options: {
+          entityCount: 5,
+          valueGenerators: {
+            lab_bld_creatinine: { dist: 'uniform', min: 60, max: 600 },
+          },
+          derivedAttributes: {
+            lab_bld_egfr: { formula: 'ckd-epi-2021', age: 60, femaleProbability: 0 },
+          },
+          seed: 12345,
+        },
+      });
+
+      const key = (row: { eid: number; dt: string }) => `${row.eid}|${row.dt}`;
+      const creatinine = new Map(
+        result.eadv.filter((r) => r.att === 'lab_bld_creatinine').map((r) => [key(r), r.val])
+      );
+      const egfr = result.eadv.filter((row) => row.att === 'lab_bld_egfr');
+
+      expect(egfr.length).toBeGreaterThan(0);
+      for (const row of egfr) {
+        const scr = creatinine.get(key(row)) as number;
+        expect(row.val).toBe(Math.round(ckdEpi2021(scr, 60, false)));
+      }
+    });
+
+    it('should reject an invalid correlation matrix', () => {
+      expect(() =>
+        generateMockData({
+          ruleblocks: [{ name: 'a', text: 'x => eadv.lab_bld_hba1c.val.last();', isActive: true }],
+          options: {
+            correlatedPanels: [
+              {
+                attributes: {
+                  lab_bld_hba1c: { mean: 7, sd: 1 },
+                  lab_bld_glucose: { mean: 8, sd: 2 },
+                },
+                correlation: [
+                  [1, 2],
+                  [2, 1],
+                ],
+              },
+            ],
+          },
+        })
+      ).toThrow('correlatedPanels[0].correlation[0][1]: must be between -1 and 1');
+    });
+  });
+
+  describe('encounters', () => {
+    it('should give panel attributes the same dates', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'renal',
+            text: `
+              scr => eadv.lab_bld_creatinine.val.last();
+              egfr => eadv.lab_bld_egfr.val.last();
+            `,
+            isActive: true,
+          },
+        ],
+        options: {
+          entityCount: 5,
+          encounterPanels: [
+            { name: 'renal', attributes: ['lab_bld_creatinine', 'lab_bld_egfr'], visits: 4 },
+          ],
+          seed: 12345,
+        },
+      });
+
+      const datesOf = (att: string) =>
+        result.eadv.filter((row) => row.att === att).map((row) => `${row.eid}|${row.dt}`);
+      expect(datesOf('lab_bld_creatinine')).toHaveLength(20);
+      expect(datesOf('lab_bld_egfr')).toEqual(datesOf('lab_bld_creatinine'));
+    });
+
+    it('should reject an attribute in two panels', () => {
+      expect(() =>
+        generateMockData({
+          ruleblocks: [{ name: 'a', text: 'x => eadv.lab_bld_egfr.val.last();', isActive: true }],
+          options: {
+            encounterPanels: [
+              { name: 'renal', attributes: ['lab_bld_egfr'] },
+              { name: 'diabetes', attributes: ['lab_bld_egfr'] },
+            ],
+          },
+        })
+      ).toThrow("encounterPanels[1].attributes[0]: 'lab_bld_egfr' is in another panel");
+    });
+  });
+
+  describe('demographics', () => {
+    it('should give each entity one patient and keep rows within the lifespan', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'ckd',
+            text: `
+              dob => eadv.dmg_dob.dt.max();
+              egfr_last => eadv.lab_bld_egfr.val.last();
+            `,
+            isActive: true,
+          },
+        ],
+        options: {
+          entityCount: 20,
+          observationsPerEntity: 10,
+          dateRange: { start: '2020-01-01', end: '2024-12-31' },
+          demographics: { deathProbability: 0.5, minimumAge: 18 },
+          seed: 12345,
+        },
+      });
+
+      const dob = new Map(
+        result.eadv.filter((row) => row.att === 'dmg_dob').map((row) => [row.eid, row.dt])
+      );
+      const dod = new Map(
+        result.eadv.filter((row) => row.att === 'dmg_dod').map((row) => [row.eid, row.dt])
+      );
+      expect(dob.size).toBe(20);
+      expect(dod.size).toBeGreaterThan(0);
+      expect(result.eadv.filter((row) => row.att === 'dmg_gender')).toHaveLength(20);
+      for (const row of result.eadv.filter((r) => r.att === 'lab_bld_egfr')) {
+        expect(row.dt > dob.get(row.eid)!).toBe(true);
+        expect(row.dt <= (dod.get(row.eid) ?? '2024-12-31')).toBe(true);
+      }
+    });
+
+    it('should reject an invalid probability', () => {
+      expect(() =>
+        generateMockData({
+          ruleblocks: [{ name: 'a', text: 'x => eadv.lab_bld_egfr.val.last();', isActive: true }],
+          options: { demographics: { deathProbability: 1.5 } },
+        })
+      ).toThrow('demographics.deathProbability: must be between 0 and 1');
+    });
+  });
+
+  describe('medications', () => {
+    it('should write start and stop events of each episode', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'acei',
+            text: `
+              acei_start => eadv.[rx_c09a%].dt.max();
+              acei_stop => eadv.[rx_c09a%_stop].dt.max();
+            `,
+            isActive: true,
+          },
+        ],
+        options: {
+          entityCount: 10,
+          medications: [
+            {
+              name: 'acei',
+              attributes: ['rx_c09aa02', 'rx_c09aa05'],
+              probability: 1,
+              durationDays: { min: 30, max: 90 },
+              refillIntervalDays: 28,
+            },
+          ],
+          medicationEvents: { start: '{att}_start', stop: '{att}_stop' },
+          dateRange: { start: '2020-01-01', end: '2024-12-31' },
+          seed: 12345,
+        },
+      });
+
+      const starts = result.eadv.filter((row) => row.att.endsWith('_start'));
+      const stops = result.eadv.filter((row) => row.att.endsWith('_stop'));
+      expect(new Set(starts.map((row) => row.eid)).size).toBe(10);
+      for (const stop of stops) {
+        const start = starts.find(
+          (row) => row.eid === stop.eid && row.att === stop.att.replace('_stop', '_start')
+        );
+        expect(start!.dt < stop.dt).toBe(true);
+      }
+      expect(result.eadv.every((row) => row.att.startsWith('rx_c09aa0'))).toBe(true);
+    });
+  });
+
+  describe('faults', () => {
+    const ruleblocks = [
+      {
+        name: 'ckd',
+        text: `
+          egfr_last => eadv.lab_bld_egfr.val.last();
+          dm => rout_dm.has_dm.val.bind();
+        `,
+        isActive: true,
+      },
+    ];
+
+    it('should log every fault in metadata', () => {
+      const options = {
+        entityCount: 20,
+        dateRange: { start: '2024-01-01', end: '2024-12-31' },
+        seed: 12345,
+      };
+      const clean = generateMockData({ ruleblocks, options });
+      const result = generateMockData({
+        ruleblocks,
+        options: {
+          ...options,
+          faults: { duplicates: 0.1, sentinels: 0.1, outOfRangeDates: 0.1, missingRoutRows: 0.2 },
+        },
+      });
+
+      const faults = result.metadata.faults!;
+      const count = (type: string) => faults.filter((fault) => fault.type === type).length;
+      expect(count('duplicate')).toBeGreaterThan(0);
+      expect(count('sentinel')).toBeGreaterThan(0);
+      expect(count('out-of-range-date')).toBeGreaterThan(0);
+      expect(result.routTables.rout_dm).toHaveLength(20 - count('missing-rout-row'));
+      expect(result.eadv).toHaveLength(clean.eadv.length + count('duplicate'));
+      for (const fault of faults.filter((f) => f.type === 'sentinel')) {
+        expect(result.eadv.some((row) => row.eid === fault.eid && row.val === fault.val)).toBe(
+          true
+        );
+      }
+    });
+
+    it('should not change the clean rows', () => {
+      const options = { entityCount: 5, seed: 3 };
+      const clean = generateMockData({ ruleblocks, options });
+      const dirty = generateMockData({
+        ruleblocks,
+        options: { ...options, faults: { missingRoutRows: 1 } },
+      });
+
+      expect(dirty.eadv).toEqual(clean.eadv);
+      expect(dirty.routTables.rout_dm).toEqual([]);
+      expect(clean.metadata.faults).toBeUndefined();
+    });
+  });
+
+  describe('cohorts', () => {
+    const ruleblocks = [
+      {
+        name: 'ckd',
+        text: `
+          egfr_last => eadv.lab_bld_egfr.val.last();
+          dm_status => rout_dm.dm.val.bind();
+        `,
+        isActive: true,
+      },
+    ];
+
+    it('should generate each cohort from its own settings and label its entities', () => {
+      const result = generateMockData({
+        ruleblocks,
+        options: {
+          entityCount: 10,
+          cohorts: [
+            {
+              name: 'ckd_stage_4',
+              proportion: 0.3,
+              valueGenerators: { lab_bld_egfr: { dist: 'uniform', min: 15, max: 29 } },
+              bindTableValues: { rout_dm: { dm: { dist: 'constant', value: 1 } } },
+            },
+            {
+              name: 'healthy',
+              proportion: 0.7,
+              valueGenerators: { lab_bld_egfr: { dist: 'uniform', min: 90, max: 120 } },
+            },
+          ],
+          seed: 12345,
+        },
+      });
+
+      const cohorts = result.metadata.cohorts!;
+      expect(Object.values(cohorts).filter((c) => c === 'ckd_stage_4')).toHaveLength(3);
+      for (const row of result.eadv) {
+        const [min, max] = cohorts[row.eid] === 'ckd_stage_4' ? [15, 29] : [90, 120];
+        expect(row.val as number).toBeGreaterThanOrEqual(min);
+        expect(row.val as number).toBeLessThanOrEqual(max);
+      }
+      for (const row of result.routTables.rout_dm) {
+        if (cohorts[row.eid] === 'ckd_stage_4') expect(row.dm).toBe(1);
+      }
+    });
+
+    it('should add entities for cohorts given by count', () => {
+      const result = generateMockData({
+        ruleblocks,
+        options: {
+          entityCount: 3,
+          cohorts: [
+            { name: 'a', count: 4 },
+            { name: 'b', count: 2 },
+          ],
+          seed: 12345,
+        },
+      });
+
+      expect(result.metadata.entities).toHaveLength(6);
+      expect(Object.values(result.metadata.cohorts!)).toEqual(['a', 'a', 'a', 'a', 'b', 'b']);
+    });
+
+    it('should label streamed chunks with the cohort', () => {
+      const chunks = Array.from(
+        streamMockData({
+          ruleblocks,
+          options: { entityCount: 2, cohorts: [{ name: 'a', count: 1 }], seed: 1 },
+        })
+      );
+
+      expect(chunks.filter((c) => c.table === 'eadv').map((c) => c.cohort)).toEqual(['a', null]);
+    });
+  });
+
+  describe('wildcard vocabularies', () => {
+    it('should report the codes each wildcard expanded to', () => {
+      const result = generateMockData({
+        ruleblocks: [
+          {
+            name: 'crc',
+            text: 'crc_dx => eadv.[icd_c18%].dt.min();',
+            isActive: true,
+          },
+        ],
+        options: {
+          entityCount: 10,
+          seed: 12345,
+          vocabularies: [{ name: 'icd10', prefix: 'icd_', codes: ['C18.0', 'C18.2', 'C18.9'] }],
+        },
+      });
+
+      const expansions = result.metadata.wildcardExpansions['icd_c18%'];
+      expect(expansions.length).toBeGreaterThan(1);
+      expansions.forEach((att) => expect(['icd_c18_0', 'icd_c18_2', 'icd_c18_9']).toContain(att));
+    });
+  });
+
   describe('metadata', () => {
     it('should include correct entity IDs', () => {
       const result = generateMockData({
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { resolveObservationCounts } from '../../src/generators/observation-counts';
+import { GeneratorSpecError } from '../../src/generators/generator-spec';
+import { createSeededRandom } from '../../src/utils/random';
+import { ObservationCountSetting } from '../../src/models/types';
+
+describe('observation counts', () => {
+  const draw = (setting: ObservationCountSetting, n = 500) => {
+    const { att } = resolveObservationCounts({ att: setting }, 'observationCounts');
+    const random = createSeededRandom(12345);
+    return Array.from({ length: n }, () => att(random));
+  };
+
+  it('should return fixed counts, including zero', () => {
+    expect(draw(4, 3)).toEqual([4, 4, 4]);
+    expect(draw(0, 3)).toEqual([0, 0, 0]);
+  });
+
+  it('should draw counts from a range per entity', () => {
+    const counts = draw({ min: 0, max: 3 });
+
+    expect(new Set(counts)).toEqual(new Set([0, 1, 2, 3]));
+  });
+
+  it('should draw counts from a distribution', () => {
+    const counts = draw({ dist: 'poisson', lambda: 2 });
+    const mean = counts.reduce((a, b) => a + b, 0) / counts.length;
+
+    expect(counts.every((c) => Number.isInteger(c) && c >= 0)).toBe(true);
+    expect(mean).toBeGreaterThan(1.7);
+    expect(mean).toBeLessThan(2.3);
+  });
+
+  it('should give zero-inflated counts extra zeros', () => {
+    const counts = draw({
+      dist: 'zero-inflated',
+      zeroProbability: 0.4,
+      of: { dist: 'poisson', lambda: 5 },
+    });
+    const zeros = counts.filter((c) => c === 0).length / counts.length;
+
+    expect(zeros).toBeGreaterThan(0.35);
+    expect(zeros).toBeLessThan(0.5);
+  });
+
+  it('should round generator values and floor them at zero', () => {
+    expect(draw(() => 2.6, 1)).toEqual([3]);
+    expect(draw(() => -1, 1)).toEqual([0]);
+    expect(draw(() => 'many', 1)).toEqual([0]);
+  });
+
+  it('should report every invalid setting with its path', () => {
+    let error: GeneratorSpecError | undefined;
+    try {
+      resolveObservationCounts(
+        {
+          lab_bld_egfr: -1,
+          lab_bld_hba1c: { min: 3, max: 1 },
+          lab_bld_acr: { dist: 'zero-inflated', zeroProbability: 2 } as ObservationCountSetting,
+        },
+        'observationCounts'
+      );
+    } catch (e) {
+      error = e as GeneratorSpecError;
+    }
+
+    expect(error?.issues.map((issue) => issue.path)).toEqual([
+      'observationCounts.lab_bld_egfr',
+      'observationCounts.lab_bld_hba1c.max',
+      'observationCounts.lab_bld_acr.zeroProbability',
+      'observationCounts.lab_bld_acr.of',
+    ]);
+  });
+});
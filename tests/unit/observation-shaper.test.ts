@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  shapeObservationCount,
+  shapeObservationValues,
+} from '../../src/generators/observation-shaper';
+import { createSeededRandom } from '../../src/utils/random';
+
+describe('observation shaper', () => {
+  const dates = [
+    new Date('2024-12-01'),
+    new Date('2024-09-01'),
+    new Date('2024-06-01'),
+    new Date('2024-03-01'),
+  ];
+
+  describe('shapeObservationCount', () => {
+    it('should vary counts for count()', () => {
+      const random = createSeededRandom(12345);
+      const counts = new Set<number>();
+      for (let i = 0; i < 50; i++) {
+        const count = shapeObservationCount(new Set(['count']), 3, random);
+        expect(count).toBeGreaterThanOrEqual(0);
+        expect(count).toBeLessThanOrEqual(6);
+        counts.add(count);
+      }
+
+      expect(counts.size).toBeGreaterThan(3);
+    });
+
+    it('should leave some entities without rows for exists()', () => {
+      const random = createSeededRandom(12345);
+      const counts = Array.from({ length: 50 }, () =>
+        shapeObservationCount(new Set(['exists']), 3, random)
+      );
+
+      expect(counts).toContain(0);
+      expect(counts).toContain(3);
+    });
+
+    it('should require two rows for regr_slope()', () => {
+      const random = createSeededRandom(12345);
+
+      expect(shapeObservationCount(new Set(['regr_slope']), 1, random)).toBe(2);
+    });
+
+    it('should keep the default count for last()', () => {
+      const random = createSeededRandom(12345);
+
+      expect(shapeObservationCount(new Set(['last']), 3, random)).toBe(3);
+    });
+  });
+
+  describe('shapeObservationValues', () => {
+    it('should produce upward and downward trends for regr_slope()', () => {
+      const random = createSeededRandom(12345);
+      const directions = new Set<number>();
+
+      for (let i = 0; i < 30; i++) {
+        const values = shapeObservationValues(
+          new Set(['regr_slope']),
+          [60, 61, 59, 60],
+          dates,
+          random
+        ) as number[];
+        // dates are most recent first
+        directions.add(Math.sign(values[0] - values[values.length - 1]));
+      }
+
+      expect(directions).toContain(1);
+      expect(directions).toContain(-1);
+    });
+
+    it('should include a clear maximum for max()', () => {
+      const random = createSeededRandom(12345);
+      const values = shapeObservationValues(new Set(['max']), [50, 52, 51, 49], dates, random);
+
+      expect(Math.max(...(values as number[]))).toBeGreaterThanOrEqual(52 * 1.5);
+    });
+
+    it('should include a clear minimum for min()', () => {
+      const random = createSeededRandom(12345);
+      const values = shapeObservationValues(new Set(['min']), [50, 52, 51, 49], dates, random);
+
+      expect(Math.min(...(values as number[]))).toBeLessThanOrEqual(49 * 0.7);
+    });
+
+    it('should leave values untouched for last()', () => {
+      const random = createSeededRandom(12345);
+      const values = [50, 52, 51, 49];
+
+      expect(shapeObservationValues(new Set(['last']), values, dates, random)).toEqual(values);
+    });
+
+    it('should leave non-numeric values untouched', () => {
+      const random = createSeededRandom(12345);
+      const values = ['a', 'b', 'c', 'd'];
+
+      expect(shapeObservationValues(new Set(['max']), values, dates, random)).toEqual(values);
+    });
+  });
+});
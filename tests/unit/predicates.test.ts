@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parsePredicate,
+  tryParsePredicate,
+  collectComparisons,
+  collectVariables,
+  collectUnsupportedFunctions,
+  evaluateExpression,
+  evaluatePredicate,
+} from '../../src/predicates';
+
+describe('predicates', () => {
+  describe('parsePredicate', () => {
+    it('should parse a simple comparison', () => {
+      const expr = parsePredicate('egfr_last < 60');
+
+      expect(expr).toEqual({
+        kind: 'binary',
+        operator: '<',
+        left: { kind: 'variable', name: 'egfr_last' },
+        right: { kind: 'literal', value: 60 },
+      });
+    });
+
+    it('should parse logical operators with precedence', () => {
+      const expr = parsePredicate('a > 1 or b > 2 and c > 3');
+
+      expect(expr.kind).toBe('binary');
+      expect(expr.kind === 'binary' && expr.operator).toBe('or');
+    });
+
+    it('should normalise <> to !=', () => {
+      const expr = parsePredicate('ckd <> 1');
+
+      expect(expr.kind === 'binary' && expr.operator).toBe('!=');
+    });
+
+    it('should throw on invalid predicates', () => {
+      expect(() => parsePredicate('egfr <')).toThrow();
+      expect(tryParsePredicate('egfr <')).toBeUndefined();
+    });
+  });
+
+  describe('collectComparisons', () => {
+    it('should collect comparisons from compound predicates', () => {
+      const comparisons = collectComparisons(
+        parsePredicate('egfr < 60 and acr >= 3.5')
+      );
+
+      expect(comparisons).toEqual([
+        { variable: 'egfr', operator: '<', value: 60 },
+        { variable: 'acr', operator: '>=', value: 3.5 },
+      ]);
+    });
+
+    it('should flip comparisons with the literal on the left', () => {
+      const comparisons = collectComparisons(parsePredicate('60 > egfr'));
+
+      expect(comparisons).toEqual([{ variable: 'egfr', operator: '<', value: 60 }]);
+    });
+
+    it('should expand between and in', () => {
+      const comparisons = collectComparisons(
+        parsePredicate('egfr between 30 and 59 or stage in (4, 5)')
+      );
+
+      expect(comparisons.map((c) => c.value)).toEqual([30, 59, 4, 5]);
+    });
+  });
+
+  describe('collectVariables', () => {
+    it('should collect referenced variables except sysdate', () => {
+      const vars = collectVariables(parsePredicate('egfr_dt > sysdate - 90 and egfr < 60'));
+
+      expect(Array.from(vars)).toEqual(['egfr_dt', 'egfr']);
+    });
+  });
+
+  describe('collectUnsupportedFunctions', () => {
+    it('should collect functions the evaluator does not implement', () => {
+      const expr = parsePredicate('floor(least_date(a_dt, b_dt) - sysdate) > abs(c)');
+
+      expect(collectUnsupportedFunctions(expr)).toEqual(['floor', 'least_date']);
+    });
+  });
+
+  describe('evaluatePredicate', () => {
+    it('should evaluate comparisons against variables', () => {
+      const expr = parsePredicate('egfr < 60');
+
+      expect(evaluatePredicate(expr, { variables: { egfr: 59 } })).toBe(true);
+      expect(evaluatePredicate(expr, { variables: { egfr: 60 } })).toBe(false);
+    });
+
+    it('should treat null comparisons as false', () => {
+      const expr = parsePredicate('egfr < 60');
+
+      expect(evaluatePredicate(expr, { variables: {} })).toBe(false);
+      expect(evaluateExpression(expr, { variables: {} })).toBeNull();
+    });
+
+    it('should support is null checks', () => {
+      expect(evaluatePredicate(parsePredicate('egfr is null'), { variables: {} })).toBe(true);
+      expect(
+        evaluatePredicate(parsePredicate('egfr is not null'), { variables: { egfr: 1 } })
+      ).toBe(true);
+    });
+
+    it('should support the Picorules null shorthand', () => {
+      expect(evaluatePredicate(parsePredicate('dx_dt?'), { variables: {} })).toBe(true);
+      expect(
+        evaluatePredicate(parsePredicate('dx_dt!? and egfr < 60'), {
+          variables: { dx_dt: new Date('2024-01-01'), egfr: 30 },
+        })
+      ).toBe(true);
+    });
+
+    it('should do date arithmetic in days', () => {
+      const expr = parsePredicate('egfr_dt > sysdate - 90');
+      const sysdate = new Date('2024-12-31');
+
+      expect(
+        evaluatePredicate(expr, { variables: { egfr_dt: new Date('2024-12-01') }, sysdate })
+      ).toBe(true);
+      expect(
+        evaluatePredicate(expr, { variables: { egfr_dt: new Date('2024-06-01') }, sysdate })
+      ).toBe(false);
+    });
+
+    it('should evaluate arithmetic and functions', () => {
+      const expr = parsePredicate('greatest(a, b) * 2 >= 10');
+
+      expect(evaluatePredicate(expr, { variables: { a: 2, b: 5 } })).toBe(true);
+      expect(evaluatePredicate(expr, { variables: { a: 2, b: 4 } })).toBe(false);
+    });
+
+    it('should treat unsupported functions as unknown', () => {
+      const expr = parsePredicate('floor(a) > 1');
+
+      expect(evaluateExpression(parsePredicate('floor(a)'), { variables: { a: 2.5 } })).toBeNull();
+      expect(evaluatePredicate(expr, { variables: { a: 2.5 } })).toBe(false);
+    });
+
+    it('should compare string literals', () => {
+      const expr = parsePredicate("status = 'active'");
+
+      expect(evaluatePredicate(expr, { variables: { status: 'active' } })).toBe(true);
+    });
+  });
+});
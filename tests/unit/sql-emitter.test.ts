@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  emitSqlScript,
+  emitCreateTable,
+  emitInserts,
+  inferColumns,
+  inferColumnType,
+  sqlLiteral,
+  canonicalSqlDate,
+} from '../../src/emitters/sql-emitter';
+import { EadvRow, MockDataResult } from '../../src/models/types';
+
+describe('sql-emitter', () => {
+  const rows: EadvRow[] = [
+    { eid: 1001, att: 'lab_bld_egfr', dt: '2024-06-01', val: 45.5 },
+    { eid: 1002, att: "o'brien_note", dt: '2024-07-15', val: null },
+  ];
+
+  const result: MockDataResult = {
+    eadv: rows,
+    tables: { eadv: rows },
+    routTables: {
+      rout_ckd: [
+        { eid: 1001, ckd: 1, label: 'stage 3' },
+        { eid: 1002, ckd: 0, label: null },
+      ],
+    },
+    metadata: {
+      entities: [1001, 1002],
+      attributes: ['lab_bld_egfr'],
+      bindDependencies: ['rout_ckd'],
+      totalRows: 2,
+      tables: {},
+      thresholds: {},
+      wildcardExpansions: {},
+    },
+  };
+
+  describe('canonicalSqlDate', () => {
+    it('should convert each date format', () => {
+      expect(canonicalSqlDate('2024-06-01', 'iso')).toBe('2024-06-01');
+      expect(canonicalSqlDate('01-JUN-2024', 'oracle')).toBe('2024-06-01');
+      expect(canonicalSqlDate('2024-06-01 08:30:00', 'mssql')).toBe('2024-06-01 08:30:00');
+    });
+
+    it('should reject strings that are not dates', () => {
+      expect(canonicalSqlDate('lab_bld_egfr', 'iso')).toBeUndefined();
+      expect(canonicalSqlDate('2024-06-01', 'oracle')).toBeUndefined();
+    });
+  });
+
+  describe('inferColumnType', () => {
+    it('should infer types from values', () => {
+      expect(inferColumnType([1, 2, null], 'iso')).toBe('integer');
+      expect(inferColumnType([1, 2.5], 'iso')).toBe('number');
+      expect(inferColumnType(['2024-01-01', null], 'iso')).toBe('date');
+      expect(inferColumnType(['a', 1], 'iso')).toBe('string');
+      expect(inferColumnType([null, null], 'iso')).toBe('integer');
+    });
+
+    it('should infer EADV columns', () => {
+      expect(inferColumns(rows, 'iso')).toEqual([
+        { name: 'eid', type: 'integer' },
+        { name: 'att', type: 'string' },
+        { name: 'dt', type: 'date' },
+        { name: 'val', type: 'number' },
+      ]);
+    });
+  });
+
+  describe('sqlLiteral', () => {
+    const dateColumn = { name: 'dt', type: 'date' as const };
+
+    it('should render dialect date literals', () => {
+      expect(sqlLiteral('2024-06-01', dateColumn, 'oracle', 'iso')).toBe(
+        "TO_DATE('2024-06-01', 'YYYY-MM-DD')"
+      );
+      expect(sqlLiteral('2024-06-01', dateColumn, 'mssql', 'iso')).toBe(
+        "CONVERT(DATETIME, '2024-06-01', 23)"
+      );
+      expect(sqlLiteral('2024-06-01', dateColumn, 'postgres', 'iso')).toBe("DATE '2024-06-01'");
+      expect(sqlLiteral('2024-06-01', dateColumn, 'sqlite', 'iso')).toBe("'2024-06-01'");
+      expect(sqlLiteral('2024-06-01 08:30:00', dateColumn, 'oracle', 'mssql')).toBe(
+        "TO_DATE('2024-06-01 08:30:00', 'YYYY-MM-DD HH24:MI:SS')"
+      );
+    });
+
+    it('should escape strings and render NULL', () => {
+      const column = { name: 'att', type: 'string' as const };
+
+      expect(sqlLiteral("o'brien", column, 'postgres', 'iso')).toBe("'o''brien'");
+      expect(sqlLiteral(null, column, 'postgres', 'iso')).toBe('NULL');
+      expect(sqlLiteral(5, column, 'postgres', 'iso')).toBe("'5'");
+    });
+  });
+
+  describe('emitCreateTable', () => {
+    it('should map column types per dialect', () => {
+      const columns = inferColumns(rows, 'iso');
+
+      expect(emitCreateTable('eadv', columns, 'oracle')).toBe(
+        'CREATE TABLE eadv (\n' +
+          '  eid NUMBER(10),\n' +
+          '  att VARCHAR2(4000),\n' +
+          '  dt DATE,\n' +
+          '  val NUMBER\n' +
+          ');'
+      );
+      expect(emitCreateTable('eadv', columns, 'mssql')).toContain('  val FLOAT');
+    });
+
+    it('should drop tables first when asked', () => {
+      expect(emitCreateTable('eadv', [], 'postgres', 'iso', true)).toContain(
+        'DROP TABLE IF EXISTS eadv;'
+      );
+      expect(emitCreateTable('eadv', [], 'oracle', 'iso', true)).toContain('SQLCODE != -942');
+    });
+  });
+
+  describe('emitInserts', () => {
+    const columns = [{ name: 'eid', type: 'integer' as const }];
+    const many = Array.from({ length: 1500 }, (_, i) => ({ eid: i, att: 'a', dt: '', val: 1 }));
+
+    it('should use INSERT ALL for Oracle', () => {
+      const sql = emitInserts('eadv', columns, many.slice(0, 2), 'oracle');
+
+      expect(sql).toBe(
+        'INSERT ALL\n' +
+          '  INTO eadv (eid) VALUES (0)\n' +
+          '  INTO eadv (eid) VALUES (1)\n' +
+          'SELECT 1 FROM DUAL;'
+      );
+    });
+
+    it('should batch rows', () => {
+      const sql = emitInserts('eadv', columns, many.slice(0, 5), 'postgres', 'iso', 2);
+
+      expect(sql.match(/INSERT INTO/g)?.length).toBe(3);
+    });
+
+    it('should cap SQL Server batches at 1000 rows', () => {
+      const sql = emitInserts('eadv', columns, many, 'mssql', 'iso', 5000);
+
+      expect(sql.match(/INSERT INTO/g)?.length).toBe(2);
+    });
+  });
+
+  describe('emitSqlScript', () => {
+    it('should create and fill the EADV and rout tables', () => {
+      const sql = emitSqlScript(result, { dialect: 'postgres' });
+
+      expect(sql).toContain('CREATE TABLE eadv (');
+      expect(sql).toContain('CREATE TABLE rout_ckd (');
+      expect(sql).toContain("(1001, 'lab_bld_egfr', DATE '2024-06-01', 45.5)");
+      expect(sql).toContain("(1002, 'o''brien_note', DATE '2024-07-15', NULL)");
+      expect(sql).toContain("(1001, 1, 'stage 3')");
+      expect(sql.indexOf('CREATE TABLE eadv')).toBeLessThan(sql.indexOf('INSERT INTO eadv'));
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { resolveTrajectory, generateTrajectoryValues } from '../../src/generators/trajectory';
+import { GeneratorSpecError } from '../../src/generators/generator-spec';
+import { createSeededRandom } from '../../src/utils/random';
+import { TrajectorySpec } from '../../src/models/types';
+
+describe('trajectories', () => {
+  const dateRange = { start: new Date('2022-01-01'), end: new Date('2024-01-01') };
+  // Monthly dates, most recent first like generateDates
+  const dates = Array.from({ length: 24 }, (_, i) => new Date(Date.UTC(2023, 11 - i, 15)));
+
+  const values = (spec: TrajectorySpec, seed = 12345) =>
+    generateTrajectoryValues(
+      resolveTrajectory(spec, 'trajectories.test'),
+      dates,
+      dateRange,
+      createSeededRandom(seed)
+    );
+
+  describe('generateTrajectoryValues', () => {
+    it('should hold a stable profile at its baseline', () => {
+      expect(values({ baseline: 80 })).toEqual(dates.map(() => 80));
+    });
+
+    it('should follow the slope over time', () => {
+      const result = values({ baseline: 60, slope: -6, decimals: 1 });
+
+      // Values are aligned with dates, so the oldest is last
+      expect(result[result.length - 1]).toBeCloseTo(60 - 6 * (14 / 365.25), 1);
+      expect(result[0]).toBeCloseTo(60 - 6 * (713 / 365.25), 1);
+      for (let i = 1; i < result.length; i++) {
+        expect(result[i - 1]).toBeLessThan(result[i]);
+      }
+    });
+
+    it('should drop at the event and recover', () => {
+      const result = values({
+        baseline: 90,
+        event: { depth: 40, recoveryDays: 90 },
+        decimals: 0,
+      });
+      const lowest = Math.min(...result);
+      const lowestIndex = result.indexOf(lowest);
+
+      expect(lowest).toBeLessThan(90);
+      expect(lowest).toBeGreaterThanOrEqual(50);
+      // More than 90 days after the drop, values are back on the trend
+      expect(result.slice(0, Math.max(0, lowestIndex - 3))).toEqual(
+        new Array(Math.max(0, lowestIndex - 3)).fill(90)
+      );
+    });
+
+    it('should skip the event for entities outside its probability', () => {
+      expect(values({ baseline: 90, event: { depth: 40, probability: 0 } })).toEqual(
+        dates.map(() => 90)
+      );
+    });
+
+    it('should correlate consecutive observations', () => {
+      const lag1 = (xs: number[]) => {
+        const mean = xs.reduce((a, b) => a + b, 0) / xs.length;
+        let num = 0;
+        let den = 0;
+        for (let i = 0; i < xs.length; i++) {
+          den += (xs[i] - mean) ** 2;
+          if (i > 0) num += (xs[i] - mean) * (xs[i - 1] - mean);
+        }
+        return num / den;
+      };
+
+      const correlated: number[] = [];
+      const independent: number[] = [];
+      for (let seed = 1; seed <= 20; seed++) {
+        correlated.push(
+          lag1(values({ baseline: 0, variability: 10, autocorrelation: 0.9 }, seed))
+        );
+        independent.push(lag1(values({ baseline: 0, noise: 10 }, seed)));
+      }
+      const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+      expect(mean(correlated)).toBeGreaterThan(0.5);
+      expect(Math.abs(mean(independent))).toBeLessThan(0.2);
+    });
+
+    it('should draw baseline and slope once per entity from specs', () => {
+      const spec: TrajectorySpec = {
+        baseline: { dist: 'uniform', min: 30, max: 100 },
+        slope: { dist: 'uniform', min: -5, max: -1 },
+        decimals: 0,
+      };
+
+      const a = values(spec, 1);
+      const b = values(spec, 2);
+
+      expect(a).not.toEqual(b);
+      expect(a[0]).toBeLessThan(a[a.length - 1]);
+    });
+
+    it('should keep values within min and max', () => {
+      const result = values({ baseline: 20, slope: -30, noise: 5, min: 5, max: 130 });
+
+      expect(result.every((v) => v >= 5 && v <= 130)).toBe(true);
+    });
+  });
+
+  describe('resolveTrajectory', () => {
+    it('should report every problem with its path', () => {
+      expect(() =>
+        resolveTrajectory(
+          {
+            baseline: { dist: 'normal', mean: 60 } as TrajectorySpec['baseline'],
+            autocorrelation: 1.5,
+            event: { depth: 10, recoveryDays: 0 },
+          },
+          'trajectories.lab_bld_egfr'
+        )
+      ).toThrow(GeneratorSpecError);
+
+      let error: GeneratorSpecError | undefined;
+      try {
+        resolveTrajectory(
+          { baseline: 60, noise: -1, event: { depth: 10, probability: 2 } },
+          'trajectories.lab_bld_egfr'
+        );
+      } catch (e) {
+        error = e as GeneratorSpecError;
+      }
+
+      expect(error?.issues.map((issue) => issue.path)).toEqual([
+        'trajectories.lab_bld_egfr.noise',
+        'trajectories.lab_bld_egfr.event.probability',
+      ]);
+    });
+  });
+});